@@ -0,0 +1,118 @@
+import * as chokidar from 'chokidar';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Present in the git directory while a checkout, commit, merge or rebase is rewriting the work tree
+const INDEX_LOCK = 'index.lock';
+const REBASE_MARKERS = ['rebase-merge', 'rebase-apply'];
+const GIT_OPERATION_MARKERS = [INDEX_LOCK, ...REBASE_MARKERS];
+
+// git status and git add, which VS Code runs on every save, hold the index lock for a moment;
+// only a lock still held after this long is taken for an operation
+const INDEX_LOCK_GRACE_MS = 300;
+
+/**
+ * The git directory of the repository containing dir, or null outside a repository.
+ * Worktrees and submodules point to theirs with a "gitdir:" file.
+ */
+export async function findGitDir(dir: string): Promise<string | null> {
+    let current = path.resolve(dir);
+    for (;;) {
+        const candidate = path.join(current, '.git');
+        try {
+            if ((await fs.stat(candidate)).isDirectory()) return candidate;
+            const match = /^gitdir:\s*(.+)$/m.exec(await fs.readFile(candidate, 'utf8'));
+            if (match) return path.resolve(current, match[1].trim());
+        } catch {
+            // Not in this folder
+        }
+        const parent = path.dirname(current);
+        if (parent === current) return null;
+        current = parent;
+    }
+}
+
+export async function isGitOperationInProgress(gitDir: string): Promise<boolean> {
+    return hasAnyMarker(gitDir, GIT_OPERATION_MARKERS);
+}
+
+async function hasAnyMarker(gitDir: string, markers: string[]): Promise<boolean> {
+    for (const marker of markers) {
+        try {
+            await fs.stat(path.join(gitDir, marker));
+            return true;
+        } catch {
+            // Marker absent
+        }
+    }
+    return false;
+}
+
+/**
+ * Watches a git directory and reports when a git operation starts or ends.
+ */
+export class GitOperationWatcher {
+    private watcher: chokidar.FSWatcher | null = null;
+    private busy = false;
+    private checking: Promise<void> = Promise.resolve();
+    private lockTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly gitDir: string,
+        private readonly onChange: (busy: boolean) => void
+    ) {}
+
+    public async start(): Promise<void> {
+        this.watcher = chokidar.watch(this.gitDir, { depth: 0, ignoreInitial: true, persistent: true });
+        this.watcher.on('all', (_event, changedPath) => {
+            if (GIT_OPERATION_MARKERS.includes(path.basename(changedPath))) {
+                this.check();
+            }
+        });
+        await this.check();
+    }
+
+    public isBusy(): boolean {
+        return this.busy;
+    }
+
+    public async dispose(): Promise<void> {
+        const watcher = this.watcher;
+        this.watcher = null;
+        this.clearLockTimer();
+        if (watcher) {
+            await watcher.close();
+        }
+    }
+
+    // Checks run one after the other so quick lock/unlock pairs are reported in order
+    private check(lockOutlivedGrace = false): Promise<void> {
+        this.checking = this.checking.then(async () => {
+            const busy = await isGitOperationInProgress(this.gitDir);
+            if (!busy) {
+                this.clearLockTimer();
+            }
+            if (!this.watcher || busy === this.busy) return;
+            if (busy && !lockOutlivedGrace && !(await hasAnyMarker(this.gitDir, REBASE_MARKERS))) {
+                // Only the index lock: report it once it outlives a routine status or add
+                if (!this.lockTimer) {
+                    this.lockTimer = setTimeout(() => {
+                        this.lockTimer = null;
+                        this.check(true);
+                    }, INDEX_LOCK_GRACE_MS);
+                }
+                return;
+            }
+            this.busy = busy;
+            this.onChange(busy);
+        });
+        return this.checking;
+    }
+
+    private clearLockTimer(): void {
+        if (this.lockTimer) {
+            clearTimeout(this.lockTimer);
+            this.lockTimer = null;
+        }
+    }
+}
@@ -0,0 +1,179 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export const PROJECT_FILE_NAME = 'project.godot';
+
+export interface GodotProjectInfo {
+    root: string;
+    name: string;
+    /** Major Godot version, from config_version (4 = Godot 3.x, 5 = Godot 4.x). */
+    major: 3 | 4 | null;
+    /** Feature version such as "4.2" when the project records it, otherwise "3.x"/"4.x". */
+    version: string;
+}
+
+/**
+ * Reads the project name and Godot version from the contents of a project.godot file.
+ */
+export function parseProjectFile(content: string): { name: string; major: 3 | 4 | null; version: string } {
+    let section = '';
+    let name = '';
+    let configVersion: number | null = null;
+    let featureVersion = '';
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith(';')) continue;
+        const sectionMatch = /^\[(.+)\]$/.exec(line);
+        if (sectionMatch) {
+            section = sectionMatch[1];
+            continue;
+        }
+        const eq = line.indexOf('=');
+        if (eq < 0) continue;
+        const key = line.slice(0, eq).trim();
+        const value = line.slice(eq + 1).trim();
+        if (section === '' && key === 'config_version') {
+            configVersion = Number(value);
+        } else if (section === 'application' && key === 'config/name') {
+            name = value.replace(/^"|"$/g, '');
+        } else if (section === 'application' && key === 'config/features') {
+            const match = /"(\d+\.\d+)"/.exec(value);
+            if (match) featureVersion = match[1];
+        }
+    }
+    const major = configVersion === 5 ? 4 : configVersion === 4 ? 3 : null;
+    return { name, major, version: featureVersion || (major ? `${major}.x` : 'unknown') };
+}
+
+export async function readProjectInfo(projectRoot: string): Promise<GodotProjectInfo> {
+    const content = await fs.readFile(path.join(projectRoot, PROJECT_FILE_NAME), 'utf8');
+    const info = parseProjectFile(content);
+    return { root: projectRoot, ...info, name: info.name || path.basename(projectRoot) };
+}
+
+/**
+ * Why a folder is a questionable sync target, or null when it is a Godot project root.
+ */
+export async function checkTargetDir(dir: string): Promise<string | null> {
+    const resolved = path.resolve(dir);
+    if (resolved.split(path.sep).includes('.godot')) {
+        return 'Target is inside a .godot/ folder, which Godot regenerates; files synced there can be lost.';
+    }
+    const projectRoot = await findProjectRoot(resolved);
+    if (!projectRoot) {
+        return `Target is not inside a Godot project (no ${PROJECT_FILE_NAME} found).`;
+    }
+    if (projectRoot !== resolved) {
+        return `Target is not a Godot project root; files will land in ${toResPath(projectRoot, resolved)}/ of the project at ${projectRoot}.`;
+    }
+    return null;
+}
+
+/**
+ * Closest folder at or above dir that contains a project.godot file, or null when dir
+ * is not inside a Godot project.
+ */
+export async function findProjectRoot(dir: string): Promise<string | null> {
+    let current = path.resolve(dir);
+    for (;;) {
+        try {
+            await fs.access(path.join(current, PROJECT_FILE_NAME));
+            return current;
+        } catch {
+            const parent = path.dirname(current);
+            if (parent === current) return null;
+            current = parent;
+        }
+    }
+}
+
+/**
+ * res:// path of a file inside a project, e.g. /game/scenes/main.tscn -> res://scenes/main.tscn
+ */
+export function toResPath(projectRoot: string, filePath: string): string {
+    const relativePath = path.relative(projectRoot, filePath).split(path.sep).join('/');
+    return `res://${relativePath}`;
+}
+
+export const GDIGNORE_FILE_NAME = '.gdignore';
+export const EXPORT_PRESETS_FILE_NAME = 'export_presets.cfg';
+
+/**
+ * Folders below root (relative, '/'-separated, '' for root itself) that contain a .gdignore file.
+ * Godot skips such folders with everything inside, so their subfolders are not searched.
+ */
+export async function findGdignoreDirs(root: string): Promise<string[]> {
+    const dirs: string[] = [];
+    const walk = async (dir: string, relativeDir: string) => {
+        let entries;
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        if (entries.some(e => e.isFile() && e.name === GDIGNORE_FILE_NAME)) {
+            dirs.push(relativeDir);
+            return;
+        }
+        for (const entry of entries) {
+            if (entry.isDirectory() && entry.name !== '.godot' && entry.name !== '.import') {
+                await walk(path.join(dir, entry.name), relativeDir ? `${relativeDir}/${entry.name}` : entry.name);
+            }
+        }
+    };
+    await walk(root, '');
+    return dirs;
+}
+
+/**
+ * Folder between projectRoot (inclusive) and dir (exclusive) holding a .gdignore file,
+ * in which case Godot ignores dir as well. Returns its res:// path or null.
+ */
+export async function findIgnoringAncestor(projectRoot: string, dir: string): Promise<string | null> {
+    const root = path.resolve(projectRoot);
+    let current = path.dirname(path.resolve(dir));
+    while (current === root || current.startsWith(root + path.sep)) {
+        try {
+            await fs.access(path.join(current, GDIGNORE_FILE_NAME));
+            return current === root ? 'res://' : `${toResPath(root, current)}/`;
+        } catch {
+            if (current === root) break;
+            current = path.dirname(current);
+        }
+    }
+    return null;
+}
+
+/**
+ * exclude_filter globs of every preset in an export_presets.cfg file.
+ */
+export function parseExportFilters(content: string): string[] {
+    const filters = new Set<string>();
+    for (const line of content.split(/\r?\n/)) {
+        const match = /^\s*exclude_filter\s*=\s*"(.*)"\s*$/.exec(line);
+        if (!match) continue;
+        for (const filter of match[1].split(',')) {
+            const trimmed = filter.trim();
+            if (trimmed) filters.add(trimmed);
+        }
+    }
+    return [...filters];
+}
+
+export async function readExportFilters(projectRoot: string): Promise<string[]> {
+    try {
+        return parseExportFilters(await fs.readFile(path.join(projectRoot, EXPORT_PRESETS_FILE_NAME), 'utf8'));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Matches like Godot's export filters: case-insensitive, '*' also crosses folders, and the
+ * filter may be written with or without the res:// prefix.
+ */
+export function matchesExportFilter(resPath: string, filter: string): boolean {
+    const pattern = filter.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    const regex = new RegExp(`^${pattern}$`, 'i');
+    return regex.test(resPath) || regex.test(resPath.replace(/^res:\/\//, ''));
+}
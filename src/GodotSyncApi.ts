@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { FileSyncEvent, SidecarPolicy, SyncMode, SyncTrigger } from './SyncService';
+import { SyncPair, parseExtensions } from './SyncPair';
+import { ReferenceRewriteScope } from './ResourceReferences';
+
+/**
+ * Snapshot of a sync pair's configuration as seen by other extensions, taken when getPairs()
+ * is called. Changing it has no effect on the pair.
+ */
+export interface GodotSyncPairInfo {
+    readonly id: string;
+    readonly name: string;
+    readonly sourceDir: string;
+    readonly targetDir: string;
+    readonly extensions: readonly string[];
+    /** Glob patterns matched against paths relative to the pair folders. */
+    readonly include: readonly string[];
+    readonly exclude: readonly string[];
+    readonly mode: SyncMode;
+    readonly trigger: SyncTrigger;
+    readonly allowDeletion: boolean;
+    readonly includeHidden: boolean;
+    readonly usePolling: boolean;
+    readonly syncImportFiles: boolean;
+    readonly syncUidFiles: boolean;
+    readonly sidecarPolicy: SidecarPolicy;
+    readonly preset: string;
+    readonly rewriteReferences: ReferenceRewriteScope;
+    readonly useExportFilters: boolean;
+    readonly isRunning: boolean;
+}
+
+export interface GodotSyncFileEvent extends FileSyncEvent {
+    pairId: string;
+    pairName: string;
+}
+
+export interface GodotSyncFailureEvent extends GodotSyncFileEvent {
+    error: string;
+}
+
+export interface GodotSyncStateEvent {
+    pairId: string;
+    pairName: string;
+    isRunning: boolean;
+}
+
+/**
+ * Returned by activate(). Other extensions get it with
+ * vscode.extensions.getExtension<GodotSyncApi>('AbstratusLabs.godot-sync')?.activate().
+ */
+export interface GodotSyncApi {
+    /** Bumped on breaking changes. */
+    readonly version: 1;
+    getPairs(): GodotSyncPairInfo[];
+    /** Starts one pair, or every stopped pair when pairId is omitted. Returns false if nothing started. */
+    start(pairId?: string): boolean;
+    /** Stops one pair, or every running pair when pairId is omitted. */
+    stop(pairId?: string): void;
+    /** A file was copied (either direction) or moved to a new path. */
+    readonly onDidSyncFile: vscode.Event<GodotSyncFileEvent>;
+    /** A file was deleted on the other side, or moved away from its old path. */
+    readonly onDidDeleteFile: vscode.Event<GodotSyncFileEvent>;
+    readonly onDidFail: vscode.Event<GodotSyncFailureEvent>;
+    /** A pair started or stopped. */
+    readonly onDidChangeState: vscode.Event<GodotSyncStateEvent>;
+}
+
+/** What the API needs from the extension; implemented by the view provider. */
+export interface GodotSyncApiHost {
+    getPairs(): SyncPair[];
+    isPairRunning(pairId: string): boolean;
+    startPair(pair: SyncPair): boolean;
+    stopPair(pairId: string): void;
+}
+
+/** Emitters behind the API events; fired by the owner of the SyncManager. */
+export class GodotSyncApiEvents implements vscode.Disposable {
+    public readonly fileSynced = new vscode.EventEmitter<GodotSyncFileEvent>();
+    public readonly fileDeleted = new vscode.EventEmitter<GodotSyncFileEvent>();
+    public readonly fileFailed = new vscode.EventEmitter<GodotSyncFailureEvent>();
+    public readonly stateChanged = new vscode.EventEmitter<GodotSyncStateEvent>();
+
+    public dispose(): void {
+        this.fileSynced.dispose();
+        this.fileDeleted.dispose();
+        this.fileFailed.dispose();
+        this.stateChanged.dispose();
+    }
+}
+
+export function createGodotSyncApi(host: GodotSyncApiHost, events: GodotSyncApiEvents): GodotSyncApi {
+    const toInfo = (pair: SyncPair): GodotSyncPairInfo => Object.freeze({
+        id: pair.id,
+        name: pair.name,
+        sourceDir: pair.sourceDir,
+        targetDir: pair.targetDir,
+        extensions: Object.freeze(parseExtensions(pair.extensions)),
+        include: Object.freeze([...pair.include]),
+        exclude: Object.freeze([...pair.exclude]),
+        mode: pair.mode,
+        trigger: pair.trigger,
+        allowDeletion: pair.allowDeletion,
+        includeHidden: pair.includeHidden,
+        usePolling: pair.usePolling,
+        syncImportFiles: pair.syncImportFiles,
+        syncUidFiles: pair.syncUidFiles,
+        sidecarPolicy: pair.sidecarPolicy,
+        preset: pair.preset,
+        rewriteReferences: pair.rewriteReferences,
+        useExportFilters: pair.useExportFilters,
+        isRunning: host.isPairRunning(pair.id)
+    });
+    const select = (pairId: string | undefined): SyncPair[] => {
+        const pairs = host.getPairs();
+        if (pairId === undefined) return pairs;
+        const pair = pairs.find(p => p.id === pairId);
+        if (!pair) {
+            throw new Error(`Unknown sync pair: ${pairId}`);
+        }
+        return [pair];
+    };
+
+    return {
+        version: 1,
+        getPairs: () => host.getPairs().map(toInfo),
+        start: (pairId) => {
+            let started = false;
+            for (const pair of select(pairId)) {
+                if (!host.isPairRunning(pair.id) && host.startPair(pair)) {
+                    started = true;
+                }
+            }
+            return started;
+        },
+        stop: (pairId) => {
+            for (const pair of select(pairId)) {
+                if (host.isPairRunning(pair.id)) {
+                    host.stopPair(pair.id);
+                }
+            }
+        },
+        onDidSyncFile: events.fileSynced.event,
+        onDidDeleteFile: events.fileDeleted.event,
+        onDidFail: events.fileFailed.event,
+        onDidChangeState: events.stateChanged.event
+    };
+}
@@ -1,35 +1,170 @@
 import * as vscode from 'vscode';
-import { SyncService } from './SyncService';
+import * as path from 'path';
+import { BackupSettings, SyncManager } from './SyncManager';
+import { FileSyncResult, PauseReason, SidecarPolicy, SyncProgress, SyncTrigger, toCounterpartPath } from './SyncService';
+import { SyncPair, SyncPairStore } from './SyncPair';
+import { parsePatternList, toExcludePattern } from './SyncRules';
+import { getNonce } from './webviewUtils';
+import { SyncPreviewPanel } from './SyncPreviewPanel';
+import { countActions, formatBytes, formatResult } from './SyncPlan';
+import { CONFLICT_RESOLUTION_LABELS, ConflictResolution, SyncConflict } from './SyncConflicts';
+import { ReferenceEdit, ReferenceRewriteScope } from './ResourceReferences';
+import { SyncStatusBar } from './SyncStatusBar';
+import { BackupEntry } from './SyncBackups';
+import { DEFAULT_LOG_RETENTION, LOG_ACTIONS, LOG_LEVELS, LogBuffer, LogDetails, LogEntry, LogFilter, createLogEntry, exportLog, matchesLogFilter, normalizeLogEntries } from './SyncLog';
+import { CONFIG_FILE_NAME } from './SyncConfigFile';
+import { GodotSyncApi, GodotSyncApiEvents, GodotSyncApiHost, createGodotSyncApi } from './GodotSyncApi';
+import { GodotProjectInfo, PROJECT_FILE_NAME, checkTargetDir, findProjectRoot, readProjectInfo } from './GodotProject';
+import { SourceFolderContext } from './SourceFolderContext';
+import { FileStatusStore } from './SyncFileStatus';
+import { SyncStatusTreeProvider } from './SyncStatusTree';
+import { SyncFileDecorationProvider } from './SyncFileDecorations';
+import { SyncDiagnostics } from './SyncDiagnostics';
 
-const SOURCE_DIR_KEY = 'godotSync.sourceDir';
-const TARGET_DIR_KEY = 'godotSync.targetDir';
-const EXTENSIONS_KEY = 'godotSync.extensions';
-const ALLOW_DELETION_KEY = 'godotSync.allowDeletion';
 const LOG_FILE_KEY = 'godotSync.log';
-const INCLUDE_HIDDEN_KEY = 'godotSync.includeHidden';
-const USE_POLLING_KEY = 'godotSync.usePolling';
 const SYNC_IMPORT_FILES_KEY = 'godotSync.syncImportFiles';
 const FIRST_SEEN_VERSION_KEY = 'godotSync.firstSeenVersion';
-const PRESET_KEY = 'godotSync.preset';
+const MIRROR_CONFIRM_LIST_LIMIT = 30;
+const IGNORED_ORPHANS_KEY = 'godotSync.ignoredOrphans';
 
-export class GodotSyncViewProvider implements vscode.WebviewViewProvider {
+type OrphanAction = 'delete' | 'backup' | 'ignore';
+
+export type PairFolderField = 'sourceDir' | 'targetDir';
+
+export class GodotSyncViewProvider implements vscode.WebviewViewProvider, GodotSyncApiHost {
 
     public static readonly viewType = 'godotSyncView';
 
     private _view?: vscode.WebviewView;
-    private syncService: SyncService;
+    private syncManager: SyncManager;
+    private pairStore: SyncPairStore;
     private context: vscode.ExtensionContext;
-    private logBuffer: string[] = [];
-    private readonly maxLogLines = 200;
+    private logBuffer: LogBuffer;
+    private conflicts = new Map<string, SyncConflict[]>();
+    private orphans = new Map<string, string[]>();
+    private conflictNoticeTimer: NodeJS.Timeout | null = null;
+    private pendingConflictNotices: { pair: SyncPair, conflict: SyncConflict }[] = [];
+    private progressNotices = new Map<string, { update: (progress: SyncProgress) => void, finish: () => void }>();
+    private statusBar: SyncStatusBar;
+    private sourceFolders: SourceFolderContext;
+    private fileStatus = new FileStatusStore();
+    private fileStatusView: vscode.TreeView<unknown>;
+    private fileStatusScanned = false;
+    private diagnostics = new SyncDiagnostics();
+    private outputChannel: vscode.LogOutputChannel;
+    private disposables: vscode.Disposable[] = [];
+    private apiEvents = new GodotSyncApiEvents();
 
     constructor(private readonly _extensionUri: vscode.Uri, context: vscode.ExtensionContext) {
         this.context = context;
         this.initializeFirstSeenVersion();
-        this.syncService = new SyncService(
-            (message) => this.logMessage(message),
-            (isRunning) => this.updateStatus(isRunning)
+        this.pairStore = new SyncPairStore(this.context.workspaceState);
+        this.outputChannel = vscode.window.createOutputChannel('Godot Sync', { log: true });
+        this.logBuffer = new LogBuffer(normalizeLogEntries(this.context.workspaceState.get(LOG_FILE_KEY, [])), this.getLogRetention());
+        this.statusBar = new SyncStatusBar('godotSync.showStatusMenu');
+        this.syncManager = new SyncManager(
+            (pair, entry) => this.addLogEntry({ ...entry, pairId: pair.id, pairName: pair.name }),
+            (pair, isRunning) => {
+                this.updateStatus();
+                this.apiEvents.stateChanged.fire({ pairId: pair.id, pairName: pair.name, isRunning });
+            },
+            (this.context.storageUri || this.context.globalStorageUri).fsPath,
+            {
+                onConflictsChanged: (pair, conflicts) => this.onConflictsChanged(pair, conflicts),
+                onReferenceEdits: (pair, edits) => this.reviewReferenceEdits(pair, edits),
+                onProgress: (pair, progress) => this.onProgress(pair, progress),
+                onQueueChanged: (pair, stats) => this.statusBar.setPending(pair.id, stats.pending + stats.active),
+                onFileResult: (pair, result) => this.onFileResult(pair, result),
+                onFileQueued: (pair, relativePath) => this.fileStatus.markPending(pair.id, relativePath),
+                onFileSynced: (pair, event) => this.apiEvents.fileSynced.fire({ ...event, pairId: pair.id, pairName: pair.name }),
+                onFileDeleted: (pair, event) => this.apiEvents.fileDeleted.fire({ ...event, pairId: pair.id, pairName: pair.name }),
+                onFileFailed: (pair, event) => this.apiEvents.fileFailed.fire({ ...event, pairId: pair.id, pairName: pair.name }),
+                onPauseChanged: (pair, reason) => {
+                    this.statusBar.setPaused(pair.id, reason !== null);
+                    this.updateStatus();
+                }
+            }
         );
-        this.logBuffer = this.context.workspaceState.get<string[]>(LOG_FILE_KEY, []);
+        this.syncManager.configureBackups(this.getBackupSettings());
+        this.syncManager.setPauseDuringGitOperations(this.getPauseDuringGitOperations());
+        this.sourceFolders = new SourceFolderContext(() => this.pairStore.getPairs().map(pair => pair.sourceDir));
+        this.sourceFolders.refresh();
+        this.disposables.push(this.apiEvents, this.pairStore, this.sourceFolders, this.pairStore.onDidChange(() => this.onPairsChanged()));
+        const fileStatusTree = new SyncStatusTreeProvider(this.fileStatus, () => this.pairStore.getPairs());
+        const fileDecorations = new SyncFileDecorationProvider(this.fileStatus);
+        this.fileStatusView = vscode.window.createTreeView('godotSyncFiles', { treeDataProvider: fileStatusTree, showCollapseAll: true });
+        // Pairs that never ran are scanned the first time the view is shown
+        this.disposables.push(fileStatusTree, fileDecorations, this.fileStatusView, vscode.window.registerFileDecorationProvider(fileDecorations));
+        this.disposables.push(this.diagnostics, vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file' },
+            this.diagnostics,
+            { providedCodeActionKinds: SyncDiagnostics.providedCodeActionKinds }
+        ));
+        this.disposables.push(this.fileStatusView.onDidChangeVisibility(e => {
+            if (e.visible && !this.fileStatusScanned) {
+                this.refreshFileStatus();
+            }
+        }));
+        this.reportConfigFileError();
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('godotSync.backups')) {
+                this.syncManager.configureBackups(this.getBackupSettings());
+            }
+            if (e.affectsConfiguration('godotSync.pauseDuringGitOperations')) {
+                this.syncManager.setPauseDuringGitOperations(this.getPauseDuringGitOperations());
+            }
+            if (e.affectsConfiguration('godotSync.logRetention')) {
+                this.logBuffer.setRetention(this.getLogRetention());
+                this.context.workspaceState.update(LOG_FILE_KEY, this.logBuffer.toArray());
+                this.sendInitialConfig();
+            }
+        }));
+    }
+
+    private onPairsChanged() {
+        this.sourceFolders.scheduleRefresh();
+        const pairIds = new Set(this.pairStore.getPairs().map(p => p.id));
+        for (const pairId of this.fileStatus.getPairIds()) {
+            if (!pairIds.has(pairId)) {
+                this.fileStatus.removePair(pairId);
+                this.diagnostics.clearPair(pairId);
+            }
+        }
+        this.reportConfigFileError();
+        this.sendInitialConfig();
+        this.updateStatus();
+    }
+
+    private reportConfigFileError() {
+        const error = this.pairStore.getLoadError();
+        if (error) {
+            this.logMessage(`Could not read ${CONFIG_FILE_NAME}: ${error}`, { action: 'error' });
+            vscode.window.showErrorMessage(`Godot Sync: Could not read ${CONFIG_FILE_NAME} - ${error}`);
+        }
+    }
+
+    // Pairs are written to .godot-sync.json or the workspace settings, which can fail (invalid file, read-only folder)
+    private async writePairs<T>(write: () => Promise<T>): Promise<T | undefined> {
+        try {
+            return await write();
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.logMessage(`Could not save sync pairs: ${msg}`, { action: 'error' });
+            vscode.window.showErrorMessage(`Godot Sync: Could not save sync pairs - ${msg}`);
+            this.sendInitialConfig();
+            return undefined;
+        }
+    }
+
+    public async openWorkspaceConfig() {
+        try {
+            const filePath = await this.pairStore.createConfigFile();
+            await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+            this.sendInitialConfig();
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Godot Sync: Could not create ${CONFIG_FILE_NAME} - ${msg}`);
+        }
     }
 
     private initializeFirstSeenVersion() {
@@ -70,39 +205,117 @@ export class GodotSyncViewProvider implements vscode.WebviewViewProvider {
                 case 'webviewLoaded':
                     this.sendInitialConfig();
                     break;
+                case 'selectPair':
+                    this.selectPair(message.data);
+                    break;
+                case 'addPair':
+                    this.addPair();
+                    break;
+                case 'renamePair':
+                    this.renamePair();
+                    break;
+                case 'removePair':
+                    this.removePair();
+                    break;
                 case 'selectSourceFolder':
-                    this.selectFolder(SOURCE_DIR_KEY, 'updateSourceDir');
+                    this.selectFolder('sourceDir');
                     break;
                 case 'selectTargetFolder':
-                    this.selectFolder(TARGET_DIR_KEY, 'updateTargetDir');
+                    this.selectFolder('targetDir');
                     break;
                 case 'updateExtensions':
                     this.updateExtensions(message.data);
                     break;
+                case 'updateInclude':
+                    this.updatePatterns('include', message.data);
+                    break;
+                case 'updateExclude':
+                    this.updatePatterns('exclude', message.data);
+                    break;
                 case 'updateAllowDeletion':
-                    this.context.workspaceState.update(ALLOW_DELETION_KEY, message.data);
+                    this.updateSelectedPair({ allowDeletion: !!message.data });
                     break;
                 case 'startSync':
-                    this.startSync();
+                    this.startPair(this.pairStore.getSelectedPair());
+                    break;
+                case 'previewSync':
+                    this.previewPair(this.pairStore.getSelectedPair());
+                    break;
+                case 'findOrphans':
+                    this.findOrphansInPair(this.pairStore.getSelectedPair());
+                    break;
+                case 'orphanAction':
+                    this.handleOrphans(message.data.pairId, [message.data.relativePath], message.data.action);
+                    break;
+                case 'orphanActionAll':
+                    this.handleAllOrphans(message.data.action);
+                    break;
+                case 'cancelInitialSync':
+                    this.syncManager.cancelInitialSync(this.pairStore.getSelectedPair().id);
                     break;
                 case 'stopSync':
-                    this.syncService.stop();
+                    this.syncManager.stop(this.pairStore.getSelectedPair().id);
+                    break;
+                case 'pauseSync':
+                    this.syncManager.pause(this.pairStore.getSelectedPair().id);
+                    break;
+                case 'resumeSync':
+                    this.resumePair(this.pairStore.getSelectedPair());
+                    break;
+                case 'startAll':
+                    this.startAll();
+                    break;
+                case 'stopAll':
+                    this.syncManager.stopAll();
                     break;
                 case 'updateIncludeHidden':
-                    this.context.workspaceState.update(INCLUDE_HIDDEN_KEY, message.data);
+                    this.updateSelectedPair({ includeHidden: !!message.data });
                     break;
                 case 'updateUsePolling':
-                    this.context.workspaceState.update(USE_POLLING_KEY, message.data);
+                    this.updateSelectedPair({ usePolling: !!message.data });
                     break;
                 case 'updateSyncImportFiles':
-                    this.context.workspaceState.update(SYNC_IMPORT_FILES_KEY, message.data);
+                    this.updateSelectedPair({ syncImportFiles: !!message.data });
+                    break;
+                case 'updateSyncUidFiles':
+                    this.updateSelectedPair({ syncUidFiles: !!message.data });
+                    break;
+                case 'updateSidecarPolicy':
+                    this.updateSelectedPair({ sidecarPolicy: this.toSidecarPolicy(message.data) });
+                    break;
+                case 'updateTrigger':
+                    this.updateSelectedPair({ trigger: this.toTrigger(message.data) });
+                    break;
+                case 'updateUseExportFilters':
+                    this.updateSelectedPair({ useExportFilters: !!message.data });
+                    break;
+                case 'updateMode':
+                    this.updateSelectedPair({ mode: message.data === 'twoWay' ? 'twoWay' : 'oneWay' });
+                    break;
+                case 'updateRewriteReferences':
+                    this.updateSelectedPair({ rewriteReferences: this.toRewriteScope(message.data) });
                     break;
                 case 'updatePreset':
-                    this.context.workspaceState.update(PRESET_KEY, message.data);
+                    this.updateSelectedPair({ preset: String(message.data || 'none') });
+                    break;
+                case 'resolveConflict':
+                    this.resolveConflict(message.data.pairId, message.data.relativePath, message.data.resolution);
+                    break;
+                case 'openConflictDiff':
+                    this.openConflictDiff(message.data.pairId, message.data.relativePath);
                     break;
                 case 'clearLog':
                     this.clearLog();
                     break;
+                case 'openWorkspaceConfig':
+                    this.openWorkspaceConfig();
+                    break;
+                case 'openLogPath':
+                    this.openLogPath(message.data.pairId, message.data.path);
+                    break;
+                case 'exportLog':
+                    this.exportLog(message.data || {});
+                    break;
             }
         });
 
@@ -110,30 +323,117 @@ export class GodotSyncViewProvider implements vscode.WebviewViewProvider {
             this._view = undefined;
         });
 
-        this.updateStatus(this.syncService.getIsRunning());
+        this.updateStatus();
     }
 
     private sendInitialConfig() {
         if (this._view) {
-            const sourceDir = this.context.workspaceState.get<string>(SOURCE_DIR_KEY);
-            const targetDir = this.context.workspaceState.get<string>(TARGET_DIR_KEY);
-            const extensions = this.context.workspaceState.get<string>(EXTENSIONS_KEY, '.gd, .tscn, .tres, .res, .import, .shader, .json, .cfg');
-            const allowDeletion = this.context.workspaceState.get<boolean>(ALLOW_DELETION_KEY, false);
-            const includeHidden = this.context.workspaceState.get<boolean>(INCLUDE_HIDDEN_KEY, false);
-            const usePolling = this.context.workspaceState.get<boolean>(USE_POLLING_KEY, false);
-            const syncImportFiles = this.getSyncImportFilesDefault();
-            const preset = this.context.workspaceState.get<string>(PRESET_KEY, 'none');
-            const isRunning = this.syncService.getIsRunning();
-            const logContent = this.logBuffer.join('\n');
+            const pair = this.pairStore.getSelectedPair();
             const envHint = this.getEnvHint();
 
             this._view.webview.postMessage({
                 command: 'updateConfig',
-                data: { sourceDir, targetDir, extensions, allowDeletion, includeHidden, usePolling, syncImportFiles, preset, isRunning, logContent, envHint }
+                data: {
+                    pairs: this.getPairSummaries(),
+                    selectedPairId: pair.id,
+                    sourceDir: pair.sourceDir,
+                    targetDir: pair.targetDir,
+                    extensions: pair.extensions,
+                    include: pair.include.join(', '),
+                    exclude: pair.exclude.join(', '),
+                    allowDeletion: pair.allowDeletion,
+                    includeHidden: pair.includeHidden,
+                    usePolling: pair.usePolling,
+                    syncImportFiles: pair.syncImportFiles,
+                    syncUidFiles: pair.syncUidFiles,
+                    sidecarPolicy: pair.sidecarPolicy,
+                    trigger: pair.trigger,
+                    preset: pair.preset,
+                    mode: pair.mode,
+                    rewriteReferences: pair.rewriteReferences,
+                    useExportFilters: pair.useExportFilters,
+                    isRunning: this.syncManager.isActive(pair.id),
+                    configStorage: this.pairStore.getStorage(),
+                    logEntries: this.logBuffer.toArray(),
+                    logRetention: this.getLogRetention(),
+                    envHint
+                }
+            });
+            this.postConflicts();
+            this.postOrphans();
+            this.postTargetProject(pair);
+        }
+    }
+
+    private async postTargetProject(pair: SyncPair) {
+        let info: GodotProjectInfo | null = null;
+        let warning: string | null = null;
+        if (pair.targetDir) {
+            warning = await checkTargetDir(pair.targetDir);
+            const root = await findProjectRoot(pair.targetDir);
+            if (root) {
+                try { info = await readProjectInfo(root); } catch { /* unreadable project.godot */ }
+            }
+        }
+        if (this._view) {
+            this._view.webview.postMessage({
+                command: 'updateTargetProject',
+                data: {
+                    pairId: pair.id,
+                    project: info ? `Godot project: ${info.name} (Godot ${info.version})` : '',
+                    warning: pair.targetDir ? warning : null
+                }
             });
         }
     }
 
+    private async findWorkspaceProjects(): Promise<GodotProjectInfo[]> {
+        const files = await vscode.workspace.findFiles(`**/${PROJECT_FILE_NAME}`, '**/{.godot,node_modules}/**', 50);
+        const projects: GodotProjectInfo[] = [];
+        for (const file of files) {
+            try {
+                projects.push(await readProjectInfo(path.dirname(file.fsPath)));
+            } catch { /* skip unreadable project files */ }
+        }
+        return projects.sort((a, b) => a.root.localeCompare(b.root));
+    }
+
+    // Godot projects found in the workspace are offered first; any other folder can still be browsed to
+    private async pickTargetFolder(): Promise<string | undefined> {
+        const projects = await this.findWorkspaceProjects();
+        if (projects.length > 0) {
+            const browse = { label: '$(folder-opened) Browse…', description: '', detail: 'Pick any folder', root: '' };
+            const picked = await vscode.window.showQuickPick([
+                ...projects.map(p => ({ label: p.name, description: `Godot ${p.version}`, detail: p.root, root: p.root })),
+                browse
+            ], { placeHolder: 'Select the target Godot project' });
+            if (!picked) return undefined;
+            if (picked !== browse) return picked.root;
+        }
+        return this.showFolderDialog();
+    }
+
+    private async showFolderDialog(): Promise<string | undefined> {
+        const options: vscode.OpenDialogOptions = {
+            canSelectMany: false,
+            canSelectFiles: false,
+            canSelectFolders: true,
+            openLabel: 'Select Folder'
+        };
+
+        const folderUri = await vscode.window.showOpenDialog(options);
+        return folderUri && folderUri[0] ? folderUri[0].fsPath : undefined;
+    }
+
+    private getPairSummaries(): { id: string, name: string, isRunning: boolean, pauseReason: PauseReason | null }[] {
+        return this.pairStore.getPairs().map(p => ({
+            id: p.id,
+            name: p.name,
+            isRunning: this.syncManager.isActive(p.id),
+            pauseReason: this.syncManager.getPauseReason(p.id)
+        }));
+    }
+
     private getEnvHint(): { remoteName?: string, isUNC?: boolean } {
         let isUNC = false;
         try {
@@ -145,61 +445,719 @@ export class GodotSyncViewProvider implements vscode.WebviewViewProvider {
         return { remoteName: vscode.env.remoteName, isUNC };
     }
 
-    private getSyncImportFilesDefault(): boolean {
-        const existing = this.context.workspaceState.get<boolean>(SYNC_IMPORT_FILES_KEY);
-        if (typeof existing === 'boolean') return existing;
-        // Migration rule: if the saved Extensions include .import, enable; if unknown/unsaved, default OFF (conservative)
-        const savedExtensions = this.context.workspaceState.get<string>(EXTENSIONS_KEY);
-        if (typeof savedExtensions === 'string') {
-            const includesImport = savedExtensions.toLowerCase().includes('.import');
-            return includesImport;
-        }
-        return false;
+    private getLogRetention(): number {
+        const retention = vscode.workspace.getConfiguration('godotSync').get<number>('logRetention', DEFAULT_LOG_RETENTION);
+        return Math.max(50, retention || DEFAULT_LOG_RETENTION);
     }
 
-    private logMessage(message: string) {
-        this.logBuffer.push(message);
-        if (this.logBuffer.length > this.maxLogLines) {
-            this.logBuffer.shift();
-        }
+    private getPauseDuringGitOperations(): boolean {
+        return vscode.workspace.getConfiguration('godotSync').get<boolean>('pauseDuringGitOperations', true);
+    }
+
+    private getBackupSettings(): BackupSettings {
+        const config = vscode.workspace.getConfiguration('godotSync.backups');
+        return {
+            enabled: config.get<boolean>('enabled', true),
+            retention: {
+                maxAgeDays: Math.max(0, config.get<number>('maxAgeDays', 7)),
+                maxVersions: Math.max(0, config.get<number>('maxVersions', 5))
+            }
+        };
+    }
+
+    private logMessage(message: string, details?: LogDetails) {
+        this.addLogEntry(createLogEntry(message, details));
+    }
+
+    private logPairMessage(pair: SyncPair, message: string, details?: LogDetails) {
+        this.addLogEntry({ ...createLogEntry(message, details), pairId: pair.id, pairName: pair.name });
+    }
+
+    private addLogEntry(entry: LogEntry) {
+        this.logBuffer.push(entry);
+        this.context.workspaceState.update(LOG_FILE_KEY, this.logBuffer.toArray());
 
-        this.context.workspaceState.update(LOG_FILE_KEY, this.logBuffer);
+        const line = entry.pairName ? `[${entry.pairName}] ${entry.message}` : entry.message;
+        if (entry.level === 'error') {
+            this.outputChannel.error(line);
+        } else if (entry.level === 'warn') {
+            this.outputChannel.warn(line);
+        } else {
+            this.outputChannel.info(line);
+        }
 
         if (this._view) {
-            this._view.webview.postMessage({ command: 'log', data: message });
+            this._view.webview.postMessage({ command: 'log', data: entry });
         }
     }
 
     private clearLog() {
-        this.logBuffer = [];
-        this.context.workspaceState.update(LOG_FILE_KEY, this.logBuffer);
+        this.logBuffer.clear();
+        this.context.workspaceState.update(LOG_FILE_KEY, []);
         if (this._view) {
-            this._view.webview.postMessage({ command: 'log', data: '' });
+            this._view.webview.postMessage({ command: 'clearLog' });
+        }
+    }
+
+    private async openLogPath(pairId: string, relativePath: string) {
+        const pair = this.pairStore.getPair(pairId);
+        if (!pair || typeof relativePath !== 'string') return;
+        for (const root of [pair.sourceDir, pair.targetDir]) {
+            if (!root) continue;
+            const uri = vscode.Uri.file(path.join(root, relativePath));
+            try {
+                await vscode.workspace.fs.stat(uri);
+                await vscode.commands.executeCommand('vscode.open', uri);
+                return;
+            } catch {
+                // Not on this side (deleted or moved since), try the other one
+            }
         }
+        vscode.window.showWarningMessage(`Godot Sync: ${relativePath} no longer exists in source or target.`);
     }
 
-    private updateStatus(isRunning: boolean) {
+    private async exportLog(filter: LogFilter) {
+        const level = LOG_LEVELS.find(l => l === filter.level);
+        const action = LOG_ACTIONS.find(a => a === filter.action);
+        const search = typeof filter.search === 'string' ? filter.search : undefined;
+        const entries = this.logBuffer.toArray().filter(e => matchesLogFilter(e, { level, action, search }));
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('Godot Sync: No log entries match the current filter.');
+            return;
+        }
+        const format = await vscode.window.showQuickPick(
+            [
+                { label: 'JSON', description: 'One object per entry', format: 'json' as const },
+                { label: 'Text', description: 'One line per entry', format: 'text' as const }
+            ],
+            { placeHolder: `Export ${entries.length} log entries as` }
+        );
+        if (!format) return;
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `godot-sync-log.${format.format === 'json' ? 'json' : 'txt'}`;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+            filters: format.format === 'json' ? { JSON: ['json'] } : { Text: ['txt', 'log'] }
+        });
+        if (!uri) return;
+        try {
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(exportLog(entries, format.format), 'utf8'));
+            vscode.window.showInformationMessage(`Godot Sync: Exported ${entries.length} log entries to ${uri.fsPath}.`);
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Godot Sync: Could not export the log - ${msg}`);
+        }
+    }
+
+    private updateStatus() {
+        this.statusBar.setRunningPairs(this.pairStore.getPairs().filter(p => this.syncManager.isActive(p.id)).length);
         if (this._view) {
-            this._view.webview.postMessage({ command: 'updateStatus', data: { isRunning } });
+            const pair = this.pairStore.getSelectedPair();
+            this._view.webview.postMessage({
+                command: 'updateStatus',
+                data: { isRunning: this.syncManager.isActive(pair.id), pairs: this.getPairSummaries() }
+            });
         }
     }
 
-    public async selectFolder(configKey: string, messageCommand: string) {
-        const options: vscode.OpenDialogOptions = {
-            canSelectMany: false,
-            canSelectFiles: false,
-            canSelectFolders: true,
-            openLabel: 'Select Folder'
+    private onFileResult(pair: SyncPair, result: FileSyncResult) {
+        this.statusBar.recordResult(pair.name, result);
+        this.diagnostics.update(pair, result);
+        switch (result.outcome) {
+            case 'copied':
+                this.fileStatus.markSynced(pair.id, result.relativePath);
+                break;
+            case 'deleted':
+                this.fileStatus.markDeleted(pair.id, result.relativePath);
+                break;
+            case 'failed':
+                this.fileStatus.markFailed(pair.id, result.relativePath, result.error);
+                break;
+            case 'skipped':
+                this.fileStatus.markSkipped(pair.id, result.relativePath, result.reason);
+                break;
+        }
+    }
+
+    /** Syncs a file again for the pairs it failed in, or for a pair picked from those containing it. */
+    public async retryFile(uri?: vscode.Uri) {
+        const resource = this.getMenuResources(uri)[0];
+        if (!resource) return;
+        const failedIds = this.diagnostics.getFailedPairIds(resource);
+        let pairs = this.pairStore.getPairs().filter(pair => failedIds.includes(pair.id));
+        if (pairs.length === 0) {
+            const pair = await this.pickPairForResource(resource);
+            if (!pair) return;
+            pairs = [pair];
+        }
+        for (const pair of pairs) {
+            try {
+                await this.syncManager.retryFile(pair, resource.fsPath);
+            } catch (error: unknown) {
+                const msg = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Godot Sync: Could not retry ${path.basename(resource.fsPath)} - ${msg}`);
+            }
+        }
+    }
+
+    /** Rescans every configured pair (or one) with a dry-run plan to rebuild the file status view. */
+    public async refreshFileStatus(pairs: SyncPair[] = this.pairStore.getPairs()) {
+        this.fileStatusScanned = true;
+        for (const pair of pairs) {
+            if (!pair.sourceDir || !pair.targetDir) continue;
+            try {
+                const plan = await this.syncManager.withService(pair, service => service.createPlan());
+                this.fileStatus.setPlan(pair.id, plan);
+            } catch (error: unknown) {
+                const msg = error instanceof Error ? error.message : String(error);
+                this.logPairMessage(pair, `Could not scan file status: ${msg}`, { action: 'error' });
+            }
+        }
+    }
+
+    public showLog() {
+        this.outputChannel.show(true);
+    }
+
+    public async showStatusMenu() {
+        type MenuItem = vscode.QuickPickItem & { run: () => unknown };
+        const items: MenuItem[] = [];
+        const errors = this.statusBar.getErrors();
+        if (errors.length > 0) {
+            items.push({
+                label: `$(warning) Show ${errors.length} sync error(s)`,
+                description: 'Lists the failed files and clears the warning',
+                run: () => this.showSyncErrors()
+            });
+        }
+        const canStart = this.pairStore.getPairs().some(p => !this.syncManager.isActive(p.id));
+        if (canStart) {
+            items.push({ label: '$(play) Start Sync', run: () => this.startSync() });
+        }
+        if (this.syncManager.hasRunning()) {
+            const pairs = this.pairStore.getPairs();
+            if (pairs.some(p => this.syncManager.isRunning(p.id) && this.syncManager.getPauseReason(p.id) !== 'user')) {
+                items.push({ label: '$(debug-pause) Pause Sync', description: 'Keep watching, apply changes on resume', run: () => this.pauseSync() });
+            }
+            if (pairs.some(p => this.syncManager.getPauseReason(p.id) !== null)) {
+                items.push({ label: '$(debug-continue) Resume Sync', run: () => this.resumeSync() });
+            }
+            items.push({ label: '$(debug-stop) Stop Sync', run: () => this.stopSync() });
+        }
+        items.push(
+            { label: '$(sync) Sync Now', description: 'One pass without starting the watcher', run: () => this.syncNow(false) },
+            { label: '$(layout-sidebar-left) Open Panel', run: () => vscode.commands.executeCommand('godotSync.openPanel') },
+            { label: '$(output) Show Log', run: () => this.showLog() }
+        );
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Godot Sync' });
+        if (picked) {
+            await picked.run();
+        }
+    }
+
+    private async showSyncErrors() {
+        const errors = [...this.statusBar.getErrors()].reverse();
+        this.statusBar.acknowledgeErrors();
+        const picked = await vscode.window.showQuickPick(
+            errors.map(e => ({
+                label: e.relativePath,
+                description: `[${e.pairName}] ${new Date(e.at).toLocaleTimeString()}`,
+                detail: e.message
+            })),
+            { placeHolder: 'Failed syncs (acknowledged). Pick one to open the log.' }
+        );
+        if (picked) {
+            this.showLog();
+        }
+    }
+
+    private onConflictsChanged(pair: SyncPair, conflicts: SyncConflict[]) {
+        const previous = new Set((this.conflicts.get(pair.id) || []).map(c => c.relativePath));
+        if (conflicts.length > 0) {
+            this.conflicts.set(pair.id, conflicts);
+        } else {
+            this.conflicts.delete(pair.id);
+        }
+        for (const conflict of conflicts) {
+            if (!previous.has(conflict.relativePath)) {
+                this.pendingConflictNotices.push({ pair, conflict });
+            }
+        }
+        this.postConflicts();
+        this.scheduleConflictNotice();
+    }
+
+    private onProgress(pair: SyncPair, progress: SyncProgress) {
+        const finished = progress.phase === 'done' || progress.phase === 'cancelled';
+        if (progress.phase === 'done') {
+            this.refreshFileStatus([pair]);
+        }
+        if (this._view) {
+            this._view.webview.postMessage({
+                command: 'syncProgress',
+                data: { pairId: pair.id, finished, percent: this.progressPercent(progress), text: this.formatProgress(progress) }
+            });
+        }
+
+        let notice = this.progressNotices.get(pair.id);
+        if (!notice && !finished) {
+            notice = this.showProgressNotice(pair);
+            this.progressNotices.set(pair.id, notice);
+        }
+        if (!notice) return;
+        if (finished) {
+            notice.finish();
+            this.progressNotices.delete(pair.id);
+        } else {
+            notice.update(progress);
+        }
+    }
+
+    private showProgressNotice(pair: SyncPair) {
+        let latest: SyncProgress | null = null;
+        let reported = 0;
+        let report: ((progress: SyncProgress) => void) | null = null;
+        let finish: () => void = () => { /* replaced once the notification is shown */ };
+        let done = false;
+
+        vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Godot Sync (${pair.name})`,
+            cancellable: true
+        }, (progress, token) => {
+            token.onCancellationRequested(() => this.syncManager.cancelInitialSync(pair.id));
+            report = (p) => {
+                const percent = this.progressPercent(p);
+                progress.report({ increment: Math.max(percent - reported, 0), message: this.formatProgress(p) });
+                reported = Math.max(percent, reported);
+            };
+            if (latest) report(latest);
+            return new Promise<void>(resolve => {
+                finish = resolve;
+                if (done) resolve();
+            });
+        });
+
+        return {
+            update: (p: SyncProgress) => {
+                latest = p;
+                if (report) report(p);
+            },
+            finish: () => {
+                done = true;
+                finish();
+            }
         };
+    }
 
-        const folderUri = await vscode.window.showOpenDialog(options);
-        if (folderUri && folderUri[0]) {
-            const selectedPath = folderUri[0].fsPath;
-            await this.context.workspaceState.update(configKey, selectedPath);
+    private progressPercent(progress: SyncProgress): number {
+        if (progress.totalBytes > 0) return (progress.doneBytes / progress.totalBytes) * 100;
+        if (progress.totalFiles > 0) return (progress.doneFiles / progress.totalFiles) * 100;
+        return progress.phase === 'done' ? 100 : 0;
+    }
+
+    private formatProgress(progress: SyncProgress): string {
+        switch (progress.phase) {
+            case 'scanning':
+                return 'Scanning files…';
+            case 'cancelled':
+                return `Cancelled after ${progress.doneFiles} of ${progress.totalFiles} files`;
+            default:
+                return `${progress.doneFiles}/${progress.totalFiles} files, ${formatBytes(progress.doneBytes)} of ${formatBytes(progress.totalBytes)}`;
+        }
+    }
+
+    private postConflicts() {
+        if (this._view) {
+            const items = [];
+            for (const [pairId, conflicts] of this.conflicts) {
+                const pair = this.pairStore.getPair(pairId);
+                for (const conflict of conflicts) {
+                    items.push({ pairId, pairName: pair ? pair.name : pairId, relativePath: conflict.relativePath });
+                }
+            }
+            this._view.webview.postMessage({ command: 'updateConflicts', data: items });
+        }
+    }
+
+    // Batch notifications so an initial sync with many conflicts shows a single toast
+    private scheduleConflictNotice() {
+        if (this.conflictNoticeTimer || this.pendingConflictNotices.length === 0) return;
+        this.conflictNoticeTimer = setTimeout(async () => {
+            this.conflictNoticeTimer = null;
+            const notices = this.pendingConflictNotices;
+            this.pendingConflictNotices = [];
+            if (notices.length === 1) {
+                const { pair, conflict } = notices[0];
+                const diff = 'Open diff';
+                const choice = await vscode.window.showWarningMessage(
+                    `Godot Sync: "${conflict.relativePath}" changed in both source and target (${pair.name}).`,
+                    CONFLICT_RESOLUTION_LABELS.keepSource,
+                    CONFLICT_RESOLUTION_LABELS.keepTarget,
+                    diff,
+                    CONFLICT_RESOLUTION_LABELS.saveBoth
+                );
+                if (choice === diff) {
+                    this.openConflictDiff(pair.id, conflict.relativePath);
+                } else if (choice) {
+                    const resolution = (Object.keys(CONFLICT_RESOLUTION_LABELS) as ConflictResolution[])
+                        .find(key => CONFLICT_RESOLUTION_LABELS[key] === choice);
+                    if (resolution) this.resolveConflict(pair.id, conflict.relativePath, resolution);
+                }
+            } else if (notices.length > 1) {
+                const choice = await vscode.window.showWarningMessage(
+                    `Godot Sync: ${notices.length} files changed in both source and target.`,
+                    'Show conflicts'
+                );
+                if (choice) {
+                    vscode.commands.executeCommand('workbench.view.extension.godot-sync-activitybar');
+                }
+            }
+        }, 500);
+    }
+
+    private async resolveConflict(pairId: string, relativePath: string, resolution: ConflictResolution) {
+        const pair = this.pairStore.getPair(pairId);
+        if (!pair || !(resolution in CONFLICT_RESOLUTION_LABELS)) return;
+        try {
+            await this.syncManager.resolveConflict(pair, relativePath, resolution);
+            // A pair that is not running has no service to report the change
+            const remaining = (this.conflicts.get(pairId) || []).filter(c => c.relativePath !== relativePath);
+            if (remaining.length !== (this.conflicts.get(pairId) || []).length) {
+                this.onConflictsChanged(pair, remaining);
+            }
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.logPairMessage(pair, `Could not resolve conflict for ${relativePath}: ${msg}`, { action: 'error', path: relativePath });
+            vscode.window.showErrorMessage(`Godot Sync: Could not resolve conflict - ${msg}`);
+        }
+    }
+
+    public async findOrphans() {
+        const choice = await this.pickPair('Select the sync pair to check for orphaned files', pair => !!pair.sourceDir && !!pair.targetDir);
+        if (!choice) return;
+        const pairs = choice === 'all' ? this.pairStore.getPairs().filter(pair => pair.sourceDir && pair.targetDir) : [choice];
+        let found = 0;
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Godot Sync: Looking for orphaned files...' },
+            async () => {
+                for (const pair of pairs) {
+                    found += await this.scanOrphans(pair);
+                }
+            }
+        );
+        this.showOrphanNotice(found, pairs.length === 1 ? `"${pairs[0].name}"` : 'the selected pairs');
+    }
+
+    private async findOrphansInPair(pair: SyncPair) {
+        if (!pair.sourceDir || !pair.targetDir) {
+            vscode.window.showErrorMessage(`Godot Sync: Please select both Source and Target directories for "${pair.name}" in the Godot Sync panel.`);
+            return;
+        }
+        const found = await this.scanOrphans(pair);
+        if (found === 0) {
+            vscode.window.showInformationMessage(`Godot Sync: No orphaned files in "${pair.name}".`);
+        }
+    }
+
+    private async checkOrphansOnStart(pair: SyncPair) {
+        const found = await this.scanOrphans(pair);
+        if (found > 0) {
+            this.showOrphanNotice(found, `"${pair.name}"`);
+        }
+    }
+
+    private async showOrphanNotice(found: number, where: string) {
+        if (found === 0) {
+            vscode.window.showInformationMessage(`Godot Sync: No orphaned files in ${where}.`);
+            return;
+        }
+        const review = 'Review';
+        const choice = await vscode.window.showWarningMessage(
+            `Godot Sync: ${found} target ${found === 1 ? 'file has' : 'files have'} no source file in ${where} and may still be loaded by Godot.`,
+            review
+        );
+        if (choice === review) {
+            vscode.commands.executeCommand('godotSync.openPanel');
+        }
+    }
+
+    // Returns how many orphans are listed for the pair; ignored paths are left out
+    private async scanOrphans(pair: SyncPair): Promise<number> {
+        try {
+            const ignored = new Set(this.getIgnoredOrphans(pair.id));
+            const orphans = (await this.syncManager.findOrphans(pair)).filter(relativePath => !ignored.has(relativePath));
+            this.setOrphans(pair.id, orphans);
+            if (orphans.length > 0) {
+                this.logPairMessage(pair, `Found ${orphans.length} orphaned target files with no source file.`, { level: 'warn' });
+            } else {
+                this.logPairMessage(pair, 'No orphaned target files found.');
+            }
+            return orphans.length;
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.logPairMessage(pair, `Orphan check failed: ${msg}`, { action: 'error' });
+            vscode.window.showErrorMessage(`Godot Sync: Orphan check failed - ${msg}`);
+            return 0;
+        }
+    }
+
+    private async handleAllOrphans(action: Exclude<OrphanAction, 'ignore'>) {
+        const listed = [...this.orphans].filter(([pairId]) => !!this.pairStore.getPair(pairId));
+        const count = listed.reduce((sum, [, orphans]) => sum + orphans.length, 0);
+        if (count === 0) return;
+        if (action === 'delete' && !this.getBackupSettings().enabled) {
+            const confirm = await vscode.window.showWarningMessage(
+                `Delete ${count} orphaned ${count === 1 ? 'file' : 'files'} from the target? Backups are turned off, so they cannot be restored.`,
+                { modal: true },
+                'Delete'
+            );
+            if (confirm !== 'Delete') return;
+        }
+        for (const [pairId, orphans] of listed) {
+            await this.handleOrphans(pairId, orphans, action, true);
+        }
+    }
+
+    // confirmed: the caller already asked before deleting without backups
+    private async handleOrphans(pairId: string, relativePaths: string[], action: OrphanAction, confirmed = false) {
+        const pair = this.pairStore.getPair(pairId);
+        if (!pair || relativePaths.length === 0) return;
+        let handled = relativePaths;
+        if (action === 'ignore') {
+            const ignored = this.context.workspaceState.get<Record<string, string[]>>(IGNORED_ORPHANS_KEY, {});
+            await this.context.workspaceState.update(IGNORED_ORPHANS_KEY, {
+                ...ignored,
+                [pairId]: [...new Set([...(ignored[pairId] || []), ...relativePaths])]
+            });
+            for (const relativePath of relativePaths) {
+                this.logPairMessage(pair, `Orphan ignored: ${relativePath}`, { path: relativePath });
+            }
+        } else {
+            if (action === 'delete' && !confirmed && !this.getBackupSettings().enabled) {
+                const what = relativePaths.length === 1 ? `"${relativePaths[0]}"` : `${relativePaths.length} orphaned files`;
+                const confirm = await vscode.window.showWarningMessage(
+                    `Delete ${what} from the target of "${pair.name}"? Backups are turned off, so ${relativePaths.length === 1 ? 'it' : 'they'} cannot be restored.`,
+                    { modal: true },
+                    'Delete'
+                );
+                if (confirm !== 'Delete') return;
+            }
+            let failures: Map<string, string>;
+            try {
+                failures = await this.syncManager.removeOrphans(pair, relativePaths, action === 'backup');
+            } catch (error: unknown) {
+                const msg = error instanceof Error ? error.message : String(error);
+                this.logPairMessage(pair, `Could not remove orphans: ${msg}`, { action: 'error' });
+                vscode.window.showErrorMessage(`Godot Sync: Could not remove orphaned files - ${msg}`);
+                return;
+            }
+            for (const [relativePath, msg] of failures) {
+                this.logPairMessage(pair, `Could not remove orphan ${relativePath}: ${msg}`, { action: 'error', path: relativePath });
+            }
+            if (failures.size > 0) {
+                const [first] = failures.values();
+                vscode.window.showErrorMessage(failures.size === 1
+                    ? `Godot Sync: Could not remove orphaned file - ${first}`
+                    : `Godot Sync: Could not remove ${failures.size} orphaned files - ${first}`);
+            }
+            handled = relativePaths.filter(relativePath => !failures.has(relativePath));
+        }
+        this.setOrphans(pairId, (this.orphans.get(pairId) || []).filter(p => !handled.includes(p)));
+    }
+
+    private getIgnoredOrphans(pairId: string): string[] {
+        return this.context.workspaceState.get<Record<string, string[]>>(IGNORED_ORPHANS_KEY, {})[pairId] || [];
+    }
+
+    private setOrphans(pairId: string, orphans: string[]) {
+        if (orphans.length > 0) {
+            this.orphans.set(pairId, orphans);
+        } else {
+            this.orphans.delete(pairId);
+        }
+        this.postOrphans();
+    }
+
+    private postOrphans() {
+        if (this._view) {
+            const items = [];
+            for (const [pairId, orphans] of this.orphans) {
+                const pair = this.pairStore.getPair(pairId);
+                if (!pair) continue;
+                for (const relativePath of orphans) {
+                    items.push({ pairId, pairName: pair.name, relativePath });
+                }
+            }
+            this._view.webview.postMessage({ command: 'updateOrphans', data: items });
+        }
+    }
+
+    private toRewriteScope(value: unknown): ReferenceRewriteScope {
+        return value === 'target' || value === 'sourceAndTarget' ? value : 'off';
+    }
+
+    private toSidecarPolicy(value: unknown): SidecarPolicy {
+        return value === 'onlyIfPresent' || value === 'never' ? value : 'always';
+    }
+
+    private toTrigger(value: unknown): SyncTrigger {
+        return value === 'onSave' ? value : 'watcher';
+    }
+
+    // Lists every line that would change and only writes the ones left checked
+    private async reviewReferenceEdits(pair: SyncPair, edits: ReferenceEdit[]) {
+        const review = 'Review';
+        const choice = await vscode.window.showInformationMessage(
+            `Godot Sync: ${edits.length} res:// references point to files moved in ${pair.name}.`,
+            review
+        );
+        if (choice !== review) return;
+
+        const items = edits.map(edit => {
+            const root = edit.side === 'source' ? pair.sourceDir : pair.targetDir;
+            return {
+                label: `${path.relative(root, edit.filePath)}:${edit.line}`,
+                description: edit.side === 'source' ? 'Source' : 'Target',
+                detail: `${edit.before.trim()}  →  ${edit.after.trim()}`,
+                picked: true,
+                edit
+            };
+        });
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            title: 'Godot Sync: Update res:// references',
+            placeHolder: 'Uncheck the lines that should be left unchanged',
+            matchOnDetail: true
+        });
+        if (!selected || selected.length === 0) return;
+
+        try {
+            const updated = await this.syncManager.applyReferenceEdits(pair, selected.map(item => item.edit));
+            vscode.window.showInformationMessage(`Godot Sync: Updated ${updated} references.`);
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.logPairMessage(pair, `Could not update references: ${msg}`, { action: 'error' });
+            vscode.window.showErrorMessage(`Godot Sync: Could not update references - ${msg}`);
+        }
+    }
+
+    private async openConflictDiff(pairId: string, relativePath: string) {
+        const pair = this.pairStore.getPair(pairId);
+        if (!pair) return;
+        const sourceUri = vscode.Uri.file(path.join(pair.sourceDir, relativePath));
+        const targetUri = vscode.Uri.file(path.join(pair.targetDir, relativePath));
+        await vscode.commands.executeCommand('vscode.diff', targetUri, sourceUri, `${relativePath} (Target ↔ Source)`);
+    }
+
+    private async updateSelectedPair(changes: Partial<SyncPair>): Promise<SyncPair | undefined> {
+        return this.writePairs(() => this.pairStore.updatePair(this.pairStore.getSelectedPair().id, changes));
+    }
+
+    private async selectPair(pairId: string) {
+        if (typeof pairId === 'string' && this.pairStore.getPair(pairId)) {
+            await this.pairStore.setSelectedPair(pairId);
+            this.sendInitialConfig();
+        }
+    }
+
+    public async addPair() {
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name for the new sync pair',
+            placeHolder: 'e.g. Shared addons',
+            validateInput: (value) => this.validatePairName(value)
+        });
+        if (!name) return;
+        const pair = await this.writePairs(() => this.pairStore.addPair(name.trim()));
+        if (!pair) return;
+        await this.pairStore.setSelectedPair(pair.id);
+        this.logMessage(`Sync pair added: ${pair.name}`);
+        this.sendInitialConfig();
+    }
+
+    private async renamePair() {
+        const pair = this.pairStore.getSelectedPair();
+        const name = await vscode.window.showInputBox({
+            prompt: 'New name for the sync pair',
+            value: pair.name,
+            validateInput: (value) => value.trim() === pair.name ? undefined : this.validatePairName(value)
+        });
+        if (!name || name.trim() === pair.name) return;
+        if (!await this.writePairs(() => this.pairStore.updatePair(pair.id, { name: name.trim() }))) return;
+        this.logMessage(`Sync pair renamed: ${pair.name} -> ${name.trim()}`);
+        this.sendInitialConfig();
+    }
+
+    private async removePair() {
+        const pair = this.pairStore.getSelectedPair();
+        if (this.syncManager.isActive(pair.id)) {
+            vscode.window.showWarningMessage(`Godot Sync: Stop "${pair.name}" before removing it.`);
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(`Remove sync pair "${pair.name}"?`, { modal: true }, 'Remove');
+        if (choice !== 'Remove') return;
+        if (await this.writePairs(() => this.pairStore.removePair(pair.id).then(() => true)) !== true) return;
+        await this.syncManager.forgetPair(pair.id).catch(() => { /* ignore */ });
+        this.logMessage(`Sync pair removed: ${pair.name}`);
+        this.sendInitialConfig();
+    }
+
+    private validatePairName(value: string): string | undefined {
+        const name = value.trim();
+        if (!name) return 'Name must not be empty.';
+        if (this.pairStore.getPairs().some(p => p.name === name)) return 'A sync pair with this name already exists.';
+        return undefined;
+    }
+
+    /**
+     * Asks which sync pair a command applies to. Returns undefined when cancelled
+     * and 'all' when the user picks every pair.
+     */
+    public async pickPair(placeHolder: string, filter: (pair: SyncPair) => boolean = () => true, allowAll = true): Promise<SyncPair | 'all' | undefined> {
+        const pairs = this.pairStore.getPairs().filter(filter);
+        if (pairs.length === 0) {
+            vscode.window.showInformationMessage('Godot Sync: No matching sync pair.');
+            return undefined;
+        }
+        if (pairs.length === 1) {
+            return pairs[0];
+        }
+        type PairItem = vscode.QuickPickItem & { pair?: SyncPair };
+        const items: PairItem[] = [
+            ...(allowAll ? [{ label: 'All pairs', description: `${pairs.length} pairs` }] : []),
+            ...pairs.map(pair => ({
+                label: pair.name,
+                description: this.syncManager.isActive(pair.id) ? 'running' : undefined,
+                detail: `${pair.sourceDir || '(no source)'} → ${pair.targetDir || '(no target)'}`,
+                pair
+            }))
+        ];
+        const picked = await vscode.window.showQuickPick(items, { placeHolder });
+        if (!picked) return undefined;
+        return picked.pair || 'all';
+    }
+
+    public async selectFolder(field: PairFolderField) {
+        const selectedPath = field === 'targetDir' ? await this.pickTargetFolder() : await this.showFolderDialog();
+        if (selectedPath) {
+            const pair = await this.updateSelectedPair({ [field]: selectedPath });
             if (this._view) {
-                this._view.webview.postMessage({ command: messageCommand, data: selectedPath });
+                this._view.webview.postMessage({ command: field === 'sourceDir' ? 'updateSourceDir' : 'updateTargetDir', data: selectedPath });
+            }
+            const message = `${field === 'sourceDir' ? 'Source' : 'Target'} folder set to: ${selectedPath}`;
+            if (pair) {
+                this.logPairMessage(pair, message);
+            } else {
+                this.logMessage(message);
+            }
+            if (field === 'targetDir' && pair) {
+                const warning = await checkTargetDir(selectedPath);
+                if (warning) {
+                    this.logPairMessage(pair, `Warning: ${warning}`, { level: 'warn' });
+                    vscode.window.showWarningMessage(`Godot Sync: ${warning}`);
+                }
+                this.postTargetProject(pair);
             }
-            this.logMessage(`${configKey === SOURCE_DIR_KEY ? 'Source' : 'Target'} folder set to: ${selectedPath}`);
         }
     }
 
@@ -209,44 +1167,385 @@ export class GodotSyncViewProvider implements vscode.WebviewViewProvider {
                                                     .map(ext => ext.trim())
                                                     .filter(ext => ext.length > 0)
                                                     .join(', ');
-            const prev = this.context.workspaceState.get<string>(EXTENSIONS_KEY, '');
-            if (prev !== sanitizedExtensions) {
-                await this.context.workspaceState.update(EXTENSIONS_KEY, sanitizedExtensions);
-                this.logMessage(`Extensions updated to: ${sanitizedExtensions}`);
+            const pair = this.pairStore.getSelectedPair();
+            if (pair.extensions !== sanitizedExtensions) {
+                if (!await this.writePairs(() => this.pairStore.updatePair(pair.id, { extensions: sanitizedExtensions }))) return;
+                this.logPairMessage(pair, `Extensions updated to: ${sanitizedExtensions}`);
             }
         }
     }
 
-    public startSync() {
-        const sourceDir = this.context.workspaceState.get<string>(SOURCE_DIR_KEY);
-        const targetDir = this.context.workspaceState.get<string>(TARGET_DIR_KEY);
-        const extensionsString = this.context.workspaceState.get<string>(EXTENSIONS_KEY, '');
-        const extensions = extensionsString.split(',').map(s => s.trim()).filter(s => s.length > 0);
-        const allowDeletion = this.context.workspaceState.get<boolean>(ALLOW_DELETION_KEY, false);
-        const includeHidden = this.context.workspaceState.get<boolean>(INCLUDE_HIDDEN_KEY, false);
-        const usePolling = this.context.workspaceState.get<boolean>(USE_POLLING_KEY, false);
-        const syncImportFiles = this.getSyncImportFilesDefault();
+    private async updatePatterns(field: 'include' | 'exclude', value: string | undefined) {
+        if (typeof value !== 'string') return;
+        const patterns = parsePatternList(value);
+        const pair = this.pairStore.getSelectedPair();
+        if (pair[field].join(', ') !== patterns.join(', ')) {
+            if (!await this.writePairs(() => this.pairStore.updatePair(pair.id, { [field]: patterns }))) return;
+            this.logPairMessage(pair, `${field === 'include' ? 'Include' : 'Exclude'} rules updated to: ${patterns.join(', ') || '(none)'}`);
+        }
+    }
+
+    public startPair(pair: SyncPair): boolean {
+        if (!pair.sourceDir || !pair.targetDir) {
+            vscode.window.showErrorMessage(`Godot Sync: Please select both Source and Target directories for "${pair.name}" in the Godot Sync panel.`);
+            this.logPairMessage(pair, 'Start failed: Missing source or target directory.', { action: 'error' });
+            return false;
+        }
+        if (pair.extensions.split(',').every(s => s.trim().length === 0)) {
+            vscode.window.showErrorMessage(`Godot Sync: Please define file extensions to sync for "${pair.name}" in the Godot Sync panel.`);
+            this.logPairMessage(pair, 'Start failed: No extensions defined.', { action: 'error' });
+            return false;
+        }
+
+        const started = this.syncManager.start(pair);
+        this.updateStatus();
+        if (started && vscode.workspace.getConfiguration('godotSync').get<boolean>('orphans.checkOnStart', false)) {
+            this.checkOrphansOnStart(pair);
+        }
+        return started;
+    }
 
-        if (!sourceDir || !targetDir) {
-            vscode.window.showErrorMessage('Godot Sync: Please select both Source and Target directories in the Godot Sync panel.');
-            this.logMessage("Start failed: Missing source or target directory.");
+    public getApi(): GodotSyncApi {
+        return createGodotSyncApi(this, this.apiEvents);
+    }
+
+    public getPairs(): SyncPair[] {
+        return this.pairStore.getPairs();
+    }
+
+    public isPairRunning(pairId: string): boolean {
+        return this.syncManager.isActive(pairId);
+    }
+
+    public stopPair(pairId: string) {
+        this.syncManager.stop(pairId);
+    }
+
+    public startAll() {
+        for (const pair of this.pairStore.getPairs()) {
+            if (!this.syncManager.isActive(pair.id)) {
+                this.startPair(pair);
+            }
+        }
+    }
+
+    public async startSync() {
+        const choice = await this.pickPair('Select the sync pair to start', pair => !this.syncManager.isActive(pair.id));
+        if (choice === 'all') {
+            this.startAll();
+        } else if (choice) {
+            this.startPair(choice);
+        }
+    }
+
+    public async stopSync() {
+        const choice = await this.pickPair('Select the sync pair to stop', pair => this.syncManager.isActive(pair.id));
+        if (choice === 'all') {
+            this.syncManager.stopAll();
+        } else if (choice) {
+            this.syncManager.stop(choice.id);
+        }
+    }
+
+    public async pauseSync() {
+        const choice = await this.pickPair('Select the sync pair to pause',
+            pair => this.syncManager.isRunning(pair.id) && this.syncManager.getPauseReason(pair.id) !== 'user');
+        if (choice === 'all') {
+            for (const pair of this.pairStore.getPairs()) {
+                this.syncManager.pause(pair.id);
+            }
+        } else if (choice) {
+            this.syncManager.pause(choice.id);
+        }
+    }
+
+    public async resumeSync() {
+        const choice = await this.pickPair('Select the sync pair to resume', pair => this.syncManager.getPauseReason(pair.id) !== null);
+        if (choice === 'all') {
+            for (const pair of this.pairStore.getPairs()) {
+                this.resumePair(pair);
+            }
+        } else if (choice) {
+            this.resumePair(choice);
+        }
+    }
+
+    private resumePair(pair: SyncPair) {
+        this.syncManager.resume(pair.id);
+        if (this.syncManager.getPauseReason(pair.id) === 'git') {
+            vscode.window.showInformationMessage(`Godot Sync: "${pair.name}" resumes once the running git operation finishes.`);
+        }
+    }
+
+    public async restoreBackups() {
+        const choice = await this.pickPair('Select the sync pair to restore files for', () => true, false);
+        if (!choice || choice === 'all') return;
+        const pair = choice;
+        let backups: BackupEntry[];
+        try {
+            backups = await this.syncManager.listBackups(pair);
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Godot Sync: Could not read backups - ${msg}`);
             return;
         }
-        if (extensions.length === 0) {
-            vscode.window.showErrorMessage('Godot Sync: Please define file extensions to sync in the Godot Sync panel.');
-            this.logMessage("Start failed: No extensions defined.");
+        if (backups.length === 0) {
+            vscode.window.showInformationMessage(`Godot Sync: No backups for "${pair.name}".`);
             return;
         }
+        const picked = await vscode.window.showQuickPick(
+            backups.map(entry => ({
+                label: entry.relativePath,
+                description: `${entry.side} · ${entry.reason === 'delete' ? 'deleted' : 'overwritten'} ${new Date(entry.createdAt).toLocaleString()}`,
+                detail: formatBytes(entry.size),
+                entry
+            })),
+            { placeHolder: 'Select backups to restore (newest first)', canPickMany: true, matchOnDescription: true }
+        );
+        if (!picked || picked.length === 0) return;
+        // Several versions of one file: only the newest selected one is restored
+        const selected = new Map<string, BackupEntry>();
+        for (const { entry } of picked) {
+            const key = `${entry.side}:${entry.relativePath}`;
+            if (!selected.has(key)) selected.set(key, entry);
+        }
+        const confirm = await vscode.window.showWarningMessage(
+            `Restore ${selected.size} ${selected.size === 1 ? 'file' : 'files'} in "${pair.name}"? Current versions are backed up first.`,
+            { modal: true },
+            'Restore'
+        );
+        if (confirm !== 'Restore') return;
+        let restored = 0;
+        for (const entry of selected.values()) {
+            try {
+                await this.syncManager.restoreBackup(pair, entry);
+                restored++;
+            } catch (error: unknown) {
+                const msg = error instanceof Error ? error.message : String(error);
+                this.logPairMessage(pair, `Could not restore ${entry.relativePath}: ${msg}`, { action: 'error', path: entry.relativePath });
+            }
+        }
+        if (restored < selected.size) {
+            vscode.window.showErrorMessage(`Godot Sync: Restored ${restored} of ${selected.size} files. See the log for details.`);
+        } else {
+            vscode.window.showInformationMessage(`Godot Sync: Restored ${restored} ${restored === 1 ? 'file' : 'files'}.`);
+        }
+    }
 
-        this.syncService.start(sourceDir, targetDir, extensions, allowDeletion, includeHidden, usePolling, syncImportFiles);
+    public async previewSync() {
+        const choice = await this.pickPair('Select the sync pair to preview', () => true, false);
+        if (choice && choice !== 'all') {
+            await this.previewPair(choice);
+        }
     }
 
-    public stopSync() {
-        this.syncService.stop();
+    private async previewPair(pair: SyncPair) {
+        if (!pair.sourceDir || !pair.targetDir) {
+            vscode.window.showErrorMessage(`Godot Sync: Please select both Source and Target directories for "${pair.name}" in the Godot Sync panel.`);
+            return;
+        }
+        try {
+            const plan = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Godot Sync: Computing preview for "${pair.name}"...` },
+                () => this.syncManager.withService(pair, service => service.createPlan())
+            );
+            const counts = countActions(plan);
+            this.logPairMessage(pair, `Preview: ${counts.create} to create, ${counts.overwrite} to overwrite, ${counts.delete} to delete, ${counts.skip} skipped.`);
+            SyncPreviewPanel.show(this._extensionUri, `Godot Sync Preview: ${pair.name}`, plan, async (entries) => {
+                const result = await this.syncManager.withService(pair, service => service.applyPlan(entries));
+                this.logPairMessage(pair, `Preview applied: ${formatResult(result)}.`);
+                vscode.window.showInformationMessage(`Godot Sync: "${pair.name}" ${formatResult(result)}.`);
+            });
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.logPairMessage(pair, `Preview failed: ${msg}`, { action: 'error' });
+            vscode.window.showErrorMessage(`Godot Sync: Preview failed - ${msg}`);
+        }
+    }
+
+    public async syncNow(mirror: boolean) {
+        const choice = await this.pickPair(mirror ? 'Select the sync pair to mirror' : 'Select the sync pair to sync now', () => true, false);
+        if (choice && choice !== 'all') {
+            await this.syncPairOnce(choice, mirror);
+        }
+    }
+
+    /**
+     * One pass over the pair without starting the watcher. Mirror also deletes target files
+     * that match the rules but are gone from the source, after the user confirms the list.
+     * scope limits the pass to one file or folder, relative to the source.
+     */
+    private async syncPairOnce(pair: SyncPair, mirror: boolean, scope?: string) {
+        if (!pair.sourceDir || !pair.targetDir) {
+            vscode.window.showErrorMessage(`Godot Sync: Please select both Source and Target directories for "${pair.name}" in the Godot Sync panel.`);
+            return;
+        }
+        const label = mirror ? 'Mirror' : 'Sync Now';
+        const scopeLabel = scope ? scope.split(path.sep).join('/') : '';
+        const subject = scopeLabel ? `"${scopeLabel}" of "${pair.name}"` : `"${pair.name}"`;
+        try {
+            const plan = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Godot Sync: Scanning ${subject}...` },
+                () => this.syncManager.withService(pair, service => service.createPlan({ includeDeletions: mirror, scope }))
+            );
+            const only = plan.entries.length === 1 ? plan.entries[0] : undefined;
+            if (scope && only && only.action === 'skip') {
+                vscode.window.showInformationMessage(`Godot Sync: ${subject} is not synced (${only.reason}).`);
+                return;
+            }
+            let entries = plan.entries.filter(entry => entry.action !== 'skip');
+            const deletions = entries.filter(entry => entry.action === 'delete');
+            if (!mirror) {
+                // Sync Now only copies; deletions stay with the watcher and the deletion setting
+                entries = entries.filter(entry => entry.action !== 'delete');
+            } else if (deletions.length > 0) {
+                const shown = deletions.slice(0, MIRROR_CONFIRM_LIST_LIMIT).map(entry => entry.relativePath);
+                if (deletions.length > shown.length) {
+                    shown.push(`… and ${deletions.length - shown.length} more`);
+                }
+                const confirm = await vscode.window.showWarningMessage(
+                    `Mirror "${pair.name}" will delete ${deletions.length} ${deletions.length === 1 ? 'file' : 'files'} from the target that no longer exist in the source.`,
+                    { modal: true, detail: shown.join('\n') },
+                    'Delete and Mirror'
+                );
+                if (confirm !== 'Delete and Mirror') return;
+            }
+
+            const result = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Godot Sync: ${label} ${subject}...` },
+                () => this.syncManager.withService(pair, service => service.applyPlan(entries, { allowDeletion: mirror }))
+            );
+            result.skipped += countActions(plan).skip;
+            this.logPairMessage(pair, `${label}${scopeLabel ? ` (${scopeLabel})` : ''} finished: ${formatResult(result)}.`);
+            if (this.fileStatusScanned) {
+                this.refreshFileStatus([pair]);
+            }
+            const summary = `Godot Sync: ${label} ${subject} ${formatResult(result)}.`;
+            if (result.failed > 0) {
+                vscode.window.showErrorMessage(summary);
+            } else {
+                vscode.window.showInformationMessage(summary);
+            }
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.logPairMessage(pair, `${label} failed: ${msg}`, { action: 'error' });
+            vscode.window.showErrorMessage(`Godot Sync: ${label} failed - ${msg}`);
+        }
+    }
+
+    public async syncResources(uri?: vscode.Uri, selection?: vscode.Uri[]) {
+        for (const resource of this.getMenuResources(uri, selection)) {
+            const pair = await this.pickPairForResource(resource);
+            if (pair) {
+                await this.syncPairOnce(pair, false, path.relative(pair.sourceDir, resource.fsPath));
+            }
+        }
+    }
+
+    /** Adds a root-anchored exclude rule for each resource to its pair; a running pair applies it right away. */
+    public async excludeResources(uri?: vscode.Uri, selection?: vscode.Uri[]) {
+        for (const resource of this.getMenuResources(uri, selection)) {
+            const pair = await this.pickPairForResource(resource);
+            if (!pair) continue;
+            const relativePath = path.relative(pair.sourceDir, resource.fsPath);
+            if (!relativePath) {
+                vscode.window.showWarningMessage(`Godot Sync: The source folder of "${pair.name}" cannot be excluded from its own sync.`);
+                continue;
+            }
+            let stat: vscode.FileStat;
+            try {
+                stat = await vscode.workspace.fs.stat(resource);
+            } catch (error: unknown) {
+                const msg = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Godot Sync: Could not exclude ${path.basename(resource.fsPath)} - ${msg}`);
+                continue;
+            }
+            const pattern = toExcludePattern(relativePath, (stat.type & vscode.FileType.Directory) !== 0);
+            if (pair.exclude.includes(pattern)) {
+                vscode.window.showInformationMessage(`Godot Sync: "${pattern}" is already excluded in "${pair.name}".`);
+                continue;
+            }
+            const updated = await this.writePairs(() => this.pairStore.updatePair(pair.id, { exclude: [...pair.exclude, pattern] }));
+            if (!updated) continue;
+            this.syncManager.setExcludePatterns(pair.id, updated.exclude);
+            this.logPairMessage(pair, `Excluded from sync: ${pattern}`);
+            vscode.window.showInformationMessage(`Godot Sync: Added "${pattern}" to the exclude rules of "${pair.name}". Copies already in the target are kept.`);
+        }
+    }
+
+    public async openCounterpart(uri?: vscode.Uri) {
+        const counterpart = await this.findCounterpart(uri);
+        if (!counterpart) return;
+        if (counterpart.isFolder) {
+            // Targets outside the workspace cannot be revealed in the Explorer
+            const command = vscode.workspace.getWorkspaceFolder(counterpart.targetUri) ? 'revealInExplorer' : 'revealFileInOS';
+            await vscode.commands.executeCommand(command, counterpart.targetUri);
+        } else {
+            await vscode.commands.executeCommand('vscode.open', counterpart.targetUri);
+        }
+    }
+
+    public async compareWithTarget(uri?: vscode.Uri) {
+        const counterpart = await this.findCounterpart(uri);
+        if (!counterpart) return;
+        if (counterpart.isFolder) {
+            vscode.window.showInformationMessage('Godot Sync: Compare with Target works on files; use Preview to compare folders.');
+            return;
+        }
+        await vscode.commands.executeCommand('vscode.diff', counterpart.targetUri, counterpart.sourceUri, `${counterpart.relativePath} (Target ↔ Source)`);
+    }
+
+    // Explorer menus pass the clicked resource and the whole selection; palette and keybindings fall back to the active editor
+    private getMenuResources(uri?: vscode.Uri, selection?: vscode.Uri[]): vscode.Uri[] {
+        if (selection && selection.length > 0) return selection;
+        if (uri instanceof vscode.Uri) return [uri];
+        const editor = vscode.window.activeTextEditor;
+        return editor ? [editor.document.uri] : [];
+    }
+
+    private async pickPairForResource(resource: vscode.Uri): Promise<SyncPair | undefined> {
+        const contains = (dir: string) => {
+            const relative = path.relative(dir, resource.fsPath);
+            return !relative.startsWith('..') && !path.isAbsolute(relative);
+        };
+        const candidates = resource.scheme === 'file'
+            ? this.pairStore.getPairs().filter(pair => !!pair.sourceDir && !!pair.targetDir && contains(pair.sourceDir))
+            : [];
+        if (candidates.length === 0) {
+            vscode.window.showWarningMessage(`Godot Sync: ${path.basename(resource.fsPath)} is not inside the source folder of a sync pair.`);
+            return undefined;
+        }
+        const choice = await this.pickPair(`Select the sync pair for ${path.basename(resource.fsPath)}`, pair => candidates.includes(pair), false);
+        return choice === 'all' ? undefined : choice;
+    }
+
+    // The resource's path in the target, mapped the same way the sync maps it
+    private async findCounterpart(uri?: vscode.Uri): Promise<{ pair: SyncPair, relativePath: string, sourceUri: vscode.Uri, targetUri: vscode.Uri, isFolder: boolean } | undefined> {
+        const resource = this.getMenuResources(uri)[0];
+        if (!resource) return undefined;
+        const pair = await this.pickPairForResource(resource);
+        if (!pair) return undefined;
+        const relativePath = path.relative(pair.sourceDir, resource.fsPath).split(path.sep).join('/') || '.';
+        const targetPath = toCounterpartPath(pair.sourceDir, pair.targetDir, resource.fsPath);
+        if (!targetPath) return undefined;
+        const targetUri = vscode.Uri.file(targetPath);
+        try {
+            const stat = await vscode.workspace.fs.stat(targetUri);
+            return { pair, relativePath, sourceUri: resource, targetUri, isFolder: (stat.type & vscode.FileType.Directory) !== 0 };
+        } catch {
+            vscode.window.showWarningMessage(`Godot Sync: ${relativePath} does not exist in the target of "${pair.name}" yet.`);
+            return undefined;
+        }
     }
 
     public dispose() {
-        this.syncService.dispose();
+        if (this.conflictNoticeTimer) {
+            clearTimeout(this.conflictNoticeTimer);
+        }
+        this.syncManager.dispose();
+        this.statusBar.dispose();
+        this.outputChannel.dispose();
+        this.disposables.forEach(d => d.dispose());
     }
 
     private _getHtmlForWebview(webview: vscode.Webview): string {
@@ -271,6 +1570,18 @@ export class GodotSyncViewProvider implements vscode.WebviewViewProvider {
                 <title>Godot Sync</title>
             </head>
             <body>
+                <label for="pairSelect">Sync pair:</label>
+                <div class="input-group">
+                    <select id="pairSelect" class="pair-select"></select>
+                    <button id="addPair" class="button-secondary button-small" title="Add sync pair">Add</button>
+                    <button id="renamePair" class="button-secondary button-small" title="Rename sync pair">Rename</button>
+                    <button id="removePair" class="button-secondary button-small" title="Remove sync pair">Remove</button>
+                </div>
+                <div class="hint-inline">
+                    <span id="configStorage"></span>
+                    <a href="#" id="openWorkspaceConfig" title="Share the sync pairs with your team through a file in the workspace">Open .godot-sync.json</a>
+                </div>
+
                 <div class="input-group">
                     <input type="text" id="sourceDir" placeholder="Source Directory (e.g., Editor Scripts)">
                     <button id="selectSource">Select Source</button>
@@ -280,11 +1591,21 @@ export class GodotSyncViewProvider implements vscode.WebviewViewProvider {
                     <input type="text" id="targetDir" placeholder="Target Directory (Godot Project)">
                     <button id="selectTarget">Select Target</button>
                 </div>
+                <div id="targetProjectInfo" class="hint-inline" style="display:none;"></div>
+                <p id="targetWarning" class="warning-message" style="display:none;"></p>
 
                 <label for="extensions">Extensions (comma-separated):</label>
                 <div class="input-group">
                     <input type="text" id="extensions" placeholder="e.g. .gd, .tscn, .res, .import">
                 </div>
+                <label for="includePatterns">Include rules (comma-separated, gitignore-style):</label>
+                <div class="input-group">
+                    <input type="text" id="includePatterns" placeholder="e.g. addons/**/*.gd, scenes/ (empty = everything)">
+                </div>
+                <label for="excludePatterns">Exclude rules (also read from .godotsyncignore):</label>
+                <div class="input-group">
+                    <input type="text" id="excludePatterns" placeholder="e.g. scratch/, **/test_*.gd">
+                </div>
                 <div class="input-group">
                     <label for="presetSelect" style="margin-right:8px;">Presets:</label>
                     <select id="presetSelect">
@@ -312,30 +1633,123 @@ export class GodotSyncViewProvider implements vscode.WebviewViewProvider {
                         <input type="checkbox" id="syncImportFiles" />
                         <span>Sync *.import metadata</span>
                     </label>
+                    <label class="checkbox" title="Godot 4.4+ UID sidecars next to scripts and shaders">
+                        <input type="checkbox" id="syncUidFiles" />
+                        <span>Sync *.uid files</span>
+                    </label>
+                    <label class="checkbox" title="Also watch the target and sync its changes back to the source">
+                        <input type="checkbox" id="twoWay" />
+                        <span>Two-way sync</span>
+                    </label>
+                    <label class="checkbox" title="Skip files matched by exclude_filter in the target project's export_presets.cfg">
+                        <input type="checkbox" id="useExportFilters" />
+                        <span>Apply export exclude filters</span>
+                    </label>
+                </div>
+
+                <div class="input-group" title="On save only syncs files saved, created, renamed or deleted in VS Code; edits made by other programs such as the Godot editor are not picked up">
+                    <label for="triggerSelect" style="margin-right:8px;">Sync when:</label>
+                    <select id="triggerSelect">
+                        <option value="watcher">Files change on disk</option>
+                        <option value="onSave">Files are saved in VS Code</option>
+                    </select>
+                </div>
+
+                <div class="input-group" title="How .import/.uid sidecars follow their file when it is copied, moved or deleted. A sidecar whose file is missing is never copied alone.">
+                    <label for="sidecarPolicySelect" style="margin-right:8px;">Sidecars follow their file:</label>
+                    <select id="sidecarPolicySelect">
+                        <option value="always">Always</option>
+                        <option value="onlyIfPresent">Only if present on the other side</option>
+                        <option value="never">Never</option>
+                    </select>
+                </div>
+
+                <div class="input-group" title="When a moved file is referenced by res:// path in .tscn/.tres/.gd files, propose updating those references">
+                    <label for="rewriteReferencesSelect" style="margin-right:8px;">Fix res:// references on move:</label>
+                    <select id="rewriteReferencesSelect">
+                        <option value="off">Off</option>
+                        <option value="target">Target only</option>
+                        <option value="sourceAndTarget">Source and target</option>
+                    </select>
                 </div>
 
                 <div id="pollingBanner" class="banner" style="display:none;">
-                    <span>This environment may miss file events. Consider enabling 'Use polling'.</span>
+                    <span>This environment may miss file events. Consider enabling 'Use polling', or syncing only when files are saved in VS Code.</span>
                     <div class="banner-actions">
                         <button id="enablePollingNow">Enable now</button>
+                        <button id="useSyncOnSave">Sync on save</button>
                         <button id="dismissPollingBanner">Dismiss</button>
                     </div>
                 </div>
 
                 <p class="warning-message" id="deletionWarning" style="display:none;"><em>Warning: Deletion enabled. Sync is one-way (Source → Target). Files in Target may be overwritten or deleted.</em></p>
 
+                <div id="syncProgress" class="sync-progress" style="display:none;">
+                    <div class="progress-track"><div id="syncProgressBar" class="progress-bar"></div></div>
+                    <div class="progress-row">
+                        <span id="syncProgressText"></span>
+                        <button id="cancelInitialSync" class="button-secondary button-small">Cancel</button>
+                    </div>
+                </div>
+
                 <div id="status">Status: Set Source & Target.</div>
 
                 <div class="button-group">
                     <button id="startButton">Start Sync</button>
                     <button id="stopButton" disabled>Stop Sync</button>
+                    <button id="pauseButton" class="button-secondary" disabled>Pause</button>
+                    <button id="previewButton" class="button-secondary" title="Show what a sync would change without writing anything">Preview</button>
+                </div>
+                <div class="button-group">
+                    <button id="startAllButton" class="button-secondary">Start All</button>
+                    <button id="stopAllButton" class="button-secondary">Stop All</button>
+                    <button id="findOrphansButton" class="button-secondary" title="List target files matching the rules that have no source file">Find Orphans</button>
+                </div>
+
+                <div id="conflictsSection" class="conflicts" style="display:none;">
+                    <div class="log-header">
+                        <span class="log-title">Conflicts</span>
+                    </div>
+                    <ul id="conflictList" class="conflict-list"></ul>
+                </div>
+
+                <div id="orphansSection" class="orphans" style="display:none;">
+                    <div class="log-header">
+                        <span class="log-title">Orphans</span>
+                        <span class="log-actions">
+                            <button id="backupAllOrphansButton" class="button-secondary button-small" title="Move all listed orphans to the backups">Back up all</button>
+                            <button id="deleteAllOrphansButton" class="button-secondary button-small" title="Delete all listed orphans from the target">Delete all</button>
+                        </span>
+                    </div>
+                    <ul id="orphanList" class="conflict-list orphan-list"></ul>
                 </div>
 
                 <div class="log-header">
                     <span class="log-title">Sync Log</span>
-                    <button id="clearLogButton" class="button-secondary button-small" title="Clear log">Clear</button>
+                    <span class="log-actions">
+                        <button id="exportLogButton" class="button-secondary button-small" title="Export the entries matching the filter as JSON or text">Export</button>
+                        <button id="clearLogButton" class="button-secondary button-small" title="Clear log">Clear</button>
+                    </span>
                 </div>
-                <textarea id="logArea" readonly rows="10"></textarea>
+                <div class="log-filters">
+                    <select id="logLevelFilter" title="Minimum level">
+                        <option value="">All levels</option>
+                        <option value="warn">Warnings & errors</option>
+                        <option value="error">Errors only</option>
+                    </select>
+                    <select id="logActionFilter" title="Action">
+                        <option value="">All actions</option>
+                        <option value="copied">Copied</option>
+                        <option value="skipped">Skipped</option>
+                        <option value="deleted">Deleted</option>
+                        <option value="moved">Moved</option>
+                        <option value="conflict">Conflicts</option>
+                        <option value="error">Errors</option>
+                        <option value="info">Other</option>
+                    </select>
+                    <input type="search" id="logSearch" placeholder="Search" />
+                </div>
+                <div id="logList" class="log-list" role="log"></div>
 
                 <script nonce="${nonce}" src="${scriptUri}"></script>
                 
@@ -346,13 +1760,3 @@ export class GodotSyncViewProvider implements vscode.WebviewViewProvider {
             </html>`;
     }
 }
-
-// Cria uma chave de segurança (nonce) para proteger o script da tela da extensão.
-function getNonce() {
-    let text = '';
-    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    for (let i = 0; i < 32; i++) {
-        text += possible.charAt(Math.floor(Math.random() * possible.length));
-    }
-    return text;
-}
@@ -0,0 +1,102 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { findProjectRoot, toResPath } from './GodotProject';
+
+/** off: references are left alone; target: only the target project; sourceAndTarget: both trees. */
+export type ReferenceRewriteScope = 'off' | 'target' | 'sourceAndTarget';
+
+// Files that reference other resources by res:// path (ext_resource, preload(), load())
+export const REFERENCE_FILE_EXTENSIONS = ['.tscn', '.tres', '.gd'];
+
+export interface ResourceMove {
+    /** Paths relative to the synced folder. */
+    oldRelativePath: string;
+    newRelativePath: string;
+}
+
+export interface ReferenceEdit {
+    side: 'source' | 'target';
+    filePath: string;
+    /** 1-based line number. */
+    line: number;
+    before: string;
+    after: string;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function collectReferenceFiles(root: string): Promise<string[]> {
+    const files: string[] = [];
+    const walk = async (dir: string) => {
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+        for (const entry of entries) {
+            // .godot, .import and other dot folders only hold generated data
+            if (entry.name.startsWith('.')) continue;
+            const filePath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                await walk(filePath);
+            } else if (entry.isFile() && REFERENCE_FILE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+                files.push(filePath);
+            }
+        }
+    };
+    await walk(root);
+    return files;
+}
+
+/**
+ * Lists the lines of the project containing dir that reference a moved file by its old
+ * quoted res:// path, with the line as it would read after the rewrite. Nothing is written.
+ * The res:// paths are those of the moved files below resDir. Source files are written against
+ * the target project, so the source side passes the target folder here, and only dir itself is
+ * scanned: a project shared with the target would otherwise list the target's files as well.
+ */
+export async function findReferenceEdits(side: 'source' | 'target', dir: string, moves: ResourceMove[], resDir: string = dir): Promise<ReferenceEdit[]> {
+    if (moves.length === 0) return [];
+    const ownProject = resDir === dir;
+    const scanRoot = ownProject ? (await findProjectRoot(dir)) || path.resolve(dir) : path.resolve(dir);
+    const resRoot = ownProject ? scanRoot : (await findProjectRoot(resDir)) || path.resolve(resDir);
+    const replacements = moves.map(move => ({
+        pattern: new RegExp(`(["'])${escapeRegExp(toResPath(resRoot, path.join(resDir, move.oldRelativePath)))}\\1`, 'g'),
+        newPath: toResPath(resRoot, path.join(resDir, move.newRelativePath))
+    }));
+
+    const edits: ReferenceEdit[] = [];
+    for (const filePath of await collectReferenceFiles(scanRoot)) {
+        let content: string;
+        try {
+            content = await fs.readFile(filePath, 'utf8');
+        } catch {
+            continue;
+        }
+        if (!content.includes('res://')) continue;
+        content.split('\n').forEach((before, index) => {
+            let after = before;
+            for (const { pattern, newPath } of replacements) {
+                after = after.replace(pattern, (_match, quote: string) => `${quote}${newPath}${quote}`);
+            }
+            if (after !== before) {
+                edits.push({ side, filePath, line: index + 1, before, after });
+            }
+        });
+    }
+    return edits;
+}
+
+/**
+ * Rewrites the given lines in memory. Edits whose line no longer matches are dropped,
+ * so a file changed since the preview is never clobbered.
+ */
+export function applyEditsToContent(content: string, edits: ReferenceEdit[]): { content: string; applied: number } {
+    const lines = content.split('\n');
+    let applied = 0;
+    for (const edit of edits) {
+        if (lines[edit.line - 1] === edit.before) {
+            lines[edit.line - 1] = edit.after;
+            applied++;
+        }
+    }
+    return { content: lines.join('\n'), applied };
+}
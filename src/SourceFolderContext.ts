@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Context key listing every folder below a configured source directory, for menu "when" clauses.
+ * Holds URI paths (`/c:/Users/...` on Windows), the form resourcePath and resourceDirname use.
+ */
+export const SOURCE_FOLDERS_CONTEXT = 'godotSync.sourceFolders';
+
+const REFRESH_DELAY_MS = 500;
+// Keeps the context key small on huge trees; deeper folders just lose the menu entries
+const MAX_FOLDERS = 5000;
+
+/**
+ * Keeps the source folders context key up to date. "when" clauses cannot test whether a path lies
+ * below another one, so the menus check the resource or its parent folder against this list.
+ */
+export class SourceFolderContext implements vscode.Disposable {
+    private refreshTimer: NodeJS.Timeout | null = null;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly getSourceDirs: () => string[]) {
+        const refreshSoon = () => this.scheduleRefresh();
+        this.disposables.push(
+            vscode.workspace.onDidCreateFiles(refreshSoon),
+            vscode.workspace.onDidRenameFiles(refreshSoon),
+            vscode.workspace.onDidDeleteFiles(refreshSoon)
+        );
+    }
+
+    public scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            this.refresh();
+        }, REFRESH_DELAY_MS);
+    }
+
+    public async refresh(): Promise<void> {
+        const folders: string[] = [];
+        for (const sourceDir of new Set(this.getSourceDirs().filter(dir => !!dir))) {
+            await collectFolders(path.resolve(sourceDir), folders);
+        }
+        await vscode.commands.executeCommand('setContext', SOURCE_FOLDERS_CONTEXT, folders.map(dir => vscode.Uri.file(dir).path));
+    }
+
+    public dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+// Hidden folders (.git, .godot) are left out: the sync skips them unless a pair includes hidden files
+async function collectFolders(dir: string, folders: string[]): Promise<void> {
+    if (folders.length >= MAX_FOLDERS) return;
+    folders.push(dir);
+    let entries;
+    try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+        return;
+    }
+    for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+            await collectFolders(path.join(dir, entry.name), folders);
+        }
+    }
+}
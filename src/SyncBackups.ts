@@ -0,0 +1,146 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export type BackupSide = 'source' | 'target';
+export type BackupReason = 'overwrite' | 'delete';
+
+export interface BackupEntry {
+    id: string;
+    side: BackupSide;
+    /** Relative path with '/' separators. */
+    relativePath: string;
+    reason: BackupReason;
+    createdAt: number;
+    size: number;
+}
+
+export interface BackupRetention {
+    /** Backups older than this are removed; 0 keeps them regardless of age. */
+    maxAgeDays: number;
+    /** Versions kept per file; 0 keeps all of them. */
+    maxVersions: number;
+}
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetention = { maxAgeDays: 7, maxVersions: 5 };
+
+type BackupIndex = {
+    version: number;
+    entries: BackupEntry[];
+};
+
+const INDEX_VERSION = 1;
+const INDEX_FILE_NAME = 'index.json';
+const FILES_DIR_NAME = 'files';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Previous versions of files the sync overwrote or deleted, kept in a folder outside the
+ * synced trees. Changes are serialized so parallel copies can back up safely.
+ */
+export class BackupStore {
+    private entries: BackupEntry[] | null = null;
+    private pending: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private readonly dir: string,
+        private retention: BackupRetention = DEFAULT_BACKUP_RETENTION
+    ) {}
+
+    public setRetention(retention: BackupRetention): void {
+        this.retention = retention;
+    }
+
+    /** Copies filePath into the store; resolves to null when the file does not exist. */
+    public backup(filePath: string, side: BackupSide, relativePath: string, reason: BackupReason): Promise<BackupEntry | null> {
+        return this.exclusive(async () => {
+            let size: number;
+            try {
+                size = (await fs.stat(filePath)).size;
+            } catch (err: unknown) {
+                if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+                throw err;
+            }
+            const entries = await this.load();
+            const createdAt = Date.now();
+            const entry: BackupEntry = {
+                id: `${createdAt}-${Math.random().toString(36).slice(2, 10)}`,
+                side,
+                relativePath: relativePath.split(path.sep).join('/'),
+                reason,
+                createdAt,
+                size
+            };
+            await fs.mkdir(path.join(this.dir, FILES_DIR_NAME), { recursive: true });
+            await fs.copyFile(filePath, this.getBackupPath(entry));
+            entries.push(entry);
+            await this.pruneEntries(createdAt);
+            await this.save();
+            return entry;
+        });
+    }
+
+    /** All backups, newest first. */
+    public list(): Promise<BackupEntry[]> {
+        return this.exclusive(async () => [...await this.load()].sort((a, b) => b.createdAt - a.createdAt));
+    }
+
+    /** Where the content of a backup is stored; keeps the file extension so it can be opened or diffed. */
+    public getBackupPath(entry: BackupEntry): string {
+        return path.join(this.dir, FILES_DIR_NAME, `${entry.id}${path.extname(entry.relativePath)}`);
+    }
+
+    public prune(now: number = Date.now()): Promise<void> {
+        return this.exclusive(async () => {
+            await this.load();
+            if (await this.pruneEntries(now)) {
+                await this.save();
+            }
+        });
+    }
+
+    private async pruneEntries(now: number): Promise<boolean> {
+        const entries = this.entries || [];
+        const { maxAgeDays, maxVersions } = this.retention;
+        const keep = new Set<BackupEntry>();
+        const versions = new Map<string, number>();
+        for (const entry of [...entries].sort((a, b) => b.createdAt - a.createdAt)) {
+            if (maxAgeDays > 0 && now - entry.createdAt > maxAgeDays * DAY_MS) continue;
+            const key = `${entry.side}:${entry.relativePath}`;
+            const count = versions.get(key) || 0;
+            if (maxVersions > 0 && count >= maxVersions) continue;
+            versions.set(key, count + 1);
+            keep.add(entry);
+        }
+        const removed = entries.filter(entry => !keep.has(entry));
+        if (removed.length === 0) return false;
+        this.entries = entries.filter(entry => keep.has(entry));
+        await Promise.all(removed.map(entry => fs.rm(this.getBackupPath(entry), { force: true })));
+        return true;
+    }
+
+    private async load(): Promise<BackupEntry[]> {
+        if (this.entries) return this.entries;
+        try {
+            const data = JSON.parse(await fs.readFile(path.join(this.dir, INDEX_FILE_NAME), 'utf8')) as BackupIndex;
+            this.entries = data.version === INDEX_VERSION && Array.isArray(data.entries) ? data.entries : [];
+        } catch {
+            // No backups yet
+            this.entries = [];
+        }
+        return this.entries;
+    }
+
+    private async save(): Promise<void> {
+        const data: BackupIndex = { version: INDEX_VERSION, entries: this.entries || [] };
+        const indexPath = path.join(this.dir, INDEX_FILE_NAME);
+        await fs.mkdir(this.dir, { recursive: true });
+        await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(data));
+        await fs.rename(`${indexPath}.tmp`, indexPath);
+    }
+
+    private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+        const result = this.pending.then(fn, fn);
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+}
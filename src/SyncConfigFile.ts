@@ -0,0 +1,172 @@
+import * as os from 'os';
+import * as path from 'path';
+import { SyncPair, createPair } from './SyncPair';
+
+export const CONFIG_FILE_NAME = '.godot-sync.json';
+const WORKSPACE_FOLDER_VARIABLE = '${workspaceFolder}';
+
+/**
+ * A sync pair as written in .godot-sync.json or the godotSync.pairs setting. Folders may be
+ * relative to the workspace folder or use ${workspaceFolder} / ${userHome}; every other
+ * option falls back to its default when left out.
+ */
+export interface PairConfig {
+    id?: string;
+    name: string;
+    sourceDir?: string;
+    targetDir?: string;
+    extensions?: string | string[];
+    include?: string[];
+    exclude?: string[];
+    allowDeletion?: boolean;
+    includeHidden?: boolean;
+    usePolling?: boolean;
+    syncImportFiles?: boolean;
+    syncUidFiles?: boolean;
+    sidecarPolicy?: SyncPair['sidecarPolicy'];
+    trigger?: SyncPair['trigger'];
+    preset?: string;
+    mode?: SyncPair['mode'];
+    rewriteReferences?: SyncPair['rewriteReferences'];
+    useExportFilters?: boolean;
+}
+
+export interface WorkspaceConfigFile {
+    $schema?: string;
+    pairs: PairConfig[];
+}
+
+type PairOption = Exclude<keyof PairConfig, 'id' | 'name' | 'sourceDir' | 'targetDir' | 'extensions'>;
+
+const PAIR_OPTIONS: PairOption[] = [
+    'include', 'exclude', 'allowDeletion', 'includeHidden', 'usePolling', 'syncImportFiles',
+    'syncUidFiles', 'sidecarPolicy', 'trigger', 'preset', 'mode', 'rewriteReferences', 'useExportFilters'
+];
+
+type EnumOption = 'sidecarPolicy' | 'trigger' | 'mode' | 'rewriteReferences';
+
+const ENUM_OPTIONS: { [K in EnumOption]: SyncPair[K][] } = {
+    sidecarPolicy: ['always', 'onlyIfPresent', 'never'],
+    trigger: ['watcher', 'onSave'],
+    mode: ['oneWay', 'twoWay'],
+    rewriteReferences: ['off', 'target', 'sourceAndTarget']
+};
+
+// Hand-edited files can hold anything: a single pattern becomes a list, other values of the wrong type keep the default
+function toOptionValue(option: PairOption, value: unknown, fallback: unknown): unknown {
+    if (option in ENUM_OPTIONS) {
+        return (ENUM_OPTIONS[option as EnumOption] as unknown[]).includes(value) ? value : fallback;
+    }
+    if (Array.isArray(fallback)) {
+        if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+        return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : fallback;
+    }
+    return typeof value === typeof fallback ? value : fallback;
+}
+
+/** Expands ${workspaceFolder} and ${userHome} and resolves relative paths against the workspace folder. */
+export function resolveConfigPath(value: string | undefined, workspaceFolder: string | undefined): string {
+    if (!value || !value.trim()) return '';
+    let expanded = value.trim()
+        .replace(/\$\{userHome\}/g, os.homedir())
+        .replace(/\$\{workspaceFolder(?::[^}]*)?\}/g, workspaceFolder || '');
+    if (expanded === '~' || expanded.startsWith('~/')) {
+        expanded = path.join(os.homedir(), expanded.slice(1));
+    }
+    if (path.isAbsolute(expanded)) return path.normalize(expanded);
+    return workspaceFolder ? path.resolve(workspaceFolder, expanded) : expanded;
+}
+
+/**
+ * Turns an absolute folder into something that works on other machines: ${workspaceFolder}/... inside
+ * the workspace, a relative path next to it. The previous value is kept when it still resolves the same.
+ */
+export function toConfigPath(absolutePath: string, workspaceFolder: string | undefined, previous?: string): string {
+    if (!absolutePath) return '';
+    if (previous !== undefined && resolveConfigPath(previous, workspaceFolder) === path.normalize(absolutePath)) {
+        return previous;
+    }
+    if (!workspaceFolder) return absolutePath;
+    const relative = path.relative(workspaceFolder, absolutePath);
+    if (path.isAbsolute(relative)) return absolutePath; // other drive
+    const portable = relative.split(path.sep).join('/');
+    if (!portable) return WORKSPACE_FOLDER_VARIABLE;
+    return portable.startsWith('..') ? portable : `${WORKSPACE_FOLDER_VARIABLE}/${portable}`;
+}
+
+function toPairId(name: string, taken: Set<string>): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'pair';
+    let id = base;
+    for (let n = 2; taken.has(id); n++) {
+        id = `${base}-${n}`;
+    }
+    return id;
+}
+
+/** Pairs without an id get one derived from their name, so manifests and backups stay attached. */
+export function pairsFromConfig(configs: PairConfig[], workspaceFolder: string | undefined): SyncPair[] {
+    const taken = new Set<string>();
+    const pairs: SyncPair[] = [];
+    for (const config of configs) {
+        if (!config || typeof config !== 'object') continue;
+        const name = typeof config.name === 'string' && config.name.trim() ? config.name.trim() : `Pair ${pairs.length + 1}`;
+        const id = typeof config.id === 'string' && config.id && !taken.has(config.id) ? config.id : toPairId(name, taken);
+        taken.add(id);
+        const pair = createPair(name, { id });
+        pair.sourceDir = resolveConfigPath(typeof config.sourceDir === 'string' ? config.sourceDir : undefined, workspaceFolder);
+        pair.targetDir = resolveConfigPath(typeof config.targetDir === 'string' ? config.targetDir : undefined, workspaceFolder);
+        if (Array.isArray(config.extensions)) {
+            pair.extensions = config.extensions.filter(ext => typeof ext === 'string').join(', ');
+        } else if (typeof config.extensions === 'string') {
+            pair.extensions = config.extensions;
+        }
+        for (const option of PAIR_OPTIONS) {
+            if (config[option] !== undefined) {
+                (pair as unknown as Record<string, unknown>)[option] = toOptionValue(option, config[option], pair[option]);
+            }
+        }
+        pairs.push(pair);
+    }
+    return pairs;
+}
+
+/** Only options that differ from the defaults are written, so shared files stay short. */
+export function pairsToConfig(pairs: SyncPair[], workspaceFolder: string | undefined, previous: PairConfig[] = []): PairConfig[] {
+    return pairs.map(pair => {
+        const before = previous.find(p => p.id === pair.id || (!p.id && p.name === pair.name));
+        const defaults = createPair(pair.name);
+        const config: PairConfig = {
+            id: pair.id,
+            name: pair.name,
+            sourceDir: toConfigPath(pair.sourceDir, workspaceFolder, before?.sourceDir),
+            targetDir: toConfigPath(pair.targetDir, workspaceFolder, before?.targetDir)
+        };
+        if (pair.extensions !== defaults.extensions) {
+            config.extensions = pair.extensions;
+        }
+        for (const option of PAIR_OPTIONS) {
+            if (JSON.stringify(pair[option]) !== JSON.stringify(defaults[option])) {
+                (config as unknown as Record<string, unknown>)[option] = pair[option];
+            }
+        }
+        return config;
+    });
+}
+
+export function parseConfigFile(content: string): WorkspaceConfigFile {
+    let data: Partial<WorkspaceConfigFile>;
+    try {
+        data = JSON.parse(content);
+    } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        // The file is rewritten whenever pairs change in the panel, which would drop comments anyway
+        throw new Error(`${CONFIG_FILE_NAME} is not valid JSON (comments and trailing commas are not allowed): ${msg}`);
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error(`${CONFIG_FILE_NAME} must contain a JSON object.`);
+    }
+    if (data.pairs !== undefined && !Array.isArray(data.pairs)) {
+        throw new Error(`"pairs" in ${CONFIG_FILE_NAME} must be an array.`);
+    }
+    return { ...data, pairs: data.pairs || [] };
+}
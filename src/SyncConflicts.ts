@@ -0,0 +1,25 @@
+export type ConflictResolution = 'keepSource' | 'keepTarget' | 'saveBoth';
+
+export interface SyncConflict {
+    relativePath: string;
+    sourcePath: string;
+    targetPath: string;
+    detectedAt: number;
+}
+
+export const CONFLICT_RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+    keepSource: 'Keep source',
+    keepTarget: 'Keep target',
+    saveBoth: 'Save both (rename)'
+};
+
+/**
+ * Name for the preserved target copy when both versions are kept,
+ * e.g. player.gd -> player.gd.conflict-20240131-154500. The suffix keeps Godot from importing
+ * the copy (a second class_name would clash) and keeps it out of the synced extensions.
+ */
+export function conflictCopyPath(targetPath: string, date: Date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+    return `${targetPath}.conflict-${stamp}`;
+}
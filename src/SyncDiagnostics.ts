@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileSyncResult } from './SyncService';
+
+export const RETRY_FILE_COMMAND = 'godotSync.retryFile';
+const DIAGNOSTIC_SOURCE = 'Godot Sync';
+
+// A file held open by Godot or another program; the next change usually syncs fine
+const LOCKED_CODES = ['EBUSY', 'ETXTBSY'];
+
+type PairInfo = { id: string; name: string; sourceDir: string; targetDir: string };
+
+/**
+ * Reports files that failed to sync in the Problems panel, one diagnostic per pair on the file
+ * whose change was being synced, and offers a quick fix that syncs the file again.
+ */
+export class SyncDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly collection = vscode.languages.createDiagnosticCollection('godotSync');
+    // Keyed by file path, then pair id
+    private readonly failures = new Map<string, Map<string, vscode.Diagnostic>>();
+
+    /** Records a failure, or clears an earlier one once the file syncs without failing. */
+    public update(pair: PairInfo, result: FileSyncResult): void {
+        const root = result.direction === 'push' ? pair.sourceDir : pair.targetDir;
+        const filePath = path.resolve(root, result.relativePath);
+        const byPair = this.failures.get(filePath) || new Map<string, vscode.Diagnostic>();
+        if (result.outcome === 'failed') {
+            byPair.set(pair.id, this.createDiagnostic(pair, result));
+        } else if (!byPair.delete(pair.id)) {
+            return;
+        }
+        this.publish(filePath, byPair);
+    }
+
+    public clearPair(pairId: string): void {
+        for (const [filePath, byPair] of this.failures) {
+            if (byPair.delete(pairId)) {
+                this.publish(filePath, byPair);
+            }
+        }
+    }
+
+    /** Ids of the pairs that failed to sync the file. */
+    public getFailedPairIds(uri: vscode.Uri): string[] {
+        const byPair = this.failures.get(path.resolve(uri.fsPath));
+        return byPair ? [...byPair.keys()] : [];
+    }
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        return context.diagnostics
+            .filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE)
+            .map(diagnostic => {
+                const action = new vscode.CodeAction('Retry sync', vscode.CodeActionKind.QuickFix);
+                action.command = { command: RETRY_FILE_COMMAND, title: 'Retry sync', arguments: [document.uri] };
+                action.diagnostics = [diagnostic];
+                action.isPreferred = true;
+                return action;
+            });
+    }
+
+    public dispose(): void {
+        this.collection.dispose();
+    }
+
+    private createDiagnostic(pair: PairInfo, result: FileSyncResult): vscode.Diagnostic {
+        const locked = result.errorCode !== undefined && LOCKED_CODES.includes(result.errorCode);
+        const toLabel = result.direction === 'push' ? 'target' : 'source';
+        const diagnostic = new vscode.Diagnostic(
+            // Sync failures concern the whole file, not a position in it
+            new vscode.Range(0, 0, 0, 0),
+            `Could not sync to the ${toLabel} of "${pair.name}": ${result.error || 'unknown error'}`,
+            locked ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        if (result.errorCode) {
+            diagnostic.code = result.errorCode;
+        }
+        return diagnostic;
+    }
+
+    private publish(filePath: string, byPair: Map<string, vscode.Diagnostic>): void {
+        const uri = vscode.Uri.file(filePath);
+        if (byPair.size === 0) {
+            this.failures.delete(filePath);
+            this.collection.delete(uri);
+        } else {
+            this.failures.set(filePath, byPair);
+            this.collection.set(uri, [...byPair.values()]);
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { FileStatusStore, FileSyncState } from './SyncFileStatus';
+import { describeFileStatus } from './SyncStatusTree';
+
+// Synced files stay undecorated; the badges flag source files that have not reached the target
+const DECORATIONS: Partial<Record<FileSyncState, { badge?: string; color: string }>> = {
+    pending: { badge: '↻', color: 'editorInfo.foreground' },
+    skipped: { badge: 'S', color: 'editorWarning.foreground' },
+    failed: { badge: '!', color: 'errorForeground' },
+    conflicted: { badge: 'C', color: 'gitDecoration.conflictingResourceForeground' },
+    excluded: { color: 'disabledForeground' }
+};
+
+/**
+ * Explorer badges for source files of scanned pairs, matching their state in the file status view.
+ */
+export class SyncFileDecorationProvider implements vscode.FileDecorationProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    public readonly onDidChangeFileDecorations = this.changeEmitter.event;
+
+    constructor(private readonly store: FileStatusStore) {
+        store.onDidChange((_pairId, paths) => {
+            this.changeEmitter.fire(paths ? paths.map(p => vscode.Uri.file(p)) : undefined);
+        });
+    }
+
+    public provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (uri.scheme !== 'file') return undefined;
+        const status = this.store.findBySourcePath(uri.fsPath);
+        const decoration = status ? DECORATIONS[status.state] : undefined;
+        if (!status || !decoration) return undefined;
+        return new vscode.FileDecoration(
+            decoration.badge,
+            `Godot Sync: ${describeFileStatus(status)[0]}`,
+            new vscode.ThemeColor(decoration.color)
+        );
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,201 @@
+import * as path from 'path';
+import { SyncPlan } from './SyncPlan';
+
+export type FileSyncState = 'synced' | 'pending' | 'skipped' | 'failed' | 'conflicted' | 'excluded';
+
+/** Most urgent first; also the order of the groups in the file status view. */
+export const FILE_SYNC_STATES: FileSyncState[] = ['failed', 'conflicted', 'pending', 'skipped', 'excluded', 'synced'];
+
+export interface FileStatus {
+    /** Relative to the source, with '/' separators. */
+    relativePath: string;
+    state: FileSyncState;
+    /** Why the file is skipped, excluded or failed. */
+    reason?: string;
+    syncedAt?: number;
+    sourcePath: string;
+    targetPath: string;
+}
+
+// Skip reasons coming from the pair's rules rather than from the state of the file
+const EXCLUSION_REASONS = [
+    'excluded by rule', 'export filter', '.gdignore in', 'hidden file', 'not matched by include rules',
+    'Godot internal directory', '*.import sync disabled', '*.uid sync disabled', 'sidecar sync disabled'
+];
+
+// Files of other types, and source files that are gone, are not listed
+const UNLISTED_REASONS = ['extension not selected', 'file gone', 'deletion disabled'];
+
+const UNCHANGED = 'unchanged';
+const CONFLICT_PREFIX = 'conflict';
+
+export function stateForSkip(reason: string | undefined): FileSyncState {
+    if (!reason) return 'skipped';
+    if (reason === UNCHANGED) return 'synced';
+    if (reason.startsWith(CONFLICT_PREFIX)) return 'conflicted';
+    return EXCLUSION_REASONS.some(prefix => reason.startsWith(prefix)) ? 'excluded' : 'skipped';
+}
+
+function toKey(relativePath: string): string {
+    return relativePath.split(path.sep).join('/');
+}
+
+type PairFiles = {
+    sourceDir: string;
+    targetDir: string;
+    files: Map<string, FileStatus>;
+    conflicts: Set<string>;
+};
+
+/**
+ * Per-file sync state of every pair, built from a dry-run plan and kept current from the
+ * queue and file results. Deleted source files drop out; target-only files are not listed.
+ */
+export class FileStatusStore {
+    private pairs = new Map<string, PairFiles>();
+    private listeners: ((pairId: string, paths: string[] | null) => void)[] = [];
+
+    /** paths: source paths whose state changed, or null when the whole pair was reloaded. */
+    public onDidChange(listener: (pairId: string, paths: string[] | null) => void): void {
+        this.listeners.push(listener);
+    }
+
+    public setPlan(pairId: string, plan: SyncPlan): void {
+        const previous = this.pairs.get(pairId);
+        const entry: PairFiles = { sourceDir: plan.sourceDir, targetDir: plan.targetDir, files: new Map(), conflicts: previous ? previous.conflicts : new Set() };
+        for (const planEntry of plan.entries) {
+            if (planEntry.action === 'delete' || !planEntry.sourcePath) continue;
+            const key = toKey(planEntry.relativePath);
+            const state = planEntry.action === 'skip' ? stateForSkip(planEntry.reason) : 'pending';
+            entry.files.set(key, {
+                relativePath: key,
+                state: entry.conflicts.has(key) ? 'conflicted' : state,
+                reason: state === 'skipped' || state === 'excluded' ? planEntry.reason : undefined,
+                syncedAt: planEntry.syncedAt,
+                sourcePath: planEntry.sourcePath,
+                targetPath: planEntry.targetPath
+            });
+        }
+        this.pairs.set(pairId, entry);
+        this.fire(pairId, null);
+    }
+
+    public markPending(pairId: string, relativePath: string): void {
+        this.update(pairId, relativePath, { state: 'pending', reason: undefined });
+    }
+
+    public markSynced(pairId: string, relativePath: string, syncedAt: number = Date.now()): void {
+        this.update(pairId, relativePath, { state: 'synced', reason: undefined, syncedAt });
+    }
+
+    public markSkipped(pairId: string, relativePath: string, reason: string | undefined): void {
+        if (reason && UNLISTED_REASONS.includes(reason)) {
+            this.markDeleted(pairId, relativePath);
+            return;
+        }
+        const state = stateForSkip(reason);
+        this.update(pairId, relativePath, { state, reason: state === 'synced' ? undefined : reason });
+    }
+
+    public markFailed(pairId: string, relativePath: string, error: string | undefined): void {
+        this.update(pairId, relativePath, { state: 'failed', reason: error });
+    }
+
+    public markDeleted(pairId: string, relativePath: string): void {
+        const entry = this.pairs.get(pairId);
+        const key = toKey(relativePath);
+        if (!entry || !entry.files.has(key)) return;
+        const status = entry.files.get(key) as FileStatus;
+        entry.files.delete(key);
+        this.fire(pairId, [status.sourcePath]);
+    }
+
+    public setConflicts(pairId: string, relativePaths: string[]): void {
+        const entry = this.pairs.get(pairId);
+        if (!entry) return;
+        const next = new Set(relativePaths.map(toKey));
+        const changed: string[] = [];
+        for (const key of new Set([...entry.conflicts, ...next])) {
+            const status = entry.files.get(key);
+            if (!status || entry.conflicts.has(key) === next.has(key)) continue;
+            if (next.has(key)) {
+                status.state = 'conflicted';
+                status.reason = undefined;
+            } else if (status.state === 'conflicted') {
+                // Resolved: the resolution syncs the file, which reports the real state
+                status.state = 'pending';
+            }
+            changed.push(status.sourcePath);
+        }
+        entry.conflicts = next;
+        if (changed.length > 0) this.fire(pairId, changed);
+    }
+
+    public removePair(pairId: string): void {
+        if (this.pairs.delete(pairId)) this.fire(pairId, null);
+    }
+
+    public hasPair(pairId: string): boolean {
+        return this.pairs.has(pairId);
+    }
+
+    public getPairIds(): string[] {
+        return [...this.pairs.keys()];
+    }
+
+    public list(pairId: string): FileStatus[] {
+        const entry = this.pairs.get(pairId);
+        return entry ? [...entry.files.values()].sort((a, b) => a.relativePath.localeCompare(b.relativePath)) : [];
+    }
+
+    public countByState(pairId: string): Record<FileSyncState, number> {
+        const counts: Record<FileSyncState, number> = { synced: 0, pending: 0, skipped: 0, failed: 0, conflicted: 0, excluded: 0 };
+        for (const status of this.list(pairId)) {
+            counts[status.state]++;
+        }
+        return counts;
+    }
+
+    /** The most urgent state of a source file across all pairs syncing it. */
+    public findBySourcePath(sourcePath: string): FileStatus | undefined {
+        let found: FileStatus | undefined;
+        const resolved = path.resolve(sourcePath);
+        for (const entry of this.pairs.values()) {
+            const relative = path.relative(entry.sourceDir, resolved);
+            if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+            const status = entry.files.get(toKey(relative));
+            if (status && (!found || FILE_SYNC_STATES.indexOf(status.state) < FILE_SYNC_STATES.indexOf(found.state))) {
+                found = status;
+            }
+        }
+        return found;
+    }
+
+    // Files not listed yet (created since the plan) are added with the pair's path mapping
+    private update(pairId: string, relativePath: string, changes: Partial<FileStatus>): void {
+        const entry = this.pairs.get(pairId);
+        if (!entry) return;
+        const key = toKey(relativePath);
+        let status = entry.files.get(key);
+        if (!status) {
+            status = {
+                relativePath: key,
+                state: 'pending',
+                sourcePath: path.join(entry.sourceDir, relativePath),
+                targetPath: path.join(entry.targetDir, relativePath)
+            };
+            entry.files.set(key, status);
+        }
+        if (entry.conflicts.has(key) && changes.state !== 'synced') {
+            changes = { ...changes, state: 'conflicted', reason: undefined };
+        }
+        Object.assign(status, changes);
+        this.fire(pairId, [status.sourcePath]);
+    }
+
+    private fire(pairId: string, paths: string[] | null): void {
+        for (const listener of this.listeners) {
+            listener(pairId, paths);
+        }
+    }
+}
@@ -0,0 +1,108 @@
+export type LogLevel = 'info' | 'warn' | 'error';
+export type LogAction = 'copied' | 'skipped' | 'deleted' | 'moved' | 'conflict' | 'error' | 'info';
+
+export const LOG_LEVELS: LogLevel[] = ['info', 'warn', 'error'];
+export const LOG_ACTIONS: LogAction[] = ['copied', 'skipped', 'deleted', 'moved', 'conflict', 'error', 'info'];
+export const DEFAULT_LOG_RETENTION = 1000;
+
+export interface LogEntry {
+    timestamp: number;
+    level: LogLevel;
+    action: LogAction;
+    message: string;
+    /** Relative path of the file concerned, with '/' separators. */
+    path?: string;
+    pairId?: string;
+    pairName?: string;
+}
+
+export interface LogDetails {
+    /** Defaults to 'error' for errors, 'warn' for conflicts and 'info' otherwise. */
+    level?: LogLevel;
+    action?: LogAction;
+    path?: string;
+}
+
+export interface LogFilter {
+    /** Minimum level shown. */
+    level?: LogLevel;
+    action?: LogAction;
+    search?: string;
+}
+
+export function createLogEntry(message: string, details: LogDetails = {}, timestamp: number = Date.now()): LogEntry {
+    const action = details.action || 'info';
+    const entry: LogEntry = {
+        timestamp,
+        level: details.level || (action === 'error' ? 'error' : action === 'conflict' ? 'warn' : 'info'),
+        action,
+        message
+    };
+    if (details.path) {
+        entry.path = details.path.split('\\').join('/');
+    }
+    return entry;
+}
+
+/** Entries persisted by older versions were plain lines; keep them readable as info messages. */
+export function normalizeLogEntries(stored: unknown): LogEntry[] {
+    if (!Array.isArray(stored)) return [];
+    return stored
+        .map(item => typeof item === 'string' ? createLogEntry(item, {}, 0) : item as LogEntry)
+        .filter(entry => entry && typeof entry.message === 'string');
+}
+
+export function matchesLogFilter(entry: LogEntry, filter: LogFilter): boolean {
+    if (filter.level && LOG_LEVELS.indexOf(entry.level) < LOG_LEVELS.indexOf(filter.level)) return false;
+    if (filter.action && entry.action !== filter.action) return false;
+    if (filter.search) {
+        const needle = filter.search.toLowerCase();
+        const haystack = `${entry.pairName || ''} ${entry.path || ''} ${entry.message}`.toLowerCase();
+        if (!haystack.includes(needle)) return false;
+    }
+    return true;
+}
+
+export function formatLogEntry(entry: LogEntry): string {
+    const time = entry.timestamp ? new Date(entry.timestamp).toISOString() : '-';
+    const pair = entry.pairName ? ` [${entry.pairName}]` : '';
+    return `${time} ${entry.level.toUpperCase().padEnd(5)} ${entry.action.padEnd(8)}${pair} ${entry.message}`;
+}
+
+export function exportLog(entries: LogEntry[], format: 'json' | 'text'): string {
+    if (format === 'json') {
+        return JSON.stringify(entries, null, 2);
+    }
+    return entries.map(formatLogEntry).join('\n') + (entries.length > 0 ? '\n' : '');
+}
+
+/** Bounded list of log entries; the oldest ones are dropped past the retention limit. */
+export class LogBuffer {
+    private entries: LogEntry[];
+
+    constructor(entries: LogEntry[] = [], private retention: number = DEFAULT_LOG_RETENTION) {
+        this.entries = entries.slice(-retention);
+    }
+
+    public push(entry: LogEntry): void {
+        this.entries.push(entry);
+        if (this.entries.length > this.retention) {
+            this.entries.splice(0, this.entries.length - this.retention);
+        }
+    }
+
+    public setRetention(retention: number): void {
+        this.retention = Math.max(1, Math.floor(retention));
+        if (this.entries.length > this.retention) {
+            this.entries.splice(0, this.entries.length - this.retention);
+        }
+    }
+
+    public clear(): void {
+        this.entries = [];
+    }
+
+    public toArray(): LogEntry[] {
+        return [...this.entries];
+    }
+}
@@ -0,0 +1,312 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FileSyncEvent, FileSyncResult, PauseReason, SyncConfig, SyncDirection, SyncProgress, SyncService } from './SyncService';
+import { SyncQueueStats } from './SyncQueue';
+import { SyncPair, parseExtensions } from './SyncPair';
+import { ConflictResolution, SyncConflict } from './SyncConflicts';
+import { ReferenceEdit } from './ResourceReferences';
+import { LogEntry, createLogEntry } from './SyncLog';
+import { BackupEntry, BackupRetention, BackupStore, DEFAULT_BACKUP_RETENTION } from './SyncBackups';
+
+type PairLogFunction = (pair: SyncPair, entry: LogEntry) => void;
+type PairStatusFunction = (pair: SyncPair, isRunning: boolean) => void;
+
+/** Optional per-pair notifications, forwarded from each pair's SyncService. */
+export interface SyncManagerListeners {
+    onConflictsChanged?: (pair: SyncPair, conflicts: SyncConflict[]) => void;
+    onReferenceEdits?: (pair: SyncPair, edits: ReferenceEdit[]) => void;
+    onProgress?: (pair: SyncPair, progress: SyncProgress) => void;
+    onQueueChanged?: (pair: SyncPair, stats: SyncQueueStats) => void;
+    onFileResult?: (pair: SyncPair, result: FileSyncResult) => void;
+    onFileQueued?: (pair: SyncPair, relativePath: string, direction: SyncDirection) => void;
+    onFileSynced?: (pair: SyncPair, event: FileSyncEvent) => void;
+    onFileDeleted?: (pair: SyncPair, event: FileSyncEvent) => void;
+    onFileFailed?: (pair: SyncPair, event: FileSyncEvent & { error: string }) => void;
+    onPauseChanged?: (pair: SyncPair, reason: PauseReason | null) => void;
+}
+
+export interface BackupSettings {
+    enabled: boolean;
+    retention: BackupRetention;
+}
+
+type ActivePair = {
+    pair: SyncPair;
+    service: SyncService;
+};
+
+/**
+ * Owns one SyncService per started sync pair so several pairs can run side by side.
+ */
+export class SyncManager {
+    private active = new Map<string, ActivePair>();
+    private backupStores = new Map<string, BackupStore>();
+    private backupSettings: BackupSettings = { enabled: true, retention: DEFAULT_BACKUP_RETENTION };
+    private pauseDuringGitOperations = true;
+
+    /**
+     * @param storageDir Extension storage folder; per-pair manifests are kept below it.
+     */
+    constructor(
+        private readonly log: PairLogFunction,
+        private readonly updateStatus: PairStatusFunction,
+        private readonly storageDir?: string,
+        private readonly listeners: SyncManagerListeners = {}
+    ) {}
+
+    public start(pair: SyncPair): boolean {
+        if (this.active.has(pair.id)) {
+            this.log(pair, createLogEntry('Sync service is already running.'));
+            return false;
+        }
+
+        const service = new SyncService(
+            (_message, entry) => this.log(pair, entry),
+            (isRunning) => {
+                if (!isRunning) {
+                    this.active.delete(pair.id);
+                }
+                this.updateStatus(pair, isRunning);
+            },
+            {
+                getReservedTargets: () => this.getReservedTargets(pair.id),
+                onConflictsChanged: (conflicts) => this.listeners.onConflictsChanged?.(pair, conflicts),
+                onReferenceEdits: (edits) => this.listeners.onReferenceEdits?.(pair, edits),
+                onProgress: (progress) => this.listeners.onProgress?.(pair, progress),
+                onQueueChanged: (stats) => this.listeners.onQueueChanged?.(pair, stats),
+                onFileResult: (result) => this.listeners.onFileResult?.(pair, result),
+                onFileQueued: (relativePath, direction) => this.listeners.onFileQueued?.(pair, relativePath, direction),
+                onPauseChanged: (reason) => this.listeners.onPauseChanged?.(pair, reason)
+            }
+        );
+        this.subscribe(pair, service);
+        this.active.set(pair.id, { pair, service });
+
+        const started = service.startWithConfig(this.toConfig(pair));
+        if (!started) {
+            this.active.delete(pair.id);
+        }
+        return started;
+    }
+
+    /**
+     * Runs fn with the pair's running service, or with a temporary one prepared
+     * from the pair configuration when the pair is not running.
+     */
+    public async withService<T>(pair: SyncPair, fn: (service: SyncService) => Promise<T>): Promise<T> {
+        const entry = this.active.get(pair.id);
+        if (entry) {
+            return fn(entry.service);
+        }
+        const service = new SyncService(
+            (_message, entry) => this.log(pair, entry),
+            () => { /* never started */ },
+            {
+                getReservedTargets: () => this.getReservedTargets(pair.id),
+                onFileResult: (result) => this.listeners.onFileResult?.(pair, result)
+            }
+        );
+        this.subscribe(pair, service);
+        await service.prepare(this.toConfig(pair));
+        try {
+            return await fn(service);
+        } finally {
+            await service.release();
+        }
+    }
+
+    public async resolveConflict(pair: SyncPair, relativePath: string, resolution: ConflictResolution): Promise<void> {
+        await this.withService(pair, service => service.resolveConflict(relativePath, resolution));
+    }
+
+    public async applyReferenceEdits(pair: SyncPair, edits: ReferenceEdit[]): Promise<number> {
+        return this.withService(pair, service => service.applyReferenceEdits(edits));
+    }
+
+    public cancelInitialSync(pairId: string): void {
+        const entry = this.active.get(pairId);
+        if (entry) {
+            entry.service.cancelInitialSync();
+        }
+    }
+
+    public stop(pairId: string): void {
+        const entry = this.active.get(pairId);
+        if (entry) {
+            entry.service.stop();
+        }
+    }
+
+    public pause(pairId: string): void {
+        const entry = this.active.get(pairId);
+        if (entry) {
+            entry.service.pause();
+        }
+    }
+
+    public resume(pairId: string): void {
+        const entry = this.active.get(pairId);
+        if (entry) {
+            entry.service.resume();
+        }
+    }
+
+    public setExcludePatterns(pairId: string, patterns: string[]): void {
+        const entry = this.active.get(pairId);
+        if (entry) {
+            entry.service.setExcludePatterns(patterns);
+        }
+    }
+
+    public getPauseReason(pairId: string): PauseReason | null {
+        const entry = this.active.get(pairId);
+        return entry ? entry.service.getPauseReason() : null;
+    }
+
+    public stopAll(): void {
+        for (const entry of [...this.active.values()]) {
+            entry.service.stop();
+        }
+    }
+
+    public isRunning(pairId: string): boolean {
+        const entry = this.active.get(pairId);
+        return !!entry && entry.service.getIsRunning();
+    }
+
+    public isActive(pairId: string): boolean {
+        return this.active.has(pairId);
+    }
+
+    public hasRunning(): boolean {
+        return [...this.active.values()].some(entry => entry.service.getIsRunning());
+    }
+
+    public dispose(): void {
+        for (const entry of this.active.values()) {
+            entry.service.dispose();
+        }
+        this.active.clear();
+    }
+
+    /** Applies to pairs started from now on. */
+    public setPauseDuringGitOperations(enabled: boolean): void {
+        this.pauseDuringGitOperations = enabled;
+    }
+
+    /** Applies to pairs started from now on; the retention of existing stores changes right away. */
+    public configureBackups(settings: BackupSettings): void {
+        this.backupSettings = settings;
+        for (const store of this.backupStores.values()) {
+            store.setRetention(settings.retention);
+        }
+    }
+
+    public async listBackups(pair: SyncPair): Promise<BackupEntry[]> {
+        const store = this.getBackupStore(pair.id);
+        return store ? store.list() : [];
+    }
+
+    public async restoreBackup(pair: SyncPair, entry: BackupEntry): Promise<void> {
+        const store = this.getBackupStore(pair.id);
+        if (!store) {
+            throw new Error('No backup storage available.');
+        }
+        await this.withService(pair, service => service.restoreBackup(entry, store));
+    }
+
+    public async retryFile(pair: SyncPair, filePath: string): Promise<void> {
+        await this.withService(pair, service => service.retryFile(filePath));
+    }
+
+    public async findOrphans(pair: SyncPair): Promise<string[]> {
+        return this.withService(pair, service => service.findOrphans());
+    }
+
+    /**
+     * Removes orphaned target files with one service, so a stopped pair is prepared once for the batch.
+     * backup: keep a copy in the backup store even when backups are turned off.
+     * Returns the error message of each path that could not be removed.
+     */
+    public async removeOrphans(pair: SyncPair, relativePaths: string[], backup: boolean): Promise<Map<string, string>> {
+        const store = backup ? this.getBackupStore(pair.id) : undefined;
+        if (backup && !store) {
+            throw new Error('No backup storage available.');
+        }
+        return this.withService(pair, async service => {
+            const failures = new Map<string, string>();
+            for (const relativePath of relativePaths) {
+                try {
+                    await service.removeOrphan(relativePath, store);
+                } catch (error: unknown) {
+                    failures.set(relativePath, error instanceof Error ? error.message : String(error));
+                }
+            }
+            return failures;
+        });
+    }
+
+    public getBackupStore(pairId: string): BackupStore | undefined {
+        if (!this.storageDir) return undefined;
+        let store = this.backupStores.get(pairId);
+        if (!store) {
+            store = new BackupStore(path.join(this.storageDir, 'backups', pairId), this.backupSettings.retention);
+            this.backupStores.set(pairId, store);
+        }
+        return store;
+    }
+
+    public getManifestPath(pairId: string): string | undefined {
+        return this.storageDir ? path.join(this.storageDir, 'manifests', `${pairId}.json`) : undefined;
+    }
+
+    public async forgetPair(pairId: string): Promise<void> {
+        const manifestPath = this.getManifestPath(pairId);
+        if (manifestPath) {
+            await fs.rm(manifestPath, { force: true });
+        }
+        if (this.storageDir) {
+            this.backupStores.delete(pairId);
+            await fs.rm(path.join(this.storageDir, 'backups', pairId), { recursive: true, force: true });
+        }
+    }
+
+    private toConfig(pair: SyncPair): SyncConfig {
+        return {
+            sourceDir: pair.sourceDir,
+            targetDir: pair.targetDir,
+            extensions: parseExtensions(pair.extensions),
+            allowDeletion: pair.allowDeletion,
+            includeHidden: pair.includeHidden,
+            usePolling: pair.usePolling,
+            syncImportFiles: pair.syncImportFiles,
+            syncUidFiles: pair.syncUidFiles,
+            sidecarPolicy: pair.sidecarPolicy,
+            trigger: pair.trigger,
+            include: pair.include,
+            exclude: pair.exclude,
+            mode: pair.mode,
+            rewriteReferences: pair.rewriteReferences,
+            useExportFilters: pair.useExportFilters,
+            pauseDuringGitOperations: this.pauseDuringGitOperations,
+            manifestPath: this.getManifestPath(pair.id),
+            backups: this.backupSettings.enabled ? this.getBackupStore(pair.id) : undefined
+        };
+    }
+
+    private subscribe(pair: SyncPair, service: SyncService): void {
+        service.on('fileSynced', event => this.listeners.onFileSynced?.(pair, event));
+        service.on('fileDeleted', event => this.listeners.onFileDeleted?.(pair, event));
+        service.on('fileFailed', event => this.listeners.onFileFailed?.(pair, event));
+    }
+
+    private getReservedTargets(excludeId: string): string[] {
+        const targets: string[] = [];
+        for (const [id, entry] of this.active) {
+            if (id !== excludeId && entry.pair.targetDir) {
+                targets.push(entry.pair.targetDir);
+            }
+        }
+        return targets;
+    }
+}
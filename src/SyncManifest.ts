@@ -0,0 +1,164 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import * as path from 'path';
+
+export interface ManifestEntry {
+    sourceHash: string;
+    targetHash: string;
+    /** Source size; also the target size unless targetSize says otherwise. */
+    size: number;
+    targetSize?: number;
+    sourceMtimeMs: number;
+    targetMtimeMs: number;
+    syncedAt: number;
+}
+
+/** What the manifest knows about one side (source or target) of a file. */
+export interface ManifestSide {
+    hash: string;
+    mtimeMs: number;
+    size: number;
+}
+
+export function getManifestSide(entry: ManifestEntry, side: 'source' | 'target'): ManifestSide {
+    if (side === 'source') {
+        return { hash: entry.sourceHash, mtimeMs: entry.sourceMtimeMs, size: entry.size };
+    }
+    return { hash: entry.targetHash, mtimeMs: entry.targetMtimeMs, size: entry.targetSize ?? entry.size };
+}
+
+export function buildManifestEntry(source: ManifestSide, target: ManifestSide, syncedAt: number = Date.now()): ManifestEntry {
+    const entry: ManifestEntry = {
+        sourceHash: source.hash,
+        targetHash: target.hash,
+        size: source.size,
+        sourceMtimeMs: source.mtimeMs,
+        targetMtimeMs: target.mtimeMs,
+        syncedAt
+    };
+    if (target.size !== source.size) {
+        entry.targetSize = target.size;
+    }
+    return entry;
+}
+
+type ManifestFile = {
+    version: number;
+    sourceDir: string;
+    targetDir: string;
+    entries: Record<string, ManifestEntry>;
+};
+
+const MANIFEST_VERSION = 1;
+const SAVE_DELAY_MS = 1000;
+
+export async function hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha1');
+        createReadStream(filePath)
+            .on('error', reject)
+            .on('data', (chunk) => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')));
+    });
+}
+
+function toKey(relativePath: string): string {
+    return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * Records what was last synced for each file of a sync pair, so unchanged files can be
+ * skipped by comparing stats and content hashes instead of mtimes alone.
+ * Without a file path the manifest only lives in memory.
+ */
+export class SyncManifest {
+    private entries = new Map<string, ManifestEntry>();
+    private saveTimer: NodeJS.Timeout | null = null;
+    private dirty = false;
+
+    private constructor(
+        private readonly filePath: string | undefined,
+        private readonly sourceDir: string,
+        private readonly targetDir: string
+    ) {}
+
+    /**
+     * Loads the manifest for a pair. A manifest recorded for other folders is discarded.
+     */
+    public static async load(filePath: string | undefined, sourceDir: string, targetDir: string): Promise<SyncManifest> {
+        const manifest = new SyncManifest(filePath, path.resolve(sourceDir), path.resolve(targetDir));
+        if (!filePath) return manifest;
+        try {
+            const data = JSON.parse(await fs.readFile(filePath, 'utf8')) as ManifestFile;
+            if (data.version === MANIFEST_VERSION && data.sourceDir === manifest.sourceDir && data.targetDir === manifest.targetDir) {
+                manifest.entries = new Map(Object.entries(data.entries || {}));
+            }
+        } catch {
+            // Missing or unreadable manifest: start from scratch
+        }
+        return manifest;
+    }
+
+    public static empty(sourceDir: string, targetDir: string): SyncManifest {
+        return new SyncManifest(undefined, path.resolve(sourceDir), path.resolve(targetDir));
+    }
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    public get(relativePath: string): ManifestEntry | undefined {
+        return this.entries.get(toKey(relativePath));
+    }
+
+    /** The recorded file at relativePath and every recorded file below it, as '/'-separated keys. */
+    public pathsUnder(relativePath: string): string[] {
+        const key = toKey(relativePath);
+        return [...this.entries.keys()].filter(k => k === key || k.startsWith(`${key}/`));
+    }
+
+    public set(relativePath: string, entry: ManifestEntry): void {
+        this.entries.set(toKey(relativePath), entry);
+        this.scheduleSave();
+    }
+
+    public delete(relativePath: string): void {
+        if (this.entries.delete(toKey(relativePath))) {
+            this.scheduleSave();
+        }
+    }
+
+    public async flush(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        if (!this.filePath || !this.dirty) return;
+        this.dirty = false;
+        const data: ManifestFile = {
+            version: MANIFEST_VERSION,
+            sourceDir: this.sourceDir,
+            targetDir: this.targetDir,
+            entries: Object.fromEntries(this.entries)
+        };
+        try {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const tmp = `${this.filePath}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify(data));
+            await fs.rename(tmp, this.filePath);
+        } catch (err) {
+            this.dirty = true;
+            throw err;
+        }
+    }
+
+    private scheduleSave(): void {
+        this.dirty = true;
+        if (!this.filePath || this.saveTimer) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.flush().catch(() => { /* retried on next change or stop */ });
+        }, SAVE_DELAY_MS);
+    }
+}
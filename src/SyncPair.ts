@@ -0,0 +1,336 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { SidecarPolicy, SyncMode, SyncTrigger } from './SyncService';
+import { ReferenceRewriteScope } from './ResourceReferences';
+import { CONFIG_FILE_NAME, PairConfig, WorkspaceConfigFile, pairsFromConfig, pairsToConfig, parseConfigFile } from './SyncConfigFile';
+
+export const DEFAULT_EXTENSIONS = '.gd, .tscn, .tres, .res, .import, .shader, .json, .cfg';
+
+export interface SyncPair {
+    id: string;
+    name: string;
+    sourceDir: string;
+    targetDir: string;
+    extensions: string;
+    include: string[];
+    exclude: string[];
+    allowDeletion: boolean;
+    includeHidden: boolean;
+    usePolling: boolean;
+    syncImportFiles: boolean;
+    syncUidFiles: boolean;
+    sidecarPolicy: SidecarPolicy;
+    trigger: SyncTrigger;
+    preset: string;
+    mode: SyncMode;
+    rewriteReferences: ReferenceRewriteScope;
+    useExportFilters: boolean;
+}
+
+const PAIRS_KEY = 'godotSync.pairs';
+const SELECTED_PAIR_KEY = 'godotSync.selectedPair';
+
+// Legacy single-pair keys, only read during migration
+const LEGACY_SOURCE_DIR_KEY = 'godotSync.sourceDir';
+const LEGACY_TARGET_DIR_KEY = 'godotSync.targetDir';
+const LEGACY_EXTENSIONS_KEY = 'godotSync.extensions';
+const LEGACY_ALLOW_DELETION_KEY = 'godotSync.allowDeletion';
+const LEGACY_INCLUDE_HIDDEN_KEY = 'godotSync.includeHidden';
+const LEGACY_USE_POLLING_KEY = 'godotSync.usePolling';
+const LEGACY_SYNC_IMPORT_FILES_KEY = 'godotSync.syncImportFiles';
+const LEGACY_PRESET_KEY = 'godotSync.preset';
+
+export function parseExtensions(extensions: string): string[] {
+    return extensions.split(',').map(s => s.trim()).filter(s => s.length > 0);
+}
+
+// The implicit pair shown when none is configured keeps one id across reloads, so manifests,
+// running state and views stay attached to it
+const DEFAULT_PAIR_ID = 'default';
+
+export function createPairId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+function createDefaultPair(): SyncPair {
+    return createPair('Default', { id: DEFAULT_PAIR_ID });
+}
+
+export function createPair(name: string, overrides: Partial<SyncPair> = {}): SyncPair {
+    return {
+        id: createPairId(),
+        name,
+        sourceDir: '',
+        targetDir: '',
+        extensions: DEFAULT_EXTENSIONS,
+        include: [],
+        exclude: [],
+        allowDeletion: false,
+        includeHidden: false,
+        usePolling: false,
+        syncImportFiles: true,
+        syncUidFiles: true,
+        sidecarPolicy: 'always',
+        trigger: 'watcher',
+        preset: 'none',
+        mode: 'oneWay',
+        rewriteReferences: 'off',
+        useExportFilters: false,
+        ...overrides
+    };
+}
+
+export type PairStorage = 'file' | 'settings' | 'workspaceState';
+
+export const PAIRS_SETTING = 'pairs';
+const MIGRATED_KEY = 'godotSync.pairsMigrated';
+
+function getWorkspaceFolder(): string | undefined {
+    const folders = vscode.workspace.workspaceFolders;
+    return folders && folders.length > 0 ? folders[0].uri.fsPath : undefined;
+}
+
+/**
+ * Reads and writes the sync pairs through the shareable layers: .godot-sync.json in the workspace
+ * when it exists, otherwise the godotSync.pairs workspace setting. Without a workspace folder the
+ * pairs stay in workspaceState. Pairs from older versions (workspaceState, legacy single-pair keys)
+ * are moved to the settings once.
+ */
+export class SyncPairStore implements vscode.Disposable {
+    private pairs: SyncPair[] = [];
+    private storage: PairStorage = 'workspaceState';
+    private fileContent: WorkspaceConfigFile | null = null;
+    private loadError: string | null = null;
+    private pendingWrites = 0;
+    private writeChain: Promise<void> = Promise.resolve();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [this.changeEmitter];
+
+    /** Fired when the pairs changed outside of this store (file edited, settings changed). */
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly state: vscode.Memento) {
+        this.reload();
+        const folder = getWorkspaceFolder();
+        if (folder) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, CONFIG_FILE_NAME));
+            watcher.onDidCreate(() => this.onExternalChange(), null, this.disposables);
+            watcher.onDidChange(() => this.onExternalChange(), null, this.disposables);
+            watcher.onDidDelete(() => this.onExternalChange(), null, this.disposables);
+            this.disposables.push(watcher);
+        }
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(`godotSync.${PAIRS_SETTING}`)) this.onExternalChange();
+        }));
+    }
+
+    public getStorage(): PairStorage {
+        return this.storage;
+    }
+
+    /** Why .godot-sync.json could not be read; the pairs are read-only until it is fixed. */
+    public getLoadError(): string | null {
+        return this.loadError;
+    }
+
+    public getConfigFilePath(): string | undefined {
+        const folder = getWorkspaceFolder();
+        return folder ? path.join(folder, CONFIG_FILE_NAME) : undefined;
+    }
+
+    public getPairs(): SyncPair[] {
+        return this.pairs.map(p => ({ ...p, include: [...p.include], exclude: [...p.exclude] }));
+    }
+
+    public getPair(id: string): SyncPair | undefined {
+        return this.getPairs().find(p => p.id === id);
+    }
+
+    public async savePairs(pairs: SyncPair[]): Promise<void> {
+        if (this.loadError) {
+            throw new Error(`Fix ${CONFIG_FILE_NAME} first: ${this.loadError}`);
+        }
+        this.pairs = pairs.map(p => ({ ...p }));
+        await this.persist();
+    }
+
+    public async updatePair(id: string, changes: Partial<SyncPair>): Promise<SyncPair | undefined> {
+        const pairs = this.getPairs();
+        const index = pairs.findIndex(p => p.id === id);
+        if (index < 0) return undefined;
+        pairs[index] = { ...pairs[index], ...changes, id };
+        await this.savePairs(pairs);
+        return pairs[index];
+    }
+
+    public async addPair(name: string): Promise<SyncPair> {
+        const pair = createPair(name);
+        await this.savePairs([...this.getPairs(), pair]);
+        return pair;
+    }
+
+    public async removePair(id: string): Promise<void> {
+        const remaining = this.getPairs().filter(p => p.id !== id);
+        await this.savePairs(remaining.length > 0 ? remaining : [createDefaultPair()]);
+    }
+
+    /**
+     * Writes the current pairs to .godot-sync.json and reads them from there from now on.
+     * The godotSync.pairs setting is cleared so there is only one place to edit.
+     */
+    public async createConfigFile(): Promise<string> {
+        const filePath = this.getConfigFilePath();
+        if (!filePath) {
+            throw new Error('Open a workspace folder first.');
+        }
+        if (this.storage === 'file') return filePath;
+        const previousStorage = this.storage;
+        this.fileContent = { pairs: [] };
+        this.storage = 'file';
+        await this.persist();
+        if (previousStorage === 'settings') {
+            await this.runWrite(async () => {
+                await vscode.workspace.getConfiguration('godotSync').update(PAIRS_SETTING, undefined, vscode.ConfigurationTarget.Workspace);
+            });
+        }
+        return filePath;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    public getSelectedPair(): SyncPair {
+        const pairs = this.getPairs();
+        const selectedId = this.state.get<string>(SELECTED_PAIR_KEY);
+        return pairs.find(p => p.id === selectedId) || pairs[0];
+    }
+
+    public async setSelectedPair(id: string): Promise<void> {
+        await this.state.update(SELECTED_PAIR_KEY, id);
+    }
+
+    private onExternalChange(): void {
+        // Our own writes come back as change events; only the final state matters
+        if (this.pendingWrites > 0) return;
+        const before = JSON.stringify(this.pairs);
+        const previousError = this.loadError;
+        this.reload();
+        if (JSON.stringify(this.pairs) !== before || this.loadError !== previousError) {
+            this.changeEmitter.fire();
+        }
+    }
+
+    private reload(): void {
+        const folder = getWorkspaceFolder();
+        const filePath = this.getConfigFilePath();
+        this.loadError = null;
+
+        if (filePath && fs.existsSync(filePath)) {
+            this.storage = 'file';
+            try {
+                const content = fs.readFileSync(filePath, 'utf8');
+                this.fileContent = parseConfigFile(content);
+                this.pairs = pairsFromConfig(this.fileContent.pairs, folder);
+            } catch (error: unknown) {
+                this.loadError = error instanceof Error ? error.message : String(error);
+                if (this.pairs.length === 0) this.pairs = [createDefaultPair()];
+                return;
+            }
+        } else if (folder) {
+            this.storage = 'settings';
+            this.fileContent = null;
+            const configured = vscode.workspace.getConfiguration('godotSync').get<PairConfig[]>(PAIRS_SETTING);
+            if (Array.isArray(configured) && configured.length > 0) {
+                this.pairs = pairsFromConfig(configured, folder);
+            } else if (!this.state.get<boolean>(MIGRATED_KEY)) {
+                this.pairs = this.readStatePairs();
+                this.state.update(MIGRATED_KEY, true);
+                if (this.pairs.some(p => p.sourceDir || p.targetDir)) {
+                    this.persist().catch(() => { /* kept in memory; retried on the next change */ });
+                }
+            } else {
+                this.pairs = [];
+            }
+        } else {
+            this.storage = 'workspaceState';
+            this.pairs = this.readStatePairs();
+        }
+        if (this.pairs.length === 0) {
+            this.pairs = [createDefaultPair()];
+        }
+    }
+
+    private readStatePairs(): SyncPair[] {
+        const pairs = this.state.get<SyncPair[]>(PAIRS_KEY);
+        if (Array.isArray(pairs) && pairs.length > 0) {
+            // Fill in options added after the pair was saved
+            return pairs.map(p => ({ ...createPair(p.name), ...p }));
+        }
+        return [this.migrateLegacyPair()];
+    }
+
+    private persist(): Promise<void> {
+        const folder = getWorkspaceFolder();
+        const pairs = this.getPairs();
+        if (this.storage === 'file') {
+            const filePath = this.getConfigFilePath();
+            const file: WorkspaceConfigFile = { ...this.fileContent, pairs: pairsToConfig(pairs, folder, this.fileContent?.pairs) };
+            this.fileContent = file;
+            return this.runWrite(async () => {
+                if (!filePath) return;
+                await fsPromises.writeFile(filePath, JSON.stringify(file, null, 2) + '\n', 'utf8');
+            });
+        }
+        if (this.storage === 'settings') {
+            const config = vscode.workspace.getConfiguration('godotSync');
+            const previous = config.get<PairConfig[]>(PAIRS_SETTING) || [];
+            const value = pairsToConfig(pairs, folder, previous);
+            return this.runWrite(async () => {
+                await config.update(PAIRS_SETTING, value, vscode.ConfigurationTarget.Workspace);
+            });
+        }
+        return this.runWrite(async () => {
+            await this.state.update(PAIRS_KEY, pairs);
+        });
+    }
+
+    // Writes run one after the other so the file or setting always ends with the latest pairs
+    private runWrite(write: () => Promise<void>): Promise<void> {
+        this.pendingWrites++;
+        const result = this.writeChain.then(write).finally(() => {
+            // Let the change events of this write arrive before reacting to external changes again
+            setTimeout(() => { this.pendingWrites--; }, 500);
+        });
+        this.writeChain = result.catch(() => undefined);
+        return result;
+    }
+
+    private migrateLegacyPair(): SyncPair {
+        return createPair('Default', {
+            id: DEFAULT_PAIR_ID,
+            sourceDir: this.state.get<string>(LEGACY_SOURCE_DIR_KEY, ''),
+            targetDir: this.state.get<string>(LEGACY_TARGET_DIR_KEY, ''),
+            extensions: this.state.get<string>(LEGACY_EXTENSIONS_KEY, DEFAULT_EXTENSIONS),
+            allowDeletion: this.state.get<boolean>(LEGACY_ALLOW_DELETION_KEY, false),
+            includeHidden: this.state.get<boolean>(LEGACY_INCLUDE_HIDDEN_KEY, false),
+            usePolling: this.state.get<boolean>(LEGACY_USE_POLLING_KEY, false),
+            syncImportFiles: this.getLegacySyncImportFiles(),
+            preset: this.state.get<string>(LEGACY_PRESET_KEY, 'none')
+        });
+    }
+
+    private getLegacySyncImportFiles(): boolean {
+        const existing = this.state.get<boolean>(LEGACY_SYNC_IMPORT_FILES_KEY);
+        if (typeof existing === 'boolean') return existing;
+        // Migration rule: if the saved Extensions include .import, enable; if unknown/unsaved, default OFF (conservative)
+        const savedExtensions = this.state.get<string>(LEGACY_EXTENSIONS_KEY);
+        if (typeof savedExtensions === 'string') {
+            return savedExtensions.toLowerCase().includes('.import');
+        }
+        return false;
+    }
+}
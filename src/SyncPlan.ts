@@ -0,0 +1,56 @@
+export type SyncPlanAction = 'create' | 'overwrite' | 'skip' | 'delete';
+
+export interface SyncPlanEntry {
+    action: SyncPlanAction;
+    relativePath: string;
+    /** Absent for deletions (the source file no longer exists). */
+    sourcePath?: string;
+    targetPath: string;
+    /** Why a file is skipped, or what changed for copies. */
+    reason?: string;
+    /** When the source file was last synced, if ever. */
+    syncedAt?: number;
+}
+
+export interface SyncPlan {
+    sourceDir: string;
+    targetDir: string;
+    allowDeletion: boolean;
+    entries: SyncPlanEntry[];
+    createdAt: number;
+}
+
+export interface SyncResult {
+    copied: number;
+    skipped: number;
+    deleted: number;
+    failed: number;
+}
+
+export function emptyResult(): SyncResult {
+    return { copied: 0, skipped: 0, deleted: 0, failed: 0 };
+}
+
+export function countActions(plan: SyncPlan): Record<SyncPlanAction, number> {
+    const counts: Record<SyncPlanAction, number> = { create: 0, overwrite: 0, skip: 0, delete: 0 };
+    for (const entry of plan.entries) {
+        counts[entry.action]++;
+    }
+    return counts;
+}
+
+export function formatResult(result: SyncResult): string {
+    return `${result.copied} copied, ${result.skipped} skipped, ${result.deleted} deleted, ${result.failed} failed`;
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import { SyncPlan, SyncPlanEntry, countActions } from './SyncPlan';
+import { getNonce } from './webviewUtils';
+
+type ApplyFunction = (entries: SyncPlanEntry[]) => Promise<void>;
+
+/**
+ * Editor panel listing a dry-run plan. Entries can be unchecked before applying,
+ * and each one links to a diff between source and target.
+ */
+export class SyncPreviewPanel {
+
+    public static readonly viewType = 'godotSyncPreview';
+
+    private static current: SyncPreviewPanel | undefined;
+
+    private readonly panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+    private plan: SyncPlan;
+    private onApply: ApplyFunction;
+    private isApplying = false;
+
+    public static show(extensionUri: vscode.Uri, title: string, plan: SyncPlan, onApply: ApplyFunction): void {
+        if (SyncPreviewPanel.current) {
+            SyncPreviewPanel.current.update(title, plan, onApply);
+            SyncPreviewPanel.current.panel.reveal(vscode.ViewColumn.Active);
+            return;
+        }
+        const panel = vscode.window.createWebviewPanel(SyncPreviewPanel.viewType, title, vscode.ViewColumn.Active, {
+            enableScripts: true,
+            localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'out', 'webview')]
+        });
+        SyncPreviewPanel.current = new SyncPreviewPanel(panel, extensionUri, title, plan, onApply);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, title: string, plan: SyncPlan, onApply: ApplyFunction) {
+        this.panel = panel;
+        this.plan = plan;
+        this.onApply = onApply;
+        this.panel.webview.html = this.getHtml(panel.webview, extensionUri);
+
+        this.panel.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'previewLoaded':
+                    this.postPlan(title);
+                    break;
+                case 'openDiff':
+                    this.openDiff(this.plan.entries[message.data]);
+                    break;
+                case 'apply':
+                    this.apply(message.data);
+                    break;
+            }
+        }, null, this.disposables);
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    }
+
+    private update(title: string, plan: SyncPlan, onApply: ApplyFunction): void {
+        this.plan = plan;
+        this.onApply = onApply;
+        this.panel.title = title;
+        this.postPlan(title);
+    }
+
+    private postPlan(title: string): void {
+        this.panel.webview.postMessage({
+            command: 'plan',
+            data: {
+                title,
+                sourceDir: this.plan.sourceDir,
+                targetDir: this.plan.targetDir,
+                allowDeletion: this.plan.allowDeletion,
+                counts: countActions(this.plan),
+                entries: this.plan.entries.map(e => ({ action: e.action, relativePath: e.relativePath, reason: e.reason }))
+            }
+        });
+    }
+
+    private async openDiff(entry: SyncPlanEntry | undefined): Promise<void> {
+        if (!entry) return;
+        const targetUri = vscode.Uri.file(entry.targetPath);
+        if (entry.action === 'delete' || !entry.sourcePath) {
+            await vscode.commands.executeCommand('vscode.open', targetUri);
+            return;
+        }
+        const sourceUri = vscode.Uri.file(entry.sourcePath);
+        if (entry.action === 'create') {
+            await vscode.commands.executeCommand('vscode.open', sourceUri);
+            return;
+        }
+        await vscode.commands.executeCommand('vscode.diff', targetUri, sourceUri, `${entry.relativePath} (Target ↔ Source)`);
+    }
+
+    private async apply(indices: unknown): Promise<void> {
+        if (this.isApplying || !Array.isArray(indices)) return;
+        const selected = indices
+            .map(i => this.plan.entries[Number(i)])
+            .filter((e): e is SyncPlanEntry => !!e && e.action !== 'skip');
+        if (selected.length === 0) {
+            vscode.window.showInformationMessage('Godot Sync: Nothing selected to apply.');
+            return;
+        }
+        const deletions = selected.filter(e => e.action === 'delete').length;
+        if (deletions > 0) {
+            const choice = await vscode.window.showWarningMessage(
+                `Apply ${selected.length} changes including ${deletions} deletions in the target?`,
+                { modal: true },
+                'Apply'
+            );
+            if (choice !== 'Apply') return;
+        }
+        this.isApplying = true;
+        this.panel.webview.postMessage({ command: 'applying' });
+        try {
+            await this.onApply(selected);
+        } catch (error: unknown) {
+            // Keep the panel so the selection can be applied again
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Godot Sync: Could not apply the preview - ${msg}`);
+            this.panel.webview.postMessage({ command: 'applyFailed' });
+            return;
+        } finally {
+            this.isApplying = false;
+        }
+        this.panel.dispose();
+    }
+
+    private dispose(): void {
+        SyncPreviewPanel.current = undefined;
+        while (this.disposables.length) {
+            const d = this.disposables.pop();
+            if (d) d.dispose();
+        }
+    }
+
+    private getHtml(webview: vscode.Webview, extensionUri: vscode.Uri): string {
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'preview.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'preview.css'));
+        const nonce = getNonce();
+
+        return `<!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="
+                    default-src 'none';
+                    style-src ${webview.cspSource} 'unsafe-inline';
+                    script-src 'nonce-${nonce}';
+                ">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <link href="${styleUri}" rel="stylesheet">
+                <title>Godot Sync Preview</title>
+            </head>
+            <body>
+                <h2 id="planTitle">Sync Preview</h2>
+                <div id="planPaths" class="plan-paths"></div>
+                <div id="planSummary" class="plan-summary"></div>
+                <div class="plan-toolbar">
+                    <button id="selectAll" class="button-secondary">Select all</button>
+                    <button id="selectNone" class="button-secondary">Select none</button>
+                    <label class="checkbox"><input type="checkbox" id="showSkipped" /> <span>Show skipped</span></label>
+                    <button id="applyPlan">Apply selected</button>
+                </div>
+                <table id="planTable">
+                    <thead>
+                        <tr><th></th><th>Action</th><th>File</th><th>Reason</th><th></th></tr>
+                    </thead>
+                    <tbody id="planRows"></tbody>
+                </table>
+                <script nonce="${nonce}" src="${scriptUri}"></script>
+            </body>
+            </html>`;
+    }
+}
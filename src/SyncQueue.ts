@@ -0,0 +1,190 @@
+export interface QueuedOperation {
+    /** Operations with the same key are coalesced and never run concurrently. */
+    key: string;
+    eventType: 'add' | 'change' | 'unlink';
+}
+
+export interface SyncQueueStats {
+    /** Operations waiting to run. */
+    pending: number;
+    /** Operations running right now. */
+    active: number;
+    processed: number;
+    /** Events merged into an operation that was already waiting. */
+    coalesced: number;
+    /** Operations completed per second over the last few seconds. */
+    throughput: number;
+    /** Waiting operations are held back until resume(). */
+    paused: boolean;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+const THROUGHPUT_WINDOW_MS = 5000;
+
+type Waiter<R> = (result: R | undefined) => void;
+
+/**
+ * Work queue for file events. Repeated events for a waiting path are merged (the last one wins,
+ * an unlink followed by an add becomes a change), different paths run in parallel up to the
+ * concurrency limit, and operations on one path always run one after the other.
+ */
+export class SyncQueue<T extends QueuedOperation, R = void> {
+    private pending = new Map<string, T>();
+    private active = new Set<string>();
+    // Callers waiting for the pending or the running operation of a path
+    private pendingWaiters = new Map<string, Waiter<R>[]>();
+    private activeWaiters = new Map<string, Waiter<R>[]>();
+    private processed = 0;
+    private coalesced = 0;
+    private completions: number[] = [];
+    private idleWaiters: (() => void)[] = [];
+    private paused = false;
+
+    constructor(
+        private readonly worker: (operation: T) => Promise<R>,
+        private readonly concurrency: number = DEFAULT_CONCURRENCY,
+        private readonly onChange?: (stats: SyncQueueStats) => void
+    ) {}
+
+    /**
+     * Queues an operation. The promise resolves with the worker's result once the operation, or the
+     * one it was merged into, has run; with undefined when it was dropped or the worker threw.
+     */
+    public push(operation: T): Promise<R | undefined> {
+        const waiting = this.pending.get(operation.key);
+        if (waiting) {
+            this.coalesced++;
+            this.pending.set(operation.key, this.merge(waiting, operation));
+        } else {
+            this.pending.set(operation.key, operation);
+        }
+        const done = new Promise<R | undefined>(resolve => this.addWaiter(this.pendingWaiters, operation.key, resolve));
+        this.notify();
+        this.pump();
+        return done;
+    }
+
+    /** Holds back waiting operations; new events keep being merged into them. Running operations finish. */
+    public pause(): void {
+        if (this.paused) return;
+        this.paused = true;
+        this.notify();
+    }
+
+    public resume(): void {
+        if (!this.paused) return;
+        this.paused = false;
+        this.notify();
+        this.pump();
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    /** Drops everything still waiting; running operations finish on their own. */
+    public clear(): void {
+        this.pending.clear();
+        const waiters = [...this.pendingWaiters.values()];
+        this.pendingWaiters.clear();
+        waiters.forEach(list => list.forEach(resolve => resolve(undefined)));
+        this.notify();
+        this.resolveIdle();
+    }
+
+    public get size(): number {
+        return this.pending.size + this.active.size;
+    }
+
+    public getStats(): SyncQueueStats {
+        const now = Date.now();
+        this.completions = this.completions.filter(t => now - t < THROUGHPUT_WINDOW_MS);
+        return {
+            pending: this.pending.size,
+            active: this.active.size,
+            processed: this.processed,
+            coalesced: this.coalesced,
+            throughput: Math.round((this.completions.length / (THROUGHPUT_WINDOW_MS / 1000)) * 10) / 10,
+            paused: this.paused
+        };
+    }
+
+    /** Resolves once nothing is waiting or running. */
+    public whenIdle(): Promise<void> {
+        if (this.size === 0) return Promise.resolve();
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+
+    /** Resolves once the operations waiting or running for these keys right now have run; later pushes are not awaited. */
+    public async whenSettled(keys: string[]): Promise<void> {
+        const waits: Promise<R | undefined>[] = [];
+        for (const key of new Set(keys)) {
+            const waiters = this.pending.has(key) ? this.pendingWaiters : this.active.has(key) ? this.activeWaiters : null;
+            if (waiters) {
+                waits.push(new Promise(resolve => this.addWaiter(waiters, key, resolve)));
+            }
+        }
+        await Promise.all(waits);
+    }
+
+    private merge(waiting: T, next: T): T {
+        if (waiting.eventType === 'unlink' && next.eventType !== 'unlink') {
+            // Deleted and created again before we got to it: the file was replaced
+            return { ...next, eventType: 'change' };
+        }
+        return next;
+    }
+
+    private pump(): void {
+        if (this.paused) return;
+        for (const [key, operation] of this.pending) {
+            if (this.active.size >= this.concurrency) break;
+            if (this.active.has(key)) continue;
+            this.pending.delete(key);
+            this.active.add(key);
+            const waiters = this.pendingWaiters.get(key);
+            this.pendingWaiters.delete(key);
+            if (waiters) this.activeWaiters.set(key, waiters);
+            this.run(operation);
+        }
+    }
+
+    private async run(operation: T): Promise<void> {
+        let result: R | undefined;
+        try {
+            result = await this.worker(operation);
+        } catch {
+            // The worker reports its own errors
+        } finally {
+            this.active.delete(operation.key);
+            const waiters = this.activeWaiters.get(operation.key) || [];
+            this.activeWaiters.delete(operation.key);
+            waiters.forEach(resolve => resolve(result));
+            this.processed++;
+            this.completions.push(Date.now());
+            this.notify();
+            this.pump();
+            if (this.size === 0) this.resolveIdle();
+        }
+    }
+
+    private addWaiter(waiters: Map<string, Waiter<R>[]>, key: string, resolve: Waiter<R>): void {
+        const list = waiters.get(key);
+        if (list) {
+            list.push(resolve);
+        } else {
+            waiters.set(key, [resolve]);
+        }
+    }
+
+    private resolveIdle(): void {
+        if (this.active.size > 0) return;
+        const waiters = this.idleWaiters;
+        this.idleWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+
+    private notify(): void {
+        this.onChange?.(this.getStats());
+    }
+}
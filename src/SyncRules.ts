@@ -0,0 +1,269 @@
+import { matchesExportFilter } from './GodotProject';
+
+export const IGNORE_FILE_NAME = '.godotsyncignore';
+
+// Directories Godot owns; never synced regardless of user rules
+const BUILTIN_IGNORED_DIRS = ['.godot', '.import'];
+
+// Metadata Godot keeps next to a resource (icon.png.import, player.gd.uid)
+export const GODOT_SIDECAR_SUFFIXES = ['.import', '.uid'];
+
+/** The sidecar suffix of a path like icon.png.import, or null when it is not a sidecar. */
+export function getSidecarSuffix(relPath: string): string | null {
+    const lower = relPath.toLowerCase();
+    const suffix = GODOT_SIDECAR_SUFFIXES.find(s => lower.endsWith(s));
+    if (!suffix) return null;
+    return extname(normalize(relPath).slice(0, -suffix.length)) ? suffix : null;
+}
+
+// Marker of the temporary files written during an atomic copy
+export const TEMP_FILE_MARKER = '.__godotsync_tmp_';
+
+export interface SyncRuleOptions {
+    extensions: string[];
+    includeHidden: boolean;
+    syncImportFiles: boolean;
+    /** Sync Godot 4.4+ .uid sidecars; defaults to true. */
+    syncUidFiles?: boolean;
+    /** Patterns a file must match to be synced (empty = everything). */
+    include?: string[];
+    /** Gitignore-style patterns configured in the panel. */
+    exclude?: string[];
+    /** Gitignore-style patterns read from .godotsyncignore. */
+    ignoreFile?: string[];
+    /** Folders ('/'-separated, '' for the root) holding a .gdignore file; Godot skips them entirely. */
+    gdignoreDirs?: string[];
+    /** Folder of the synced root inside the target Godot project ('' at its root, 'addons/tool/' below it). */
+    projectPath?: string | null;
+    /** exclude_filter globs from export_presets.cfg, matched against res:// paths. */
+    exportExclude?: string[];
+}
+
+type CompiledPattern = {
+    source: string;
+    negated: boolean;
+    dirOnly: boolean;
+    regex: RegExp;
+};
+
+/**
+ * Splits the contents of a gitignore-style file into patterns, dropping blanks and comments.
+ */
+export function parseIgnoreFile(content: string): string[] {
+    return content
+        .split(/\r?\n/)
+        .map(line => line.replace(/\s+$/, ''))
+        .filter(line => line.length > 0 && !line.startsWith('#'));
+}
+
+export function parsePatternList(value: string): string[] {
+    return value.split(',').map(s => s.trim()).filter(s => s.length > 0);
+}
+
+/**
+ * A root-anchored exclude pattern matching exactly one file or folder; wildcard characters in
+ * the name are wrapped in brackets so they match themselves.
+ */
+export function toExcludePattern(relPath: string, isFolder: boolean): string {
+    const escaped = relPath.split(/[\\/]/).join('/').replace(/[*?[]/g, c => `[${c}]`);
+    return `/${escaped}${isFolder ? '/' : ''}`;
+}
+
+function globToRegExp(glob: string): string {
+    let re = '';
+    let i = 0;
+    while (i < glob.length) {
+        const c = glob[i];
+        if (c === '*') {
+            if (glob[i + 1] === '*') {
+                const atSegmentStart = i === 0 || glob[i - 1] === '/';
+                if (atSegmentStart && glob[i + 2] === '/') {
+                    // "**/" matches zero or more directories
+                    re += '(?:.*/)?';
+                    i += 3;
+                    continue;
+                }
+                re += '.*';
+                i += 2;
+                continue;
+            }
+            re += '[^/]*';
+        } else if (c === '?') {
+            re += '[^/]';
+        } else if (c === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end > i) {
+                let cls = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+                if (cls.startsWith('!')) cls = '^' + cls.slice(1);
+                re += `[${cls}]`;
+                i = end + 1;
+                continue;
+            }
+            re += '\\[';
+        } else if (c === '\\' && i + 1 < glob.length) {
+            re += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+            i += 2;
+            continue;
+        } else {
+            re += c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        }
+        i++;
+    }
+    return re;
+}
+
+function compilePattern(raw: string): CompiledPattern | null {
+    let pattern = raw.trim();
+    if (!pattern || pattern.startsWith('#')) return null;
+
+    let negated = false;
+    if (pattern.startsWith('!')) {
+        negated = true;
+        pattern = pattern.slice(1);
+    }
+    let dirOnly = false;
+    if (pattern.endsWith('/')) {
+        dirOnly = true;
+        pattern = pattern.replace(/\/+$/, '');
+    }
+    pattern = pattern.replace(/\\/g, '/');
+    if (!pattern) return null;
+
+    // Like gitignore: a pattern without a slash matches at any depth, otherwise it is anchored to the root
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+    const body = globToRegExp(pattern);
+    const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}$`);
+
+    return { source: raw, negated, dirOnly, regex };
+}
+
+function compileAll(patterns: string[] | undefined): CompiledPattern[] {
+    return (patterns || []).map(compilePattern).filter((p): p is CompiledPattern => p !== null);
+}
+
+/**
+ * Returns the last pattern matching the path or one of its parent directories, or undefined.
+ */
+function lastMatch(patterns: CompiledPattern[], relPath: string, isDir: boolean): CompiledPattern | undefined {
+    const segments = relPath.split('/');
+    let result: CompiledPattern | undefined;
+    for (const pattern of patterns) {
+        let matched = false;
+        for (let depth = 1; depth <= segments.length && !matched; depth++) {
+            const candidate = segments.slice(0, depth).join('/');
+            const candidateIsDir = depth < segments.length || isDir;
+            if (pattern.dirOnly && !candidateIsDir) continue;
+            matched = pattern.regex.test(candidate);
+        }
+        if (matched) result = pattern;
+    }
+    return result;
+}
+
+/**
+ * Single rule engine shared by the watcher, the initial walk and the sync queue,
+ * so that all three always agree on which paths are synced.
+ * Paths are relative to the source root; either separator is accepted.
+ */
+export class SyncRules {
+    private readonly extensions: string[];
+    private readonly include: CompiledPattern[];
+    private readonly exclude: CompiledPattern[];
+    private readonly canPruneExcludedDirs: boolean;
+    private readonly gdignoreDirs: string[];
+
+    constructor(private readonly options: SyncRuleOptions) {
+        this.extensions = options.extensions.map(ext => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase());
+        this.include = compileAll(options.include);
+        this.exclude = [...compileAll(options.exclude), ...compileAll(options.ignoreFile)];
+        // A negated exclude may re-include something below an excluded directory, so we can only prune without them
+        this.canPruneExcludedDirs = !this.exclude.some(p => p.negated);
+        this.gdignoreDirs = (options.gdignoreDirs || []).map(normalize);
+    }
+
+    // The folder with a .gdignore itself stays visible so the watcher notices the file being removed
+    private findGdignoreDir(rel: string): string | undefined {
+        return this.gdignoreDirs.find(dir => dir === '' || rel.startsWith(dir + '/'));
+    }
+
+    private toProjectLabel(rel: string): string {
+        const projectPath = this.options.projectPath;
+        if (projectPath === null || projectPath === undefined) return rel ? `${rel}/` : './';
+        return `res://${projectPath}${rel ? `${rel}/` : ''}`;
+    }
+
+    public get ruleCount(): number {
+        return this.include.length + this.exclude.length;
+    }
+
+    /**
+     * Whether a directory (or a path whose kind is unknown) can be skipped entirely,
+     * including everything below it.
+     */
+    public isIgnoredPath(relPath: string): boolean {
+        const rel = normalize(relPath);
+        if (!rel) return false;
+        const parts = rel.split('/');
+        if (parts.some(seg => BUILTIN_IGNORED_DIRS.includes(seg))) return true;
+        if (rel.includes(TEMP_FILE_MARKER)) return true;
+        if (this.findGdignoreDir(rel) !== undefined) return true;
+        if (!this.options.includeHidden && parts.some(seg => seg.startsWith('.'))) return true;
+        if (this.canPruneExcludedDirs) {
+            const match = lastMatch(this.exclude, rel, true);
+            if (match && !match.negated) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Whether a file should be synced. Returns the reason when it is not, or null when it is.
+     */
+    public getSkipReason(relPath: string): string | null {
+        const rel = normalize(relPath);
+        const parts = rel.split('/');
+        if (parts.slice(0, -1).some(seg => BUILTIN_IGNORED_DIRS.includes(seg))) return 'Godot internal directory';
+        if (rel.includes(TEMP_FILE_MARKER)) return 'temporary sync file';
+        const gdignoreDir = this.findGdignoreDir(rel);
+        if (gdignoreDir !== undefined) return `.gdignore in ${this.toProjectLabel(gdignoreDir)}`;
+        if (!this.options.includeHidden && parts.some(seg => seg.startsWith('.'))) return 'hidden file';
+
+        const sidecar = getSidecarSuffix(rel);
+        if (sidecar) {
+            if (sidecar === '.import' && !this.options.syncImportFiles) return '*.import sync disabled';
+            if (sidecar === '.uid' && this.options.syncUidFiles === false) return '*.uid sync disabled';
+            // A sidecar goes wherever its main file goes, whatever the extension list and include rules say
+            const mainReason = this.getSkipReason(rel.slice(0, -sidecar.length));
+            if (mainReason) return mainReason;
+        } else {
+            const ext = extname(rel);
+            if (!this.extensions.includes(ext)) return 'extension not selected';
+            if (ext === '.import' && !this.options.syncImportFiles) return '*.import sync disabled';
+
+            if (this.include.length > 0) {
+                const match = lastMatch(this.include, rel, false);
+                if (!match || match.negated) return 'not matched by include rules';
+            }
+        }
+        const excluded = lastMatch(this.exclude, rel, false);
+        if (excluded && !excluded.negated) return `excluded by rule "${excluded.source}"`;
+        const resPath = `res://${this.options.projectPath || ''}${rel}`;
+        const exportFilter = (this.options.exportExclude || []).find(filter => matchesExportFilter(resPath, filter));
+        if (exportFilter) return `export filter "${exportFilter}"`;
+        return null;
+    }
+
+    public shouldSyncFile(relPath: string): boolean {
+        return this.getSkipReason(relPath) === null;
+    }
+}
+
+function normalize(relPath: string): string {
+    return relPath.replace(/\\/g, '/').replace(/^\.\/+/, '').replace(/\/+$/, '');
+}
+
+function extname(relPath: string): string {
+    const base = relPath.slice(relPath.lastIndexOf('/') + 1);
+    const dot = base.lastIndexOf('.');
+    return dot > 0 ? base.slice(dot).toLowerCase() : '';
+}
@@ -1,17 +1,208 @@
 import * as vscode from 'vscode';
 import * as chokidar from 'chokidar';
 import * as fs from 'fs/promises';
+import { Stats } from 'fs';
 import * as path from 'path';
+import { EventEmitter } from 'events';
+import { GODOT_SIDECAR_SUFFIXES, IGNORE_FILE_NAME, SyncRules, TEMP_FILE_MARKER, getSidecarSuffix, parseIgnoreFile } from './SyncRules';
+import { ManifestSide, SyncManifest, buildManifestEntry, getManifestSide, hashFile } from './SyncManifest';
+import { SyncPlan, SyncPlanEntry, SyncResult, emptyResult } from './SyncPlan';
+import { ConflictResolution, SyncConflict, conflictCopyPath } from './SyncConflicts';
+import { GDIGNORE_FILE_NAME, checkTargetDir, findGdignoreDirs, findIgnoringAncestor, findProjectRoot, readExportFilters, readProjectInfo, toResPath } from './GodotProject';
+import { BackupEntry, BackupReason, BackupSide, BackupStore } from './SyncBackups';
+import { LogDetails, LogEntry, createLogEntry } from './SyncLog';
+import { QueuedOperation, SyncQueue, SyncQueueStats } from './SyncQueue';
+import { GitOperationWatcher, findGitDir } from './GitState';
+import { WorkspaceFileWatcher } from './WorkspaceFileWatcher';
+import { ReferenceEdit, ReferenceRewriteScope, ResourceMove, applyEditsToContent, findReferenceEdits } from './ResourceReferences';
 
-type LogFunction = (message: string) => void;
+type LogFunction = (message: string, entry: LogEntry) => void;
 type StatusFunction = (isRunning: boolean) => void;
-type SyncOperation = {
+type SyncEventType = 'add' | 'change' | 'unlink';
+/** push: source -> target; pull: target -> source (two-way mode only). */
+export type SyncDirection = 'push' | 'pull';
+export type SyncMode = 'oneWay' | 'twoWay';
+/**
+ * How .import/.uid sidecars follow their main file when it is copied, moved or deleted:
+ * always, only when the other side already has the sidecar, or never (sidecars are left alone).
+ */
+export type SidecarPolicy = 'always' | 'onlyIfPresent' | 'never';
+/** user: paused from a command or the panel; git: paused automatically while git rewrites the source. */
+export type PauseReason = 'user' | 'git';
+
+/**
+ * watcher: watch the folders on disk; onSave: only react to files saved, created, renamed or deleted in VS Code.
+ */
+export type SyncTrigger = 'watcher' | 'onSave';
+type SyncOperation = QueuedOperation & {
     filePath: string;
-    eventType: 'add' | 'change' | 'unlink';
+    direction: SyncDirection;
+    /** Overrides the pair's deletion setting, for plans applied with a confirmed mirror. */
+    allowDeletion?: boolean;
+};
+export type SyncOutcome = 'copied' | 'deleted' | 'skipped' | 'failed';
+
+export interface FileSyncResult {
+    relativePath: string;
+    direction: SyncDirection;
+    outcome: SyncOutcome;
+    /** Set when the outcome is 'failed'. */
+    error?: string;
+    /** File system error code of a failure (EBUSY, EACCES, ENOSPC, ...), or 'outsideRoot' for a blocked write. */
+    errorCode?: string;
+    /** Why the file was not synced, when the outcome is 'skipped'. */
+    reason?: string;
+}
+
+export interface FileSyncEvent {
+    relativePath: string;
+    direction: SyncDirection;
+    sourcePath: string;
+    targetPath: string;
+}
+
+/** Events emitted by a SyncService; subscribe with on(). */
+export interface SyncServiceEventMap {
+    fileSynced: FileSyncEvent;
+    fileDeleted: FileSyncEvent;
+    fileFailed: FileSyncEvent & { error: string };
+    stateChanged: boolean;
+}
+
+export interface SyncProgress {
+    phase: 'scanning' | 'syncing' | 'done' | 'cancelled';
+    totalFiles: number;
+    doneFiles: number;
+    totalBytes: number;
+    doneBytes: number;
+}
+
+type InitialSyncState = {
+    progress: SyncProgress;
+    /** Files and bytes still expected per queue key. */
+    remaining: Map<string, { files: number; bytes: number }>;
+    cancelled: boolean;
+    lastReport: number;
 };
+type CopyDecision =
+    | { action: 'skip'; reason: string }
+    | { action: 'copy'; reason: 'new' | 'changed'; hash: string }
+    | { action: 'conflict' }
+    // Two-way only: the destination copy was deleted since the last sync
+    | { action: 'removedOnOtherSide' };
+
+export interface SyncStartOptions {
+    /** Gitignore-style patterns a file must match to be synced (empty = all files). */
+    include?: string[];
+    /** Gitignore-style patterns for files that must not be synced. */
+    exclude?: string[];
+    /** Where the sync manifest is persisted; kept in memory only when omitted. */
+    manifestPath?: string;
+    /** twoWay also watches the target and propagates its changes back to the source. */
+    mode?: SyncMode;
+    /** Where res:// references to moved files are looked up and rewritten. */
+    rewriteReferences?: ReferenceRewriteScope;
+    /** Also skip files matched by the exclude_filter of the target project's export presets. */
+    useExportFilters?: boolean;
+    /** Defaults to 'always'. */
+    sidecarPolicy?: SidecarPolicy;
+    /** Defaults to 'watcher'. */
+    trigger?: SyncTrigger;
+    /** Pause while a checkout, commit, merge or rebase is running in the source's git repository. */
+    pauseDuringGitOperations?: boolean;
+    /** Keeps the previous version of every file the sync overwrites or deletes; no backups when omitted. */
+    backups?: BackupStore;
+}
+
+export interface SyncConfig extends SyncStartOptions {
+    sourceDir: string;
+    targetDir: string;
+    extensions: string[];
+    allowDeletion: boolean;
+    includeHidden?: boolean;
+    usePolling?: boolean;
+    syncImportFiles?: boolean;
+    syncUidFiles?: boolean;
+}
+
+export interface SyncServiceOptions {
+    /** Target directories already claimed by other sync pairs; a new start must not overlap them. */
+    getReservedTargets?: () => string[];
+    /** Called whenever the set of unresolved conflicts changes. */
+    onConflictsChanged?: (conflicts: SyncConflict[]) => void;
+    /** Called with the res:// reference rewrites proposed after files moved; apply with applyReferenceEdits(). */
+    onReferenceEdits?: (edits: ReferenceEdit[]) => void;
+    /** Called when syncing is paused or resumed, with the reason while paused. */
+    onPauseChanged?: (reason: PauseReason | null) => void;
+    /** Called whenever the sync queue grows or an operation completes. */
+    onQueueChanged?: (stats: SyncQueueStats) => void;
+    /** Maximum number of files copied in parallel. */
+    concurrency?: number;
+    /** Progress of the initial sync and of full rescans; cancel with cancelInitialSync(). */
+    onProgress?: (progress: SyncProgress) => void;
+    /** Called after each file operation, including skips. */
+    onFileResult?: (result: FileSyncResult) => void;
+    /** Called when a file change is queued for syncing. */
+    onFileQueued?: (relativePath: string, direction: SyncDirection) => void;
+}
+
+// Own writes are remembered this long so the watcher on the other side can drop their echo events
+const ECHO_WINDOW_MS = 5000;
+// A rename arrives as unlink + add; unlinks wait this long for a matching add before being applied
+const MOVE_WINDOW_MS = 1500;
+// Progress callbacks are throttled to this interval
+const PROGRESS_INTERVAL_MS = 100;
+// Moves of a folder arrive one file at a time; references are looked up once the burst is over
+const REFERENCE_SCAN_DELAY_MS = 1000;
+
+// True when both paths are the same directory or one contains the other
+export function pathsOverlap(a: string, b: string): boolean {
+    const normalize = (p: string) => {
+        const resolved = path.resolve(p);
+        return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+    };
+    const aN = normalize(a);
+    const bN = normalize(b);
+    const isSubPath = (x: string, y: string) => x.startsWith(y + path.sep);
+    return aN === bN || isSubPath(aN, bN) || isSubPath(bN, aN);
+}
+
+/**
+ * The path mirroring filePath (below fromRoot) on the other side of a pair,
+ * or null when it would end up outside toRoot.
+ */
+export function toCounterpartPath(fromRoot: string, toRoot: string, filePath: string): string | null {
+    const destPath = path.join(toRoot, path.relative(fromRoot, filePath));
+    const resolvedRoot = path.resolve(toRoot);
+    const resolvedPath = path.resolve(destPath);
+    return resolvedPath === resolvedRoot || resolvedPath.startsWith(resolvedRoot + path.sep) ? destPath : null;
+}
+
+const SIDECAR_WITHOUT_MAIN = 'sidecar without its main file';
+export const CONFLICT_REASON = 'conflict: source and target both changed';
+
+async function pathExists(p: string): Promise<boolean> {
+    try {
+        await fs.stat(p);
+        return true;
+    } catch {
+        return false;
+    }
+}
 
 export class SyncService {
     private watcher: chokidar.FSWatcher | null = null;
+    private targetWatcher: chokidar.FSWatcher | null = null;
+    private workspaceWatcher: WorkspaceFileWatcher | null = null;
+    private trigger: SyncTrigger = 'watcher';
+    private mode: SyncMode = 'oneWay';
+    private rewriteReferences: ReferenceRewriteScope = 'off';
+    private targetProjectRoot: string | null = null;
+    private gdignoreDirs: string[] = [];
+    private exportFilters: string[] = [];
+    private pendingMoves: ResourceMove[] = [];
+    private referenceScanTimer: NodeJS.Timeout | null = null;
+    private recentWrites = new Map<string, { mtimeMs: number; size: number; deleted: boolean; expires: number }>();
     private sourceDir: string | null = null;
     private targetDir: string | null = null;
     private extensions: string[] = [];
@@ -19,97 +210,126 @@ export class SyncService {
     private includeHidden = false;
     private usePolling = false;
     private syncImportFiles = true;
+    private syncUidFiles = true;
+    private sidecarPolicy: SidecarPolicy = 'always';
+    private pauseDuringGitOperations = false;
+    private gitWatcher: GitOperationWatcher | null = null;
+    private pausedByUser = false;
+    private pausedForGit = false;
+    private pauseReason: PauseReason | null = null;
+    private includePatterns: string[] = [];
+    private excludePatterns: string[] = [];
+    private ignoreFilePatterns: string[] = [];
+    private rules: SyncRules | null = null;
+    private manifest: SyncManifest | null = null;
+    private backups: BackupStore | null = null;
+    private conflicts = new Map<string, SyncConflict>();
     private isRunning = false;
-    private log: LogFunction;
+    private log: (message: string, details?: LogDetails) => void;
     private updateStatus: StatusFunction;
+    private options: SyncServiceOptions;
+
+    private queue: SyncQueue<SyncOperation, SyncOutcome>;
+    private initialSyncState: InitialSyncState | null = null;
+    // Error of the failed operation per path; operations on one path never overlap
+    private fileErrors = new Map<string, { message: string; code?: string }>();
+    private skipReasons = new Map<string, string>();
+    private pendingUnlinks = new Map<string, { operation: SyncOperation; timer: NodeJS.Timeout }>();
+    private readonly events = new EventEmitter();
+
+    constructor(logCallback: LogFunction, statusCallback: StatusFunction, options: SyncServiceOptions = {}) {
+        this.log = (message, details) => {
+            const entry = createLogEntry(message, details);
+            logCallback(`[${new Date(entry.timestamp).toLocaleTimeString()}] ${message}`, entry);
+        };
+        this.updateStatus = (isRunning) => {
+            statusCallback(isRunning);
+            this.emit('stateChanged', isRunning);
+        };
+        this.options = options;
+        this.queue = new SyncQueue<SyncOperation, SyncOutcome>(
+            (operation) => this.processOperation(operation),
+            options.concurrency,
+            options.onQueueChanged
+        );
+    }
 
-    private syncQueue: SyncOperation[] = [];
-    private isProcessingQueue = false;
+    /** Subscribes to an event; call the returned function to unsubscribe. */
+    public on<K extends keyof SyncServiceEventMap>(event: K, listener: (payload: SyncServiceEventMap[K]) => void): () => void {
+        this.events.on(event, listener);
+        return () => {
+            this.events.off(event, listener);
+        };
+    }
+
+    private emit<K extends keyof SyncServiceEventMap>(event: K, payload: SyncServiceEventMap[K]): void {
+        for (const listener of this.events.listeners(event)) {
+            try {
+                listener(payload);
+            } catch (err: unknown) {
+                // A failing subscriber must not break the sync
+                const msg = err instanceof Error ? err.message : String(err);
+                this.log(`Warning: ${event} listener failed: ${msg}`, { level: 'warn' });
+            }
+        }
+    }
 
-    constructor(logCallback: LogFunction, statusCallback: StatusFunction) {
-        this.log = (message) => {
-            const timestamp = new Date().toLocaleTimeString();
-            logCallback(`[${timestamp}] ${message}`);
+    private toFileEvent(relativePath: string, direction: SyncDirection): FileSyncEvent {
+        return {
+            relativePath: relativePath.split(path.sep).join('/'),
+            direction,
+            sourcePath: path.join(this.sourceDir || '', relativePath),
+            targetPath: path.join(this.targetDir || '', relativePath)
         };
-        this.updateStatus = statusCallback;
     }
 
-    public start(sourceDir: string, targetDir: string, extensions: string[], allowDeletion: boolean, includeHidden?: boolean, usePolling?: boolean, syncImportFiles?: boolean): boolean {
+    public start(sourceDir: string, targetDir: string, extensions: string[], allowDeletion: boolean, includeHidden?: boolean, usePolling?: boolean, syncImportFiles?: boolean, startOptions: SyncStartOptions = {}): boolean {
+        return this.startWithConfig({ ...startOptions, sourceDir, targetDir, extensions, allowDeletion, includeHidden, usePolling, syncImportFiles });
+    }
+
+    public startWithConfig(config: SyncConfig): boolean {
         if (this.isRunning) {
             this.log('Sync service is already running.');
             return false;
         }
 
-        if (!sourceDir || !targetDir || extensions.length === 0) {
-            this.log('Error: Source directory, target directory, and extensions must be configured.');
-            vscode.window.showErrorMessage('Godot Sync: Source, target, and extensions must be set.');
+        const problem = this.validateConfig(config);
+        if (problem) {
+            this.log(`Error: ${problem}`, { action: 'error' });
+            vscode.window.showErrorMessage(`Godot Sync: ${problem}`);
             return false;
         }
 
-		// Safety: prevent recursive or overlapping paths (Source == Target, or one contains the other)
-		try {
-			const resolvedSource = path.resolve(sourceDir);
-			const resolvedTarget = path.resolve(targetDir);
-			const normalize = (p: string) => process.platform === 'win32' ? p.toLowerCase() : p;
-			const srcN = normalize(resolvedSource);
-			const dstN = normalize(resolvedTarget);
-			const isEqual = srcN === dstN;
-			const isSubPath = (a: string, b: string) => a.startsWith(b + path.sep);
-			if (isEqual || isSubPath(srcN, dstN) || isSubPath(dstN, srcN)) {
-				this.log('Error: Source and Target must not overlap or be the same directory.');
-				vscode.window.showErrorMessage('Godot Sync: Source and Target must not overlap or be the same directory.');
-				return false;
-			}
-		} catch (_e) {
-			// ignore normalization errors; stat will handle
-		}
-
-        Promise.all([fs.stat(sourceDir), fs.stat(targetDir)])
-            .then(([sourceStats, targetStats]) => {
-                if (!sourceStats.isDirectory() || !targetStats.isDirectory()) {
-                    throw new Error('Source and Target paths must be directories.');
-                }
-
-				this.sourceDir = sourceDir;
-				this.targetDir = targetDir;
-				this.extensions = extensions.map(ext => ext.startsWith('.') ? ext : `.${ext}`);
-				this.allowDeletion = allowDeletion;
-				this.includeHidden = !!includeHidden;
-
+        this.applyConfig(config)
+            .then(async () => {
                 this.log(`Starting watcher on: ${this.sourceDir}`);
                 this.log(`Target directory: ${this.targetDir}`);
+                await this.logTargetProject();
                 this.log(`Watching extensions: ${this.extensions.join(', ')}`);
                 this.log(`File deletion is ${this.allowDeletion ? 'ENABLED' : 'DISABLED'}.`);
+                if (this.mode === 'twoWay') {
+                    this.log('Two-way mode: target changes are synced back to the source.');
+                }
+                if (this.trigger === 'onSave') {
+                    this.log('Sync on save: only files saved, created, renamed or deleted in VS Code are synced.');
+                }
+                if (this.manifest && this.manifest.size > 0) {
+                    this.log(`Loaded sync manifest (${this.manifest.size} files).`);
+                }
+                if (this.includePatterns.length > 0 || this.excludePatterns.length > 0) {
+                    this.log(`Rules: ${this.includePatterns.length} include, ${this.excludePatterns.length} exclude.`);
+                }
+                await this.startGitWatcher();
 
-                this.usePolling = !!usePolling;
-                this.syncImportFiles = syncImportFiles === undefined ? true : !!syncImportFiles;
-
-                this.watcher = chokidar.watch(this.sourceDir, {
-                    // Always ignore Godot's internal cache directories
-                    // Also optionally ignore dotfiles unless includeHidden is true
-                    ignored: (p: string) => this.shouldIgnorePath(p),
-                    persistent: true,
-                    depth: undefined,
-                    usePolling: this.usePolling,
-                    awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
-                    followSymlinks: false,
+                this.createWatchers(() => {
+                    this.log('Watcher ready.');
+                    this.isRunning = true;
+                    this.updateStatus(this.isRunning);
+                    this.initialSync();
                 });
-
-                this.watcher
-                    .on('add', (filePath) => this.addToQueue(filePath, 'add'))
-                    .on('change', (filePath) => this.addToQueue(filePath, 'change'))
-                    .on('unlink', (filePath) => this.addToQueue(filePath, 'unlink'))
-                    .on('error', (error) => this.handleError(error))
-                    .on('ready', () => {
-                        this.log('Watcher ready.');
-                        this.isRunning = true;
-                        this.updateStatus(this.isRunning);
-                        this.initialSync();
-                    });
-
             })
             .catch(error => {
-                this.log(`Error starting watcher: ${error.message}`);
+                this.log(`Error starting watcher: ${error.message}`, { action: 'error' });
                 vscode.window.showErrorMessage(`Godot Sync: Error starting - ${error.message}`);
                 this.stop();
             });
@@ -117,24 +337,471 @@ export class SyncService {
         return true;
     }
 
+    /**
+     * Loads the configuration, rules and manifest without starting the watcher,
+     * for previews and one-off passes. Call release() when done.
+     */
+    public async prepare(config: SyncConfig): Promise<void> {
+        const problem = this.validateConfig(config);
+        if (problem) {
+            throw new Error(problem);
+        }
+        await this.applyConfig(config);
+    }
+
+    public async release(): Promise<void> {
+        await this.flushManifest();
+        this.manifest = null;
+    }
+
+    private validateConfig(config: SyncConfig): string | null {
+        const { sourceDir, targetDir, extensions } = config;
+        if (!sourceDir || !targetDir || extensions.length === 0) {
+            return 'Source directory, target directory, and extensions must be configured.';
+        }
+
+		// Safety: prevent recursive or overlapping paths (Source == Target, or one contains the other)
+		try {
+			if (pathsOverlap(sourceDir, targetDir)) {
+				return 'Source and Target must not overlap or be the same directory.';
+			}
+			const reserved = this.options.getReservedTargets ? this.options.getReservedTargets() : [];
+			const clash = reserved.find(other => pathsOverlap(targetDir, other));
+			if (clash) {
+				return `Target overlaps with the target of another running sync pair: ${clash}`;
+			}
+		} catch (_e) {
+			// ignore normalization errors; stat will handle
+		}
+        return null;
+    }
+
+    private async applyConfig(config: SyncConfig): Promise<void> {
+        const { sourceDir, targetDir } = config;
+        const [sourceStats, targetStats] = await Promise.all([fs.stat(sourceDir), fs.stat(targetDir)]);
+        if (!sourceStats.isDirectory() || !targetStats.isDirectory()) {
+            throw new Error('Source and Target paths must be directories.');
+        }
+
+        this.sourceDir = sourceDir;
+        this.targetDir = targetDir;
+        this.extensions = config.extensions.map(ext => ext.startsWith('.') ? ext : `.${ext}`);
+        this.allowDeletion = config.allowDeletion;
+        this.includeHidden = !!config.includeHidden;
+        this.usePolling = !!config.usePolling;
+        this.syncImportFiles = config.syncImportFiles === undefined ? true : !!config.syncImportFiles;
+        this.syncUidFiles = config.syncUidFiles === undefined ? true : !!config.syncUidFiles;
+        this.sidecarPolicy = config.sidecarPolicy || 'always';
+        this.trigger = config.trigger || 'watcher';
+        this.pauseDuringGitOperations = !!config.pauseDuringGitOperations;
+        this.includePatterns = config.include || [];
+        this.excludePatterns = config.exclude || [];
+        this.mode = config.mode || 'oneWay';
+        this.rewriteReferences = config.rewriteReferences || 'off';
+        this.targetProjectRoot = await findProjectRoot(targetDir);
+        this.exportFilters = config.useExportFilters && this.targetProjectRoot ? await readExportFilters(this.targetProjectRoot) : [];
+        await this.loadGdignoreDirs();
+
+        await this.loadIgnoreFile();
+        this.rebuildRules();
+        this.manifest = await SyncManifest.load(config.manifestPath, sourceDir, targetDir);
+        this.backups = config.backups || null;
+        if (this.backups) {
+            await this.backups.prune().catch(() => { /* retried on the next backup */ });
+        }
+    }
+
+    private async logTargetProject(): Promise<void> {
+        if (!this.targetDir) return;
+        const warning = await checkTargetDir(this.targetDir);
+        if (warning) {
+            this.log(`Warning: ${warning}`, { level: 'warn' });
+        }
+        if (this.targetProjectRoot) {
+            try {
+                const info = await readProjectInfo(this.targetProjectRoot);
+                this.log(`Godot project: ${info.name} (Godot ${info.version}), res:// = ${info.root}`);
+            } catch { /* unreadable project.godot: paths still map to res:// */ }
+            const ignoredBy = await findIgnoringAncestor(this.targetProjectRoot, this.targetDir);
+            if (ignoredBy) {
+                this.log(`Warning: Godot ignores the target folder (.gdignore in ${ignoredBy}).`, { level: 'warn' });
+            }
+        }
+        this.logGdignoreDirs();
+        if (this.exportFilters.length > 0) {
+            this.log(`Export filters: ${this.exportFilters.join(', ')}`);
+        }
+    }
+
+    private logGdignoreDirs(): void {
+        const rules = this.getRules();
+        for (const dir of this.gdignoreDirs) {
+            // Any path below the folder gives the folder's reason
+            this.log(`Skipped: ${rules.getSkipReason(dir ? `${dir}/${GDIGNORE_FILE_NAME}` : GDIGNORE_FILE_NAME)}`, { action: 'skipped', path: dir });
+        }
+    }
+
+    // .gdignore folders of both trees: Godot would skip them in the source project and in the target
+    private async loadGdignoreDirs(): Promise<void> {
+        const roots = [this.sourceDir, this.targetDir].filter((r): r is string => !!r);
+        const found = new Set<string>();
+        for (const root of roots) {
+            for (const dir of await findGdignoreDirs(root)) {
+                found.add(dir);
+            }
+        }
+        this.gdignoreDirs = [...found].sort();
+    }
+
+    private async reloadGdignoreDirs(): Promise<void> {
+        const previous = this.gdignoreDirs.join('\n');
+        await this.loadGdignoreDirs();
+        if (previous === this.gdignoreDirs.join('\n')) return;
+        this.rebuildRules();
+        this.logGdignoreDirs();
+        await this.rescan(`${GDIGNORE_FILE_NAME} changed, rescanning.`);
+    }
+
+    // Paths in the log are shown as the target project sees them
+    private toDisplayPath(relativePath: string): string {
+        if (!this.targetProjectRoot || !this.targetDir) return relativePath;
+        return toResPath(this.targetProjectRoot, path.join(this.targetDir, relativePath));
+    }
+
+    private createWatchers(onReady: () => void): void {
+        if (!this.sourceDir || !this.targetDir) return;
+        if (this.trigger === 'onSave') {
+            this.workspaceWatcher = new WorkspaceFileWatcher((filePath, eventType) => this.onWorkspaceEvent(filePath, eventType));
+            this.workspaceWatcher.start();
+            onReady();
+            return;
+        }
+        let pending = this.mode === 'twoWay' ? 2 : 1;
+        const ready = () => {
+            if (--pending === 0) onReady();
+        };
+        this.watcher = this.createWatcher(this.sourceDir, 'push', ready);
+        if (this.mode === 'twoWay') {
+            this.targetWatcher = this.createWatcher(this.targetDir, 'pull', ready);
+        }
+    }
+
+    private createWatcher(root: string, direction: SyncDirection, onReady: () => void): chokidar.FSWatcher {
+        const watcher = chokidar.watch(root, {
+            // Pruning uses the same rule engine as the initial walk and the queue
+            ignored: (p: string) => this.shouldIgnorePath(p, root),
+            persistent: true,
+            depth: undefined,
+            usePolling: this.usePolling,
+            awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
+            followSymlinks: false,
+        });
+
+        watcher
+            .on('add', (filePath) => this.onWatcherEvent(filePath, 'add', direction))
+            .on('change', (filePath) => this.onWatcherEvent(filePath, 'change', direction))
+            .on('unlink', (filePath) => this.onWatcherEvent(filePath, 'unlink', direction))
+            .on('error', (error) => this.handleError(error))
+            .on('ready', onReady);
+        return watcher;
+    }
+
+    // The git watcher is left running: a rescan recreates only these, and it must keep tracking git operations
+    private async closeWatchers(): Promise<void> {
+        const watchers = [this.watcher, this.targetWatcher].filter((w): w is chokidar.FSWatcher => w !== null);
+        if (this.workspaceWatcher) {
+            this.workspaceWatcher.dispose();
+            this.workspaceWatcher = null;
+        }
+        this.watcher = null;
+        this.targetWatcher = null;
+        await Promise.all(watchers.map(w => w.close()));
+    }
+
+    private async closeGitWatcher(): Promise<void> {
+        const gitWatcher = this.gitWatcher;
+        this.gitWatcher = null;
+        await gitWatcher?.dispose();
+    }
+
+    /**
+     * Holds back syncing while the watcher keeps running. Events keep arriving and are merged
+     * per file, so resume() applies only the net result.
+     */
+    public pause(): void {
+        if (!this.isRunning || this.pausedByUser) return;
+        this.pausedByUser = true;
+        this.updatePause();
+    }
+
+    /** Applies the changes buffered while paused; a git operation still running keeps the pair paused until it ends. */
+    public resume(): void {
+        if (!this.pausedByUser) return;
+        this.pausedByUser = false;
+        this.updatePause();
+    }
+
+    public getPauseReason(): PauseReason | null {
+        return this.pauseReason;
+    }
+
+    private updatePause(): void {
+        const reason: PauseReason | null = this.pausedByUser ? 'user' : this.pausedForGit ? 'git' : null;
+        if (reason === this.pauseReason) return;
+        this.pauseReason = reason;
+        if (reason) {
+            this.queue.pause();
+            this.log(reason === 'git'
+                ? 'Paused while a git operation is in progress; changes are buffered.'
+                : 'Paused; changes are buffered until resumed.');
+        } else {
+            const { pending } = this.queue.getStats();
+            this.queue.resume();
+            this.log(`Resumed: applying ${pending} buffered ${pending === 1 ? 'change' : 'changes'}.`);
+        }
+        this.options.onPauseChanged?.(reason);
+    }
+
+    private resetPause(): void {
+        this.pausedByUser = false;
+        this.pausedForGit = false;
+        this.queue.resume();
+        if (this.pauseReason) {
+            this.pauseReason = null;
+            this.options.onPauseChanged?.(null);
+        }
+    }
+
+    // index.lock and rebase state live in the git directory, which is usually not under the synced source
+    private async startGitWatcher(): Promise<void> {
+        if (!this.pauseDuringGitOperations || !this.sourceDir) return;
+        const gitDir = await findGitDir(this.sourceDir);
+        if (!gitDir) return;
+        this.gitWatcher = new GitOperationWatcher(gitDir, busy => {
+            this.pausedForGit = busy;
+            this.updatePause();
+        });
+        try {
+            await this.gitWatcher.start();
+        } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            this.log(`Warning: Could not watch git operations in ${gitDir}: ${msg}`, { level: 'warn' });
+        }
+    }
+
+    private async onWatcherEvent(filePath: string, eventType: SyncEventType, direction: SyncDirection): Promise<void> {
+        if (path.basename(filePath) === GDIGNORE_FILE_NAME) {
+            if (eventType !== 'add' || this.isRunning) {
+                this.reloadGdignoreDirs();
+            }
+            return;
+        }
+        if (direction === 'push' && this.isIgnoreFile(filePath)) {
+            // 'add' also fires for the existing file during the initial scan
+            if (eventType !== 'add' || this.isRunning) {
+                this.reloadIgnoreFile();
+            }
+            return;
+        }
+        if (await this.isOwnWriteEcho(filePath, eventType)) {
+            return;
+        }
+        this.addToQueue(filePath, eventType, direction);
+    }
+
+    // Sync on save: an editor file operation is synced from the side it happened on, and a folder
+    // stands for the files below it (on disk when created, in the manifest when deleted)
+    private async onWorkspaceEvent(filePath: string, eventType: SyncEventType): Promise<void> {
+        const direction = this.getSideOf(filePath);
+        if (!direction) return;
+        const root = (direction === 'push' ? this.sourceDir : this.targetDir) as string;
+        if (this.shouldIgnorePath(filePath, root)) return;
+
+        if (eventType === 'unlink') {
+            const relativePath = path.relative(root, filePath);
+            const known = this.getManifest().pathsUnder(relativePath);
+            for (const rel of known.length > 0 ? known : [relativePath]) {
+                await this.onWatcherEvent(path.join(root, rel), 'unlink', direction);
+            }
+            return;
+        }
+        let stat: Stats;
+        try {
+            stat = await fs.stat(filePath);
+        } catch {
+            return; // Gone again before we got to it
+        }
+        if (stat.isDirectory()) {
+            await this.walkTree(root, (childPath) => this.onWatcherEvent(childPath, 'add', direction), filePath);
+        } else {
+            await this.onWatcherEvent(filePath, eventType, direction);
+        }
+    }
+
+    private getSideOf(filePath: string): SyncDirection | null {
+        const isBelow = (root: string | null) => {
+            if (!root) return false;
+            const relative = path.relative(root, filePath);
+            return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+        };
+        if (isBelow(this.sourceDir)) return 'push';
+        if (this.mode === 'twoWay' && isBelow(this.targetDir)) return 'pull';
+        return null;
+    }
+
+    // Remembers a file this service just wrote or deleted, so the watcher event it triggers is not synced back
+    private async markOwnWrite(filePath: string, deleted = false): Promise<void> {
+        if (this.mode !== 'twoWay') return;
+        let mtimeMs = 0;
+        let size = 0;
+        if (!deleted) {
+            try {
+                const stat = await fs.stat(filePath);
+                mtimeMs = stat.mtimeMs;
+                size = stat.size;
+            } catch {
+                return;
+            }
+        }
+        this.recentWrites.set(path.resolve(filePath), { mtimeMs, size, deleted, expires: Date.now() + ECHO_WINDOW_MS });
+    }
+
+    private async isOwnWriteEcho(filePath: string, eventType: SyncEventType): Promise<boolean> {
+        const key = path.resolve(filePath);
+        const write = this.recentWrites.get(key);
+        if (!write) return false;
+        if (write.expires < Date.now()) {
+            this.recentWrites.delete(key);
+            return false;
+        }
+        if (write.deleted) {
+            if (eventType !== 'unlink') return false;
+            this.recentWrites.delete(key);
+            return true;
+        }
+        if (eventType === 'unlink') return false;
+        try {
+            const stat = await fs.stat(filePath);
+            if (stat.mtimeMs === write.mtimeMs && stat.size === write.size) {
+                this.recentWrites.delete(key);
+                return true;
+            }
+        } catch { /* gone again: not our write */ }
+        return false;
+    }
+
+    private isIgnoreFile(p: string): boolean {
+        return !!this.sourceDir && path.resolve(p) === path.resolve(this.sourceDir, IGNORE_FILE_NAME);
+    }
+
+    private async loadIgnoreFile(): Promise<void> {
+        if (!this.sourceDir) return;
+        try {
+            const content = await fs.readFile(path.join(this.sourceDir, IGNORE_FILE_NAME), 'utf8');
+            this.ignoreFilePatterns = parseIgnoreFile(content);
+            this.log(`Loaded ${IGNORE_FILE_NAME} (${this.ignoreFilePatterns.length} rules).`);
+        } catch (err: unknown) {
+            if (this.getErrorCode(err) !== 'ENOENT') {
+                const msg = err instanceof Error ? err.message : String(err);
+                this.log(`Warning: Could not read ${IGNORE_FILE_NAME}: ${msg}`, { level: 'warn' });
+            }
+            this.ignoreFilePatterns = [];
+        }
+    }
+
+    private async reloadIgnoreFile(): Promise<void> {
+        const previous = this.ignoreFilePatterns.join('\n');
+        await this.loadIgnoreFile();
+        if (previous === this.ignoreFilePatterns.join('\n')) return;
+
+        this.rebuildRules();
+        await this.rescan(`${IGNORE_FILE_NAME} changed, rescanning.`);
+    }
+
+    // Rules changed while running: the watcher pruned directories with the old rules, so recreate it and rescan
+    private async rescan(message: string): Promise<void> {
+        if (!this.watcher && !this.workspaceWatcher) return;
+        this.log(message);
+        try {
+            await this.closeWatchers();
+        } catch { /* ignore */ }
+        if (!this.isRunning) return;
+        this.createWatchers(() => this.initialSync());
+    }
+
+    /** Excluded files stop syncing right away; folders the watcher already watches stay watched until the next start. */
+    public setExcludePatterns(patterns: string[]): void {
+        this.excludePatterns = patterns;
+        this.rebuildRules();
+    }
+
+    private rebuildRules(): void {
+        let projectPath: string | null = null;
+        if (this.targetProjectRoot && this.targetDir) {
+            const relative = path.relative(this.targetProjectRoot, this.targetDir).split(path.sep).join('/');
+            projectPath = relative ? `${relative}/` : '';
+        }
+        this.rules = new SyncRules({
+            extensions: this.extensions,
+            includeHidden: this.includeHidden,
+            syncImportFiles: this.syncImportFiles,
+            syncUidFiles: this.syncUidFiles,
+            include: this.includePatterns,
+            exclude: this.excludePatterns,
+            ignoreFile: this.ignoreFilePatterns,
+            gdignoreDirs: this.gdignoreDirs,
+            projectPath,
+            exportExclude: this.exportFilters
+        });
+    }
+
+    private getManifest(): SyncManifest {
+        if (!this.manifest) {
+            this.manifest = SyncManifest.empty(this.sourceDir || '', this.targetDir || '');
+        }
+        return this.manifest;
+    }
+
+    private getRules(): SyncRules {
+        if (!this.rules) {
+            this.rebuildRules();
+        }
+        return this.rules as SyncRules;
+    }
+
     public stop(): void {
-        if (this.watcher) {
+        if (this.initialSyncState) {
+            this.initialSyncState.cancelled = true;
+        }
+        if (this.watcher || this.targetWatcher || this.workspaceWatcher || this.gitWatcher) {
             this.log('Stopping watcher...');
-            this.watcher.close().then(() => {
+            Promise.all([this.closeWatchers(), this.closeGitWatcher()]).then(() => this.flushManifest()).then(() => {
                 this.log('Watcher stopped.');
                 this.isRunning = false;
-                this.watcher = null;
                 this.sourceDir = null;
                 this.targetDir = null;
-                this.syncQueue = [];
-                this.isProcessingQueue = false;
+                this.queue.clear();
+                this.resetPause();
+                this.clearPendingUnlinks();
+                this.clearPendingMoves();
+                this.manifest = null;
+                this.targetProjectRoot = null;
+                this.recentWrites.clear();
+                if (this.conflicts.size > 0) {
+                    this.conflicts.clear();
+                    this.notifyConflicts();
+                }
                 this.updateStatus(this.isRunning);
             }).catch(err => {
-                 this.log(`Error stopping watcher: ${err.message}`);
+                 this.log(`Error stopping watcher: ${err.message}`, { action: 'error' });
                  this.isRunning = false;
-                 this.watcher = null;
                  this.sourceDir = null;
                  this.targetDir = null;
+                 this.resetPause();
+                 this.clearPendingUnlinks();
+                 this.clearPendingMoves();
+                 this.manifest = null;
+                 this.targetProjectRoot = null;
                  this.updateStatus(this.isRunning);
             });
         } else {
@@ -144,148 +811,1023 @@ export class SyncService {
         }
     }
 
-    private addToQueue(filePath: string, eventType: 'add' | 'change' | 'unlink'): void {
-        this.syncQueue.push({ filePath, eventType });
-        this.processQueue();
-    }
-    
-    private async processQueue(): Promise<void> {
-        if (this.isProcessingQueue || this.syncQueue.length === 0) {
-            return;
+    /**
+     * Resolves with the outcome once the file has been handled. Unlinks held back for move detection
+     * resolve right away; deletions with an explicit allowDeletion are applied as they are.
+     */
+    private addToQueue(filePath: string, eventType: SyncEventType, direction: SyncDirection = 'push', allowDeletion?: boolean): Promise<SyncOutcome | undefined> {
+        const operation: SyncOperation = { key: this.queueKey(filePath, direction), filePath, eventType, direction, allowDeletion };
+        if (this.options.onFileQueued) {
+            this.options.onFileQueued(operation.key, direction);
         }
-        this.isProcessingQueue = true;
-    
-        const operation = this.syncQueue.shift();
-        if (operation) {
-            try {
-                await this.handleFileSync(operation.filePath, operation.eventType);
-            } catch (error: unknown) {
-                const msg = error instanceof Error ? error.message : String(error);
-                this.log(`Failed to process ${operation.filePath}. Error: ${msg}`);
+        if (eventType === 'unlink') {
+            if (allowDeletion === undefined && this.deferUnlink(operation)) return Promise.resolve(undefined);
+        } else {
+            // Deleted and created again at the same path: not a move, just a change
+            const deferred = this.pendingUnlinks.get(path.resolve(filePath));
+            if (deferred) {
+                clearTimeout(deferred.timer);
+                this.pendingUnlinks.delete(path.resolve(filePath));
+                operation.eventType = 'change';
             }
         }
-    
-        this.isProcessingQueue = false;
-        this.processQueue();
+        return this.queue.push(operation);
+    }
+
+    // Keyed by relative path so both directions of a two-way pair share per-path ordering
+    private queueKey(filePath: string, direction: SyncDirection): string {
+        const root = (direction === 'push' ? this.sourceDir : this.targetDir) || '';
+        return path.relative(root, filePath).split(path.sep).join('/');
+    }
+
+    public getQueueStats(): SyncQueueStats {
+        return this.queue.getStats();
+    }
+
+    // Holds back the unlink of a synced file so a following add with the same content can turn both into a move.
+    // A move removes the old path on the other side, so it needs deletion to be allowed.
+    private deferUnlink(operation: SyncOperation): boolean {
+        const root = operation.direction === 'push' ? this.sourceDir : this.targetDir;
+        if (!root || !this.allowDeletion || !this.getManifest().get(path.relative(root, operation.filePath))) {
+            return false;
+        }
+        const key = path.resolve(operation.filePath);
+        const previous = this.pendingUnlinks.get(key);
+        if (previous) clearTimeout(previous.timer);
+        const timer = setTimeout(() => {
+            this.pendingUnlinks.delete(key);
+            this.queue.push(operation);
+        }, MOVE_WINDOW_MS);
+        this.pendingUnlinks.set(key, { operation, timer });
+        return true;
+    }
+
+    private clearPendingUnlinks(): void {
+        for (const pending of this.pendingUnlinks.values()) {
+            clearTimeout(pending.timer);
+        }
+        this.pendingUnlinks.clear();
+    }
+
+    private async processOperation(operation: SyncOperation): Promise<SyncOutcome> {
+        try {
+            return await this.handleFileSync(operation.filePath, operation.eventType, operation.direction, operation.allowDeletion);
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.log(`Failed to process ${operation.filePath}. Error: ${msg}`, { action: 'error', path: operation.key });
+            return 'failed';
+        } finally {
+            this.markInitialSyncDone(operation.key);
+        }
     }
 
     private async initialSync(): Promise<void> {
-        if (!this.sourceDir) return;
+        if (!this.sourceDir || !this.targetDir) return;
         this.log('Starting initial sync...');
-        
+
+        const rules = this.getRules();
+        const roots = this.mode === 'twoWay' ? [this.targetDir, this.sourceDir] : [this.targetDir];
+        const startedAt = Date.now();
+        const state: InitialSyncState = {
+            progress: { phase: 'scanning', totalFiles: 0, doneFiles: 0, totalBytes: 0, doneBytes: 0 },
+            remaining: new Map(),
+            cancelled: false,
+            lastReport: 0
+        };
+        this.initialSyncState = state;
+        this.reportProgress(true);
+        try {
+            // Sizes are collected up front so progress can be shown in bytes as well as files
+            const items: { filePath: string; direction: SyncDirection; size: number }[] = [];
+            const collect = (root: string, direction: SyncDirection) => this.walkTree(root, async (filePath, relativePath) => {
+                if (!rules.shouldSyncFile(relativePath)) return;
+                try {
+                    items.push({ filePath, direction, size: (await fs.stat(filePath)).size });
+                } catch { /* vanished during the scan */ }
+            }, root, () => state.cancelled);
+            await collect(this.sourceDir, 'push');
+            if (this.mode === 'twoWay') {
+                await collect(this.targetDir, 'pull');
+            }
+
+            if (!state.cancelled) {
+                for (const item of items) {
+                    const key = this.queueKey(item.filePath, item.direction);
+                    const expected = state.remaining.get(key) || { files: 0, bytes: 0 };
+                    state.remaining.set(key, { files: expected.files + 1, bytes: expected.bytes + item.size });
+                    state.progress.totalFiles++;
+                    state.progress.totalBytes += item.size;
+                }
+                state.progress.phase = 'syncing';
+                this.reportProgress(true);
+                for (const item of items) {
+                    this.addToQueue(item.filePath, 'add', item.direction);
+                }
+                this.log('Initial sync queued.');
+                await this.queue.whenIdle();
+            }
+
+            const { doneFiles, totalFiles } = state.progress;
+            if (state.cancelled) {
+                await this.removeTempFiles(roots);
+                state.progress.phase = 'cancelled';
+                this.log(`Initial sync cancelled: ${doneFiles} of ${totalFiles} files synced.`);
+            } else {
+                state.progress.phase = 'done';
+                const seconds = Math.max((Date.now() - startedAt) / 1000, 0.001);
+                this.log(`Initial sync finished: ${doneFiles} files in ${seconds.toFixed(1)}s (${(doneFiles / seconds).toFixed(1)} files/s).`);
+            }
+            this.reportProgress(true);
+        } catch (error: unknown) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.log(`Error during initial sync: ${msg}`, { action: 'error' });
+            vscode.window.showErrorMessage(`Godot Sync: Initial sync error - ${msg}`);
+            state.progress.phase = 'cancelled';
+            this.reportProgress(true);
+            this.stop();
+        } finally {
+            if (this.initialSyncState === state) {
+                this.initialSyncState = null;
+            }
+        }
+    }
+
+    /**
+     * Stops the running initial sync (or rescan): files not started yet are dropped, copies in
+     * flight finish, and leftover temporary files are removed. The watcher keeps running.
+     */
+    public cancelInitialSync(): void {
+        const state = this.initialSyncState;
+        if (!state || state.cancelled) return;
+        state.cancelled = true;
+        this.log('Cancelling initial sync...');
+        this.queue.clear();
+    }
+
+    public isInitialSyncRunning(): boolean {
+        return this.initialSyncState !== null;
+    }
+
+    private markInitialSyncDone(key: string): void {
+        const state = this.initialSyncState;
+        const expected = state && state.remaining.get(key);
+        if (!state || !expected) return;
+        state.remaining.delete(key);
+        state.progress.doneFiles += expected.files;
+        state.progress.doneBytes += expected.bytes;
+        this.reportProgress();
+    }
+
+    private reportProgress(force = false): void {
+        const state = this.initialSyncState;
+        if (!state || !this.options.onProgress) return;
+        const now = Date.now();
+        if (!force && now - state.lastReport < PROGRESS_INTERVAL_MS) return;
+        state.lastReport = now;
+        this.options.onProgress({ ...state.progress });
+    }
+
+    private async removeTempFiles(roots: string[]): Promise<void> {
+        for (const root of roots) {
+            try {
+                await this.walkTree(root, async (filePath) => {
+                    if (path.basename(filePath).includes(TEMP_FILE_MARKER)) {
+                        await fs.rm(filePath, { force: true });
+                    }
+                });
+            } catch { /* best effort */ }
+        }
+    }
+
+    /**
+     * Visits every file below root, or only below its folder start, skipping directories the rules prune.
+     */
+    private async walkTree(
+        root: string,
+        visit: (filePath: string, relativePath: string) => void | Promise<void>,
+        start: string = root,
+        isCancelled: () => boolean = () => false
+    ): Promise<void> {
+        const rules = this.getRules();
         const walk = async (dir: string) => {
             const files = await fs.readdir(dir, { withFileTypes: true });
             for (const file of files) {
+                // Stops a cancelled scan right away instead of after the whole tree
+                if (isCancelled()) return;
                 const filePath = path.join(dir, file.name);
-                if (file.isDirectory() && (file.name === '.godot' || file.name === '.import')) {
-                    continue;
-                }
-                if (!this.includeHidden && file.name.startsWith('.')) {
-                    continue;
-                }
+                const relativePath = path.relative(root, filePath);
                 if (file.isDirectory()) {
-                    await walk(filePath);
+                    if (!rules.isIgnoredPath(relativePath)) {
+                        await walk(filePath);
+                    }
                 } else if (file.isFile()) {
-                    // Do not skip *.import here
-                    this.addToQueue(filePath, 'add');
+                    await visit(filePath, relativePath);
                 }
             }
         };
+        await walk(start);
+    }
 
-        try {
-            await walk(this.sourceDir);
-            this.log('Initial sync queued.');
-        } catch (error: unknown) {
-            const msg = error instanceof Error ? error.message : String(error);
-            this.log(`Error during initial sync: ${msg}`);
-            vscode.window.showErrorMessage(`Godot Sync: Initial sync error - ${msg}`);
-            this.stop();
+    /**
+     * Dry run: walks source and target with the same rules and decisions as the live sync
+     * and lists what would be created, overwritten, skipped and deleted. Deletions are listed
+     * when deletion is enabled, or always with includeDeletions (mirror). scope limits the plan
+     * to one file or folder, given relative to the source.
+     */
+    public async createPlan(options: { includeDeletions?: boolean; scope?: string } = {}): Promise<SyncPlan> {
+        if (!this.sourceDir || !this.targetDir) {
+            throw new Error('Sync pair is not configured.');
+        }
+        const sourceDir = this.sourceDir;
+        const targetDir = this.targetDir;
+        const rules = this.getRules();
+        const entries: SyncPlanEntry[] = [];
+        const sourceFiles = new Set<string>();
+        const scope = options.scope || '';
+        const singleFile = !!scope && (await fs.stat(path.join(sourceDir, scope))).isFile();
+
+        const planFile = async (filePath: string, relativePath: string) => {
+            const targetPath = path.join(targetDir, relativePath);
+            const skipReason = rules.getSkipReason(relativePath);
+            if (skipReason) {
+                // Files of other types are not part of the sync at all; listing them is just noise, unless asked for
+                if (skipReason !== 'extension not selected' || singleFile) {
+                    entries.push({ action: 'skip', relativePath, sourcePath: filePath, targetPath, reason: skipReason });
+                }
+                return;
+            }
+            sourceFiles.add(relativePath);
+            const sidecarSkip = await this.getSidecarSkipReason(relativePath, 'push');
+            if (sidecarSkip) {
+                entries.push({ action: 'skip', relativePath, sourcePath: filePath, targetPath, reason: sidecarSkip });
+                return;
+            }
+            const decision = await this.decideCopy(relativePath, filePath, targetPath, await fs.stat(filePath));
+            const synced = this.getManifest().get(relativePath);
+            const syncedAt = synced ? synced.syncedAt : undefined;
+            if (decision.action === 'skip') {
+                entries.push({ action: 'skip', relativePath, sourcePath: filePath, targetPath, reason: decision.reason, syncedAt });
+            } else if (decision.action === 'conflict') {
+                entries.push({ action: 'skip', relativePath, sourcePath: filePath, targetPath, reason: CONFLICT_REASON, syncedAt });
+            } else if (decision.action === 'removedOnOtherSide') {
+                entries.push({ action: 'skip', relativePath, sourcePath: filePath, targetPath, reason: 'deleted in target since last sync', syncedAt });
+            } else {
+                entries.push({ action: decision.reason === 'new' ? 'create' : 'overwrite', relativePath, sourcePath: filePath, targetPath, reason: decision.reason, syncedAt });
+            }
+        };
+        if (singleFile) {
+            await planFile(path.join(sourceDir, scope), scope);
+        } else {
+            await this.walkTree(sourceDir, planFile, path.join(sourceDir, scope));
+        }
+
+        const includeDeletions = this.allowDeletion || !!options.includeDeletions;
+        if (includeDeletions && !singleFile && await pathExists(path.join(targetDir, scope))) {
+            await this.walkTree(targetDir, async (filePath, relativePath) => {
+                if (sourceFiles.has(relativePath) || !rules.shouldSyncFile(relativePath)) return;
+                // Never synced: in two-way mode a file created in the target is pulled, not deleted
+                if (this.mode === 'twoWay' && !this.getManifest().get(relativePath)) return;
+                if (await this.isTargetOwnedSidecar(relativePath)) return;
+                entries.push({ action: 'delete', relativePath, targetPath: filePath, reason: 'not in source' });
+            }, path.join(targetDir, scope));
+        }
+
+        entries.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+        return { sourceDir, targetDir, allowDeletion: includeDeletions, entries, createdAt: Date.now() };
+    }
+
+    /**
+     * Applies the selected entries of a plan through the sync queue, so each file is re-checked
+     * right before it is written and keeps its order with watcher events for the same path.
+     * allowDeletion overrides the pair setting for this pass, so a confirmed mirror can delete
+     * with deletion disabled.
+     */
+    public async applyPlan(entries: SyncPlanEntry[], options: { allowDeletion?: boolean } = {}): Promise<SyncResult> {
+        const result = emptyResult();
+        const sourceDir = this.sourceDir;
+        if (!sourceDir) return result;
+        this.assertNotPaused();
+        const allowDeletion = options.allowDeletion ?? this.allowDeletion;
+        const queued: Promise<SyncOutcome | undefined>[] = [];
+        for (const entry of entries) {
+            if (entry.action === 'skip') continue;
+            const sourcePath = entry.sourcePath || path.join(sourceDir, entry.relativePath);
+            if (entry.action === 'delete' && await pathExists(sourcePath)) {
+                this.log(`Deletion skipped (source exists again): ${entry.relativePath}`, { action: 'skipped', path: entry.relativePath });
+                result.skipped++;
+                continue;
+            }
+            queued.push(this.addToQueue(sourcePath, entry.action === 'delete' ? 'unlink' : 'add', 'push', allowDeletion));
+        }
+        // Dropped when the pair stopped meanwhile
+        for (const outcome of await Promise.all(queued)) {
+            result[outcome || 'skipped']++;
+        }
+        // Sidecars queued to follow their main files
+        await this.queue.whenSettled(entries.flatMap(entry =>
+            GODOT_SIDECAR_SUFFIXES.map(suffix => this.queueKey(path.join(sourceDir, entry.relativePath + suffix), 'push'))
+        ));
+        return result;
+    }
+
+    /**
+     * Syncs one file again through the queue, e.g. after a failure. The file is synced from the side
+     * it lies in, or deleted on the other side when it no longer exists.
+     */
+    public async retryFile(filePath: string): Promise<void> {
+        const direction = this.getSideOf(filePath);
+        if (!direction) {
+            throw new Error(`${filePath} is not inside the pair's folders.`);
         }
+        this.assertNotPaused();
+        const exists = await pathExists(filePath);
+        // A deletion is retried as it is rather than held back for move detection
+        await this.addToQueue(filePath, exists ? 'change' : 'unlink', direction, exists ? undefined : this.allowDeletion);
+        if (exists) {
+            await this.queue.whenSettled(GODOT_SIDECAR_SUFFIXES.map(suffix => this.queueKey(filePath + suffix, direction)));
+        }
+    }
+
+    // Queued operations wait for resume, so one-off syncs would never finish while paused
+    private assertNotPaused(): void {
+        if (!this.queue.isPaused()) return;
+        throw new Error(this.pauseReason === 'git'
+            ? 'Sync is paused while a git operation is in progress. Try again once it has finished.'
+            : 'Sync is paused. Resume it first.');
+    }
+
+    /**
+     * Target files matching the rules that have no source file, e.g. left behind by deletions made
+     * while the watcher was stopped. In two-way mode only files synced before count, since a file
+     * created in the target is new rather than orphaned.
+     */
+    public async findOrphans(): Promise<string[]> {
+        if (!this.sourceDir || !this.targetDir) {
+            throw new Error('Sync pair is not configured.');
+        }
+        const sourceDir = this.sourceDir;
+        const rules = this.getRules();
+        const orphans: string[] = [];
+        await this.walkTree(this.targetDir, async (_filePath, relativePath) => {
+            if (!rules.shouldSyncFile(relativePath) || await pathExists(path.join(sourceDir, relativePath))) return;
+            if (this.mode === 'twoWay' && !this.getManifest().get(relativePath)) return;
+            if (await this.isTargetOwnedSidecar(relativePath)) return;
+            orphans.push(relativePath);
+        });
+        return orphans.sort((a, b) => a.localeCompare(b));
+    }
+
+    /**
+     * Deletes an orphaned target file. With a store the file is always backed up there first;
+     * otherwise the pair's backup setting applies as for any deletion.
+     */
+    public async removeOrphan(relativePath: string, store?: BackupStore): Promise<void> {
+        if (!this.sourceDir || !this.targetDir) {
+            throw new Error('Sync pair is not configured.');
+        }
+        const root = path.resolve(this.targetDir);
+        const targetPath = path.resolve(root, relativePath);
+        if (!targetPath.startsWith(root + path.sep)) {
+            throw new Error(`Path is outside the target directory: ${relativePath}`);
+        }
+        if (await pathExists(path.join(this.sourceDir, relativePath))) {
+            throw new Error(`The source file exists again: ${relativePath}`);
+        }
+        if (store) {
+            await store.backup(targetPath, 'target', relativePath, 'delete');
+        } else {
+            await this.backupBeforeWrite(targetPath, 'target', relativePath, 'delete');
+        }
+        await this.unlinkWithRetry(targetPath);
+        await this.markOwnWrite(targetPath, true);
+        this.getManifest().delete(relativePath);
+        this.log(`Deleted orphan${store ? ' (backed up)' : ''}: ${this.toDisplayPath(relativePath)}`, { action: 'deleted', path: relativePath });
+        this.emit('fileDeleted', this.toFileEvent(relativePath, 'push'));
     }
 
     public getIsRunning(): boolean {
         return this.isRunning;
     }
 
-    private async handleFileSync(filePath: string, eventType: 'add' | 'change' | 'unlink'): Promise<void> {
-        if (!this.sourceDir || !this.targetDir) return;
+    public getTargetDir(): string | null {
+        return this.targetDir;
+    }
 
-        const fileExtension = path.extname(filePath).toLowerCase();
-        if (!this.extensions.includes(fileExtension)) {
-            return;
+    private async handleFileSync(filePath: string, eventType: SyncEventType, direction: SyncDirection = 'push', allowDeletion: boolean = this.allowDeletion): Promise<SyncOutcome> {
+        const outcome = await this.syncFile(filePath, eventType, direction, allowDeletion);
+        const root = direction === 'push' ? this.sourceDir : this.targetDir;
+        const relativePath = root ? path.relative(root, filePath) : filePath;
+        const error = this.fileErrors.get(relativePath);
+        const reason = this.skipReasons.get(relativePath);
+        this.fileErrors.delete(relativePath);
+        this.skipReasons.delete(relativePath);
+        if (this.options.onFileResult) {
+            this.options.onFileResult({
+                relativePath,
+                direction,
+                outcome,
+                error: outcome === 'failed' && error ? error.message : undefined,
+                errorCode: outcome === 'failed' && error ? error.code : undefined,
+                reason: outcome === 'skipped' ? reason : undefined
+            });
         }
-        if (fileExtension === '.import' && !this.syncImportFiles) {
-            return;
+        if (outcome === 'copied') {
+            this.emit('fileSynced', this.toFileEvent(relativePath, direction));
+        } else if (outcome === 'deleted') {
+            this.emit('fileDeleted', this.toFileEvent(relativePath, direction));
+        } else if (outcome === 'failed') {
+            this.emit('fileFailed', { ...this.toFileEvent(relativePath, direction), error: error ? error.message : 'unknown error' });
         }
+        return outcome;
+    }
 
-        const filename = path.basename(filePath);
-        const relativePath = path.relative(this.sourceDir, filePath);
-        const targetPath = path.join(this.targetDir, relativePath);
-        const targetSubDir = path.dirname(targetPath);
-
-        const resolvedTargetRoot = path.resolve(this.targetDir);
-        const resolvedTargetPath = path.resolve(targetPath);
-        const isInside = resolvedTargetPath === resolvedTargetRoot || resolvedTargetPath.startsWith(resolvedTargetRoot + path.sep);
-        if (!isInside) {
-            this.log(`Security block: Attempted to write outside target root: ${relativePath}`);
-            vscode.window.showErrorMessage('Godot Sync: Blocked writing outside of target directory.');
-            return;
+    private async syncFile(filePath: string, eventType: SyncEventType, direction: SyncDirection, allowDeletion: boolean): Promise<SyncOutcome> {
+        if (!this.sourceDir || !this.targetDir) return 'skipped';
+
+        const fromRoot = direction === 'push' ? this.sourceDir : this.targetDir;
+        const toRoot = direction === 'push' ? this.targetDir : this.sourceDir;
+        const toLabel = direction === 'push' ? 'target' : 'source';
+        const relativePath = path.relative(fromRoot, filePath);
+        const destPath = toCounterpartPath(fromRoot, toRoot, filePath);
+        if (!destPath) {
+            this.log(`Security block: Attempted to write outside ${toLabel} root: ${relativePath}`, { action: 'error', path: relativePath });
+            vscode.window.showErrorMessage(`Godot Sync: Blocked writing outside of ${toLabel} directory.`);
+            this.fileErrors.set(relativePath, { message: `blocked writing outside of ${toLabel} directory`, code: 'outsideRoot' });
+            return 'failed';
+        }
+        const destSubDir = path.dirname(destPath);
+
+        const ruleSkip = this.getRules().getSkipReason(relativePath);
+        if (ruleSkip) {
+            return this.skip(relativePath, ruleSkip);
         }
 
+        const sourcePath = direction === 'push' ? filePath : destPath;
+        const targetPath = direction === 'push' ? destPath : filePath;
+
         try {
             if (eventType === 'add' || eventType === 'change') {
-                await fs.mkdir(targetSubDir, { recursive: true });
-
-                let sourceStat;
+                let fromStat;
                 try {
-                    sourceStat = await fs.stat(filePath);
+                    fromStat = await fs.stat(filePath);
                 } catch (err: unknown) {
                     if (this.getErrorCode(err) === 'ENOENT') {
-                        this.log(`Skipped (source file gone): ${relativePath}`);
-                        return;
+                        this.log(`Skipped (${direction === 'push' ? 'source' : 'target'} file gone): ${this.toDisplayPath(relativePath)}`, { action: 'skipped', path: relativePath });
+                        return this.skip(relativePath, 'file gone');
                     }
                     throw err;
                 }
 
-                try {
-                    const targetStat = await fs.stat(targetPath);
-                    if (sourceStat.mtimeMs <= targetStat.mtimeMs) {
-                        this.log(`Skipped (destination is newer): ${relativePath}`);
-                        return;
+                const sidecarSkip = await this.getSidecarSkipReason(relativePath, direction);
+                if (sidecarSkip) {
+                    if (sidecarSkip === SIDECAR_WITHOUT_MAIN) {
+                        this.log(`Skipped (${sidecarSkip}): ${this.toDisplayPath(relativePath)}`, { action: 'skipped', level: 'warn', path: relativePath });
                     }
-                } catch (err: unknown) {
-                    if (this.getErrorCode(err) !== 'ENOENT') {
-                        const msg = err instanceof Error ? err.message : String(err);
-                        this.log(`Warning: Could not stat target ${relativePath}. Proceeding. Error: ${msg}`);
+                    return this.skip(relativePath, sidecarSkip);
+                }
+
+                if (eventType === 'add' && this.pendingUnlinks.size > 0 && !this.getManifest().get(relativePath)) {
+                    if (await this.tryMove(relativePath, filePath, fromStat, direction)) {
+                        return 'copied';
+                    }
+                }
+
+                const decision = await this.decideCopy(relativePath, filePath, destPath, fromStat, direction);
+                if (decision.action === 'conflict') {
+                    this.addConflict({ relativePath, sourcePath, targetPath, detectedAt: Date.now() });
+                    return this.skip(relativePath, CONFLICT_REASON);
+                }
+                if (decision.action === 'removedOnOtherSide') {
+                    if (!allowDeletion) {
+                        this.log(`Skipped (deleted in ${toLabel} since last sync, deletion disabled): ${this.toDisplayPath(relativePath)}`, { action: 'skipped', path: relativePath });
+                        return this.skip(relativePath, `deleted in ${toLabel} since last sync`);
+                    }
+                    await this.backupBeforeWrite(filePath, direction === 'push' ? 'source' : 'target', relativePath, 'delete');
+                    await this.unlinkWithRetry(filePath);
+                    await this.markOwnWrite(filePath, true);
+                    this.getManifest().delete(relativePath);
+                    this.log(`Deleted (removed in ${toLabel}): ${this.toDisplayPath(relativePath)}`, { action: 'deleted', path: relativePath });
+                    await this.deleteSidecars(relativePath, fromRoot, direction === 'push' ? 'source' : 'target');
+                    return 'deleted';
+                }
+                if (decision.action === 'skip') {
+                    if (decision.reason === 'unchanged') {
+                        this.removeConflict(relativePath);
+                    } else {
+                        this.log(`Skipped (${decision.reason}): ${this.toDisplayPath(relativePath)}`, { action: 'skipped', path: relativePath });
                     }
+                    return this.skip(relativePath, decision.reason);
                 }
 
-                await this.copyFileAtomicWithRetry(filePath, targetPath);
-                this.log(`Copied: ${relativePath}`);
+                await fs.mkdir(destSubDir, { recursive: true });
+                await this.backupBeforeWrite(destPath, toLabel, relativePath, 'overwrite');
+                await this.copyFileAtomicWithRetry(filePath, destPath);
+                await this.markOwnWrite(destPath);
+                await this.recordSynced(relativePath, direction, fromStat, destPath, decision.hash);
+                this.removeConflict(relativePath);
+                this.log(`${direction === 'push' ? 'Copied' : 'Copied to source'}: ${this.toDisplayPath(relativePath)}`, { action: 'copied', path: relativePath });
+                await this.queueSidecars(relativePath, direction);
+                return 'copied';
 
             } else if (eventType === 'unlink') {
-                if (!this.allowDeletion) {
-                    this.log(`Deletion skipped (disabled): ${relativePath}`);
-                    return;
+                if (!allowDeletion) {
+                    this.log(`Deletion skipped (disabled): ${this.toDisplayPath(relativePath)}`, { action: 'skipped', path: relativePath });
+                    return this.skip(relativePath, 'deletion disabled');
+                }
+                if (this.sidecarPolicy === 'never' && getSidecarSuffix(relativePath)) {
+                    return this.skip(relativePath, 'sidecar sync disabled');
                 }
                 try {
-                    await this.unlinkWithRetry(targetPath);
-                    this.log(`Deleted: ${relativePath}`);
+                    await this.backupBeforeWrite(destPath, toLabel, relativePath, 'delete');
+                    await this.unlinkWithRetry(destPath);
+                    await this.markOwnWrite(destPath, true);
+                    this.log(`${direction === 'push' ? 'Deleted' : 'Deleted in source'}: ${this.toDisplayPath(relativePath)}`, { action: 'deleted', path: relativePath });
                 } catch (err: unknown) {
                     if (this.getErrorCode(err) !== 'ENOENT') {
                         throw err;
                     }
                 }
+                this.getManifest().delete(relativePath);
+                this.removeConflict(relativePath);
+                await this.deleteSidecars(relativePath, toRoot, toLabel);
+                return 'deleted';
             }
+            return 'skipped';
         } catch (error: unknown) {
             const msg = error instanceof Error ? error.message : String(error);
-            this.log(`Error processing file ${relativePath}: ${msg}`);
+            this.log(`Error processing file ${this.toDisplayPath(relativePath)}: ${msg}`, { action: 'error', path: relativePath });
+            const code = this.getErrorCode(error);
+            this.fileErrors.set(relativePath, { message: msg, code: code === undefined ? undefined : String(code) });
             // Avoid spam
+            return 'failed';
+        }
+    }
+
+    private skip(relativePath: string, reason: string): SyncOutcome {
+        this.skipReasons.set(relativePath, reason);
+        return 'skipped';
+    }
+
+    /**
+     * Pairs a new file with a pending unlink of the same content and renames the counterpart
+     * (with its Godot sidecars) instead of copying it again and deleting the old one.
+     */
+    private async tryMove(relativePath: string, filePath: string, fromStat: Stats, direction: SyncDirection): Promise<boolean> {
+        if (!this.sourceDir || !this.targetDir) return false;
+        const fromRoot = direction === 'push' ? this.sourceDir : this.targetDir;
+        const toRoot = direction === 'push' ? this.targetDir : this.sourceDir;
+        const fromSide = direction === 'push' ? 'source' : 'target';
+        const destSide = direction === 'push' ? 'target' : 'source';
+        const manifest = this.getManifest();
+        const newDest = path.join(toRoot, relativePath);
+        if (await pathExists(newDest)) return false;
+
+        let hash: string | null = null;
+        for (const [key, pending] of this.pendingUnlinks) {
+            if (pending.operation.direction !== direction) continue;
+            const oldRel = path.relative(fromRoot, pending.operation.filePath);
+            const entry = manifest.get(oldRel);
+            if (!entry || getManifestSide(entry, fromSide).size !== fromStat.size) continue;
+            hash = hash ?? await hashFile(filePath);
+            if (getManifestSide(entry, fromSide).hash !== hash) continue;
+
+            // A counterpart edited since the last sync is not moved; the unlink then runs as usual
+            const oldDest = path.join(toRoot, oldRel);
+            const knownDest = getManifestSide(entry, destSide);
+            try {
+                if ((await fs.stat(oldDest)).size !== knownDest.size || await hashFile(oldDest) !== knownDest.hash) continue;
+            } catch {
+                continue;
+            }
+
+            // Another add may have claimed this unlink while we were hashing
+            if (this.pendingUnlinks.get(key) !== pending) continue;
+            clearTimeout(pending.timer);
+            this.pendingUnlinks.delete(key);
+            await fs.mkdir(path.dirname(newDest), { recursive: true });
+            await this.withRetry('rename(move)', async () => {
+                await fs.rename(oldDest, newDest);
+            });
+            await this.markOwnWrite(oldDest, true);
+            await this.markOwnWrite(newDest);
+            manifest.delete(oldRel);
+            await this.recordSynced(relativePath, direction, fromStat, newDest, hash);
+            this.removeConflict(oldRel);
+            this.log(`Moved: ${this.toDisplayPath(oldRel)} -> ${this.toDisplayPath(relativePath)}`, { action: 'moved', path: relativePath });
+            this.emit('fileDeleted', this.toFileEvent(oldRel, direction));
+            await this.moveSidecars(oldRel, relativePath, toRoot);
+            this.queueReferenceScan({ oldRelativePath: oldRel, newRelativePath: relativePath });
+            return true;
+        }
+        return false;
+    }
+
+    // Godot keys import settings and UIDs by these files; losing them would re-import or break references
+    private async moveSidecars(oldRel: string, newRel: string, root: string): Promise<void> {
+        if (this.sidecarPolicy === 'never') return;
+        const manifest = this.getManifest();
+        const rules = this.getRules();
+        for (const suffix of GODOT_SIDECAR_SUFFIXES) {
+            if (!rules.shouldSyncFile(newRel + suffix)) continue;
+            const from = path.join(root, oldRel + suffix);
+            const to = path.join(root, newRel + suffix);
+            if (!(await pathExists(from)) || await pathExists(to)) continue;
+            try {
+                await this.withRetry('rename(sidecar)', async () => {
+                    await fs.rename(from, to);
+                });
+            } catch (err: unknown) {
+                const msg = err instanceof Error ? err.message : String(err);
+                this.log(`Warning: Could not move ${this.toDisplayPath(oldRel + suffix)}: ${msg}`, { level: 'warn' });
+                continue;
+            }
+            await this.markOwnWrite(from, true);
+            await this.markOwnWrite(to);
+            const entry = manifest.get(oldRel + suffix);
+            if (entry) {
+                manifest.delete(oldRel + suffix);
+                manifest.set(newRel + suffix, entry);
+            }
+            this.log(`Moved: ${this.toDisplayPath(oldRel + suffix)} -> ${this.toDisplayPath(newRel + suffix)}`, { action: 'moved', path: newRel + suffix });
+        }
+    }
+
+    /** Why a sidecar is not synced on its own, or null when it is not a sidecar or may be synced. */
+    private async getSidecarSkipReason(relativePath: string, direction: SyncDirection): Promise<string | null> {
+        const suffix = getSidecarSuffix(relativePath);
+        if (!suffix || !this.sourceDir || !this.targetDir) return null;
+        if (this.sidecarPolicy === 'never') return 'sidecar sync disabled';
+        const fromRoot = direction === 'push' ? this.sourceDir : this.targetDir;
+        const toRoot = direction === 'push' ? this.targetDir : this.sourceDir;
+        if (!await pathExists(path.join(fromRoot, relativePath.slice(0, -suffix.length)))) return SIDECAR_WITHOUT_MAIN;
+        if (this.sidecarPolicy === 'onlyIfPresent' && !await pathExists(path.join(toRoot, relativePath))) {
+            return `sidecar not present in ${direction === 'push' ? 'target' : 'source'}`;
+        }
+        return null;
+    }
+
+    private async hasSourceMainFile(sidecarRel: string): Promise<boolean> {
+        const suffix = getSidecarSuffix(sidecarRel);
+        return !!suffix && !!this.sourceDir && pathExists(path.join(this.sourceDir, sidecarRel.slice(0, -suffix.length)));
+    }
+
+    // Godot generates sidecars in the target for files that exist in the source, and manages all of them when sidecars are not synced
+    private async isTargetOwnedSidecar(relativePath: string): Promise<boolean> {
+        if (!getSidecarSuffix(relativePath)) return false;
+        return this.sidecarPolicy === 'never' || await this.hasSourceMainFile(relativePath);
+    }
+
+    // The queue orders each sidecar after any event already pending for it, and skips it when unchanged
+    private async queueSidecars(relativePath: string, direction: SyncDirection): Promise<void> {
+        if (getSidecarSuffix(relativePath) || this.sidecarPolicy === 'never' || !this.sourceDir) return;
+        const fromRoot = direction === 'push' ? this.sourceDir : this.targetDir;
+        if (!fromRoot) return;
+        const rules = this.getRules();
+        for (const suffix of GODOT_SIDECAR_SUFFIXES) {
+            const sidecarRel = relativePath + suffix;
+            const sidecarPath = path.join(fromRoot, sidecarRel);
+            if (rules.shouldSyncFile(sidecarRel) && await pathExists(sidecarPath) && !await this.getSidecarSkipReason(sidecarRel, direction)) {
+                this.addToQueue(sidecarPath, 'change', direction);
+            }
+        }
+    }
+
+    // Sidecars left next to a deleted file would be orphans Godot still reads
+    private async deleteSidecars(relativePath: string, root: string, side: BackupSide): Promise<void> {
+        if (getSidecarSuffix(relativePath) || this.sidecarPolicy === 'never') return;
+        const manifest = this.getManifest();
+        const rules = this.getRules();
+        for (const suffix of GODOT_SIDECAR_SUFFIXES) {
+            const sidecarRel = relativePath + suffix;
+            const sidecarPath = path.join(root, sidecarRel);
+            if (!rules.shouldSyncFile(sidecarRel) || !(await pathExists(sidecarPath))) continue;
+            try {
+                await this.backupBeforeWrite(sidecarPath, side, sidecarRel, 'delete');
+                await this.unlinkWithRetry(sidecarPath);
+            } catch (err: unknown) {
+                const msg = err instanceof Error ? err.message : String(err);
+                this.log(`Warning: Could not delete ${this.toDisplayPath(sidecarRel)}: ${msg}`, { level: 'warn', path: sidecarRel });
+                continue;
+            }
+            await this.markOwnWrite(sidecarPath, true);
+            manifest.delete(sidecarRel);
+            this.log(`${side === 'target' ? 'Deleted' : 'Deleted in source'}: ${this.toDisplayPath(sidecarRel)}`, { action: 'deleted', path: sidecarRel });
+        }
+    }
+
+    private queueReferenceScan(move: ResourceMove): void {
+        if (this.rewriteReferences === 'off' || !this.options.onReferenceEdits) return;
+        this.pendingMoves.push(move);
+        if (this.referenceScanTimer) clearTimeout(this.referenceScanTimer);
+        this.referenceScanTimer = setTimeout(() => {
+            this.referenceScanTimer = null;
+            const moves = this.pendingMoves;
+            this.pendingMoves = [];
+            this.proposeReferenceEdits(moves);
+        }, REFERENCE_SCAN_DELAY_MS);
+    }
+
+    private clearPendingMoves(): void {
+        if (this.referenceScanTimer) {
+            clearTimeout(this.referenceScanTimer);
+            this.referenceScanTimer = null;
+        }
+        this.pendingMoves = [];
+    }
+
+    private async proposeReferenceEdits(moves: ResourceMove[]): Promise<void> {
+        if (!this.sourceDir || !this.targetDir) return;
+        try {
+            const edits = await findReferenceEdits('target', this.targetDir, moves);
+            if (this.rewriteReferences === 'sourceAndTarget') {
+                // Source files are written against the target project, so look for the target's res:// paths
+                edits.push(...await findReferenceEdits('source', this.sourceDir, moves, this.targetDir));
+            }
+            if (edits.length > 0) {
+                this.log(`Found ${edits.length} res:// references to moved files.`);
+                this.options.onReferenceEdits?.(edits);
+            }
+        } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            this.log(`Warning: Could not look up references to moved files: ${msg}`, { level: 'warn' });
+        }
+    }
+
+    /**
+     * Writes reviewed reference edits. Returns the number of lines changed.
+     */
+    public async applyReferenceEdits(edits: ReferenceEdit[]): Promise<number> {
+        const byFile = new Map<string, ReferenceEdit[]>();
+        for (const edit of edits) {
+            const fileEdits = byFile.get(edit.filePath) || [];
+            fileEdits.push(edit);
+            byFile.set(edit.filePath, fileEdits);
+        }
+
+        let total = 0;
+        const written: { filePath: string; side: 'source' | 'target' }[] = [];
+        for (const [filePath, fileEdits] of byFile) {
+            const root = fileEdits[0].side === 'source' ? this.sourceDir : this.targetDir;
+            const displayPath = root ? path.relative(root, filePath) : filePath;
+            try {
+                const result = applyEditsToContent(await fs.readFile(filePath, 'utf8'), fileEdits);
+                if (result.applied === 0) {
+                    this.log(`Skipped reference update (file changed since preview): ${displayPath}`, { action: 'skipped' });
+                    continue;
+                }
+                const tmp = filePath + `${TEMP_FILE_MARKER}${process.pid}_${Math.random().toString(36).slice(2)}`;
+                await fs.writeFile(tmp, result.content, 'utf8');
+                await this.withRetry('rename(references)', async () => {
+                    await fs.rename(tmp, filePath);
+                });
+                written.push({ filePath, side: fileEdits[0].side });
+                total += result.applied;
+                this.log(`Updated references: ${displayPath} (${result.applied} ${result.applied === 1 ? 'line' : 'lines'})`);
+            } catch (err: unknown) {
+                const msg = err instanceof Error ? err.message : String(err);
+                this.log(`Error updating references in ${displayPath}: ${msg}`, { action: 'error' });
+            }
+        }
+        await this.recordReferenceEdits(written);
+        return total;
+    }
+
+    /**
+     * Brings the manifest up to date with rewritten files, so the next check does not take the
+     * rewrite for an independent edit. A file rewritten the same way on both sides is recorded
+     * as synced; in two-way mode a one-sided rewrite is synced across like any other change.
+     */
+    private async recordReferenceEdits(written: { filePath: string; side: 'source' | 'target' }[]): Promise<void> {
+        if (!this.sourceDir || !this.targetDir || written.length === 0) return;
+        const manifest = this.getManifest();
+        for (const { filePath, side } of written) {
+            const relativePath = path.relative(side === 'source' ? this.sourceDir : this.targetDir, filePath);
+            if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) continue;
+            const sourcePath = path.join(this.sourceDir, relativePath);
+            const targetPath = path.join(this.targetDir, relativePath);
+            const entry = manifest.get(relativePath);
+            const source = await this.readManifestSide(sourcePath);
+            const target = await this.readManifestSide(targetPath);
+            if (source && target && source.hash === target.hash) {
+                manifest.set(relativePath, buildManifestEntry(source, target, entry ? entry.syncedAt : Date.now()));
+                await this.markOwnWrite(sourcePath);
+                await this.markOwnWrite(targetPath);
+            } else if (this.mode === 'twoWay') {
+                this.addToQueue(filePath, 'change', side === 'source' ? 'push' : 'pull');
+            } else if (side === 'target' && entry && target) {
+                // One-way: the source still holds the old path, so keep its side and only move the target's
+                manifest.set(relativePath, buildManifestEntry(getManifestSide(entry, 'source'), target, entry.syncedAt));
+            }
+        }
+        await this.flushManifest();
+    }
+
+    private async readManifestSide(filePath: string): Promise<ManifestSide | null> {
+        try {
+            const stat = await fs.stat(filePath);
+            return { hash: await hashFile(filePath), mtimeMs: stat.mtimeMs, size: stat.size };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Decides whether a file must be copied by comparing it with the manifest and its counterpart.
+     * When the stats of both sides match the manifest nothing is read; the destination is only
+     * hashed when it changed since the last sync.
+     */
+    private async decideCopy(relativePath: string, fromPath: string, destPath: string, fromStat: Stats, direction: SyncDirection = 'push'): Promise<CopyDecision> {
+        let destStat: Stats | null = null;
+        try {
+            destStat = await fs.stat(destPath);
+        } catch (err: unknown) {
+            if (this.getErrorCode(err) !== 'ENOENT') {
+                const msg = err instanceof Error ? err.message : String(err);
+                this.log(`Warning: Could not stat destination ${relativePath}. Proceeding. Error: ${msg}`, { level: 'warn' });
+            }
+        }
+
+        const fromSide = direction === 'push' ? 'source' : 'target';
+        const destSide = direction === 'push' ? 'target' : 'source';
+        const manifest = this.getManifest();
+        const entry = manifest.get(relativePath);
+        const knownFrom = entry ? getManifestSide(entry, fromSide) : null;
+        const knownDest = entry ? getManifestSide(entry, destSide) : null;
+        const fromUnchanged = !!knownFrom && knownFrom.mtimeMs === fromStat.mtimeMs && knownFrom.size === fromStat.size;
+        const destUnchanged = !!knownDest && !!destStat && knownDest.mtimeMs === destStat.mtimeMs && knownDest.size === destStat.size;
+        if (fromUnchanged && destUnchanged) {
+            return { action: 'skip', reason: 'unchanged' };
+        }
+
+        const fromHash = fromUnchanged && knownFrom ? knownFrom.hash : await hashFile(fromPath);
+        if (!destStat) {
+            if (entry && this.mode === 'twoWay') {
+                return { action: 'removedOnOtherSide' };
+            }
+            return { action: 'copy', reason: 'new', hash: fromHash };
+        }
+        const destHash = destUnchanged && knownDest ? knownDest.hash : await hashFile(destPath);
+        if (knownFrom && knownDest && fromHash !== destHash && destHash !== knownDest.hash) {
+            // The destination was edited independently since the last sync
+            if (fromHash !== knownFrom.hash) {
+                return { action: 'conflict' };
+            }
+            return { action: 'skip', reason: `${destSide} modified since last sync` };
+        }
+        if (fromHash === destHash) {
+            // Same content (e.g. only mtimes moved): remember it so the next check is stat-only
+            const from = { hash: fromHash, mtimeMs: fromStat.mtimeMs, size: fromStat.size };
+            const dest = { hash: destHash, mtimeMs: destStat.mtimeMs, size: destStat.size };
+            const syncedAt = entry ? entry.syncedAt : Date.now();
+            manifest.set(relativePath, direction === 'push' ? buildManifestEntry(from, dest, syncedAt) : buildManifestEntry(dest, from, syncedAt));
+            return { action: 'skip', reason: 'unchanged' };
+        }
+        return { action: 'copy', reason: 'changed', hash: fromHash };
+    }
+
+    public getConflicts(): SyncConflict[] {
+        return [...this.conflicts.values()];
+    }
+
+    private addConflict(conflict: SyncConflict): void {
+        const known = this.conflicts.has(conflict.relativePath);
+        this.conflicts.set(conflict.relativePath, conflict);
+        if (!known) {
+            this.log(`Conflict (source and target both changed): ${conflict.relativePath}`, { action: 'conflict', path: conflict.relativePath });
+            this.notifyConflicts();
+        }
+    }
+
+    private removeConflict(relativePath: string): void {
+        if (this.conflicts.delete(relativePath)) {
+            this.notifyConflicts();
+        }
+    }
+
+    private notifyConflicts(): void {
+        if (this.options.onConflictsChanged) {
+            this.options.onConflictsChanged(this.getConflicts());
+        }
+    }
+
+    /**
+     * Resolves a conflict and records the outcome in the manifest, so the same pair
+     * of versions is not reported again.
+     */
+    public async resolveConflict(relativePath: string, resolution: ConflictResolution): Promise<void> {
+        if (!this.sourceDir || !this.targetDir) {
+            throw new Error('Sync pair is not configured.');
+        }
+        const sourcePath = path.join(this.sourceDir, relativePath);
+        const targetPath = path.join(this.targetDir, relativePath);
+
+        if (resolution === 'keepTarget') {
+            const targetStat = await fs.stat(targetPath);
+            if (this.mode === 'twoWay') {
+                await this.backupBeforeWrite(sourcePath, 'source', relativePath, 'overwrite');
+                await this.copyFileAtomicWithRetry(targetPath, sourcePath);
+                await this.markOwnWrite(sourcePath);
+                await this.recordSynced(relativePath, 'pull', targetStat, sourcePath, await hashFile(targetPath));
+            } else {
+                // One-way: leave both files alone and accept the current pair of versions as synced
+                const sourceStat = await fs.stat(sourcePath);
+                this.getManifest().set(relativePath, buildManifestEntry(
+                    { hash: await hashFile(sourcePath), mtimeMs: sourceStat.mtimeMs, size: sourceStat.size },
+                    { hash: await hashFile(targetPath), mtimeMs: targetStat.mtimeMs, size: targetStat.size }
+                ));
+            }
+            this.log(`Conflict resolved (kept target): ${relativePath}`);
+        } else {
+            // Backed up before the rename below moves the target version away
+            await this.backupBeforeWrite(targetPath, 'target', relativePath, 'overwrite');
+            if (resolution === 'saveBoth') {
+                const copyPath = conflictCopyPath(targetPath);
+                await this.withRetry('rename(target->conflict copy)', async () => {
+                    await fs.rename(targetPath, copyPath);
+                });
+                this.log(`Target version saved as: ${path.relative(this.targetDir, copyPath)}`);
+            }
+            const sourceStat = await fs.stat(sourcePath);
+            await this.copyFileAtomicWithRetry(sourcePath, targetPath);
+            await this.markOwnWrite(targetPath);
+            await this.recordSynced(relativePath, 'push', sourceStat, targetPath, await hashFile(sourcePath));
+            this.log(`Conflict resolved (${resolution === 'saveBoth' ? 'saved both' : 'kept source'}): ${relativePath}`);
+        }
+        this.removeConflict(relativePath);
+        await this.flushManifest();
+    }
+
+    /**
+     * Puts a backed-up version back in place. The current file, if any, is backed up first
+     * so a restore can itself be undone.
+     */
+    public async restoreBackup(entry: BackupEntry, store: BackupStore): Promise<void> {
+        if (!this.sourceDir || !this.targetDir) {
+            throw new Error('Sync pair is not configured.');
+        }
+        const root = path.resolve(entry.side === 'source' ? this.sourceDir : this.targetDir);
+        const destPath = path.resolve(root, entry.relativePath);
+        if (!destPath.startsWith(root + path.sep)) {
+            throw new Error(`Backup path is outside the ${entry.side} directory: ${entry.relativePath}`);
+        }
+        await store.backup(destPath, entry.side, entry.relativePath, 'overwrite');
+        await fs.mkdir(path.dirname(destPath), { recursive: true });
+        await this.copyFileAtomicWithRetry(store.getBackupPath(entry), destPath);
+        await this.markOwnWrite(destPath);
+        await this.recordRestored(entry.relativePath, entry.side);
+        await this.flushManifest();
+        const displayPath = entry.side === 'target' ? this.toDisplayPath(entry.relativePath) : entry.relativePath;
+        this.log(`Restored ${entry.side} file from backup of ${new Date(entry.createdAt).toLocaleString()}: ${displayPath}`, { path: entry.relativePath });
+    }
+
+    // The restored side is recorded as it now is and the other side as last synced, so neither
+    // side's next check takes the restore for an edit to sync across or a conflict
+    private async recordRestored(relativePath: string, side: BackupSide): Promise<void> {
+        if (!this.sourceDir || !this.targetDir) return;
+        const manifest = this.getManifest();
+        const entry = manifest.get(relativePath);
+        const restored = await this.readManifestSide(path.join(side === 'source' ? this.sourceDir : this.targetDir, relativePath));
+        if (!restored) return;
+        const other = await this.readManifestSide(path.join(side === 'source' ? this.targetDir : this.sourceDir, relativePath));
+        const syncedAt = entry ? entry.syncedAt : Date.now();
+        if (other && other.hash === restored.hash) {
+            manifest.set(relativePath, side === 'source' ? buildManifestEntry(restored, other, syncedAt) : buildManifestEntry(other, restored, syncedAt));
+        } else if (entry) {
+            const known = getManifestSide(entry, side === 'source' ? 'target' : 'source');
+            manifest.set(relativePath, side === 'source' ? buildManifestEntry(restored, known, syncedAt) : buildManifestEntry(known, restored, syncedAt));
+        }
+    }
+
+    private async backupBeforeWrite(filePath: string, side: BackupSide, relativePath: string, reason: BackupReason): Promise<void> {
+        if (!this.backups) return;
+        try {
+            await this.backups.backup(filePath, side, relativePath, reason);
+        } catch (err: unknown) {
+            // Without a backup the file is left alone
+            const msg = err instanceof Error ? err.message : String(err);
+            throw new Error(`Could not back up ${side} file before ${reason === 'delete' ? 'deleting' : 'overwriting'} it: ${msg}`);
+        }
+    }
+
+    private async recordSynced(relativePath: string, direction: SyncDirection, fromStat: Stats, destPath: string, hash: string): Promise<void> {
+        const destStat = await fs.stat(destPath);
+        const from = { hash, mtimeMs: fromStat.mtimeMs, size: fromStat.size };
+        const dest = { hash, mtimeMs: destStat.mtimeMs, size: destStat.size };
+        this.getManifest().set(relativePath, direction === 'push' ? buildManifestEntry(from, dest) : buildManifestEntry(dest, from));
+    }
+
+    private async flushManifest(): Promise<void> {
+        if (!this.manifest) return;
+        try {
+            await this.manifest.flush();
+        } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            this.log(`Warning: Could not save sync manifest: ${msg}`, { level: 'warn' });
         }
     }
 
     private handleError(error: Error): void {
-        this.log(`Watcher error: ${error.message}`);
+        this.log(`Watcher error: ${error.message}`, { action: 'error' });
         vscode.window.showErrorMessage(`Godot Sync Watcher Error: ${error.message}`);
         this.stop();
     }
@@ -294,17 +1836,11 @@ export class SyncService {
         this.stop();
     }
 
-    private shouldIgnorePath(p: string): boolean {
+    private shouldIgnorePath(p: string, root: string | null = this.sourceDir): boolean {
         try {
-            if (!this.sourceDir) return false;
-            const rel = path.relative(this.sourceDir, p);
-            const parts = rel.split(path.sep);
-
-            if (parts.includes('.godot')) return true;
-            if (parts.includes('.import')) return true;
-            if (!this.includeHidden) {
-                if (parts.some(seg => seg.startsWith('.'))) return true;
-            }
+            if (!root) return false;
+            if (this.isIgnoreFile(p) || path.basename(p) === GDIGNORE_FILE_NAME) return false;
+            return this.getRules().isIgnoredPath(path.relative(root, p));
         } catch (_e) { /* ignore */ }
         return false;
     }
@@ -325,14 +1861,20 @@ export class SyncService {
             }
         }
         const lastMsg = lastErr instanceof Error ? lastErr.message : String(lastErr);
-        throw new Error(`${opName} failed after retries: ${lastMsg}`);
+        // Keeps the code so callers can still tell a locked file from a full disk
+        throw Object.assign(new Error(`${opName} failed after retries: ${lastMsg}`), { code: this.getErrorCode(lastErr) });
     }
 
     private async copyFileAtomicWithRetry(src: string, dst: string): Promise<void> {
-        const tmp = dst + `.__godotsync_tmp_${process.pid}_${Math.random().toString(36).slice(2)}`;
-        await this.withRetry('copyFile(tmp)', async () => {
-            await fs.copyFile(src, tmp);
-        });
+        const tmp = dst + `${TEMP_FILE_MARKER}${process.pid}_${Math.random().toString(36).slice(2)}`;
+        try {
+            await this.withRetry('copyFile(tmp)', async () => {
+                await fs.copyFile(src, tmp);
+            });
+        } catch (err) {
+            try { await fs.unlink(tmp); } catch { /* ignore */ }
+            throw err;
+        }
         await this.withRetry('removeExistingTarget', async () => {
             try { await fs.unlink(dst); } catch (e: unknown) { if (this.getErrorCode(e) !== 'ENOENT') throw e; }
         }, 2, 30).catch((_err) => { return; });
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import { FileSyncResult } from './SyncService';
+
+export interface SyncErrorRecord {
+    pairName: string;
+    relativePath: string;
+    message: string;
+    at: number;
+}
+
+const RENDER_DELAY_MS = 200;
+const MAX_ERRORS = 50;
+
+function formatTime(time: number): string {
+    return new Date(time).toLocaleTimeString();
+}
+
+/**
+ * Status bar item summarizing all sync pairs: stopped, idle (with the last copy time) or
+ * syncing (with the number of pending files). Failed files switch it to a warning state
+ * that stays until the errors are acknowledged.
+ */
+export class SyncStatusBar implements vscode.Disposable {
+    private readonly item: vscode.StatusBarItem;
+    private runningPairs = 0;
+    private pendingByPair = new Map<string, number>();
+    private pausedPairs = new Set<string>();
+    private lastCopyAt: number | null = null;
+    private errors: SyncErrorRecord[] = [];
+    private renderTimer: NodeJS.Timeout | null = null;
+
+    constructor(command: string) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.item.command = command;
+        this.item.name = 'Godot Sync';
+        this.render();
+        this.item.show();
+    }
+
+    public setRunningPairs(count: number): void {
+        this.runningPairs = count;
+        this.scheduleRender();
+    }
+
+    public setPending(pairId: string, pending: number): void {
+        if (pending > 0) {
+            this.pendingByPair.set(pairId, pending);
+        } else {
+            this.pendingByPair.delete(pairId);
+        }
+        this.scheduleRender();
+    }
+
+    public setPaused(pairId: string, paused: boolean): void {
+        if (paused) {
+            this.pausedPairs.add(pairId);
+        } else {
+            this.pausedPairs.delete(pairId);
+        }
+        this.scheduleRender();
+    }
+
+    public recordResult(pairName: string, result: FileSyncResult): void {
+        if (result.outcome === 'copied') {
+            this.lastCopyAt = Date.now();
+        } else if (result.outcome === 'failed') {
+            this.errors.push({
+                pairName,
+                relativePath: result.relativePath,
+                message: result.error || 'unknown error',
+                at: Date.now()
+            });
+            if (this.errors.length > MAX_ERRORS) {
+                this.errors.shift();
+            }
+        } else {
+            return;
+        }
+        this.scheduleRender();
+    }
+
+    /** Errors recorded since the last acknowledgement, oldest first. */
+    public getErrors(): readonly SyncErrorRecord[] {
+        return this.errors;
+    }
+
+    public acknowledgeErrors(): void {
+        this.errors = [];
+        this.scheduleRender();
+    }
+
+    public dispose(): void {
+        if (this.renderTimer) {
+            clearTimeout(this.renderTimer);
+            this.renderTimer = null;
+        }
+        this.item.dispose();
+    }
+
+    private scheduleRender(): void {
+        if (this.renderTimer) return;
+        // Queue updates arrive once per file; redraw at most a few times per second
+        this.renderTimer = setTimeout(() => {
+            this.renderTimer = null;
+            this.render();
+        }, RENDER_DELAY_MS);
+    }
+
+    private render(): void {
+        const pending = [...this.pendingByPair.values()].reduce((sum, n) => sum + n, 0);
+        const tooltip: string[] = [];
+        let text: string;
+
+        if (this.runningPairs === 0) {
+            text = '$(circle-slash) Godot Sync: Off';
+            tooltip.push('Godot Sync is stopped.');
+        } else if (this.pausedPairs.size > 0) {
+            text = pending > 0 ? `$(debug-pause) Godot Sync: Paused · ${pending} buffered` : '$(debug-pause) Godot Sync: Paused';
+            tooltip.push(`${this.pausedPairs.size} of ${this.runningPairs} pair(s) paused; changes are applied on resume.`);
+        } else if (pending > 0) {
+            text = `$(sync~spin) Godot Sync: ${pending} pending`;
+            tooltip.push(`Syncing ${pending} file(s) in ${this.runningPairs} pair(s).`);
+        } else {
+            text = '$(check) Godot Sync';
+            tooltip.push(`Watching ${this.runningPairs} pair(s), nothing pending.`);
+        }
+        if (this.lastCopyAt !== null) {
+            if (this.runningPairs > 0 && pending === 0) {
+                text += ` · ${formatTime(this.lastCopyAt)}`;
+            }
+            tooltip.push(`Last copy at ${formatTime(this.lastCopyAt)}.`);
+        }
+
+        if (this.errors.length > 0) {
+            text = `$(warning) ${text.replace(/^\$\([^)]+\) /, '')}`;
+            tooltip.push(`${this.errors.length} file(s) failed to sync. Click to review.`);
+            this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else {
+            this.item.backgroundColor = undefined;
+        }
+
+        this.item.text = text;
+        this.item.tooltip = tooltip.join('\n');
+    }
+}
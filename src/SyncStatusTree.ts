@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FILE_SYNC_STATES, FileStatus, FileStatusStore, FileSyncState } from './SyncFileStatus';
+import { SyncPair } from './SyncPair';
+
+export const FILE_STATE_LABELS: Record<FileSyncState, string> = {
+    synced: 'Synced',
+    pending: 'Pending',
+    skipped: 'Skipped',
+    failed: 'Failed',
+    conflicted: 'Conflicted',
+    excluded: 'Excluded'
+};
+
+const STATE_ICONS: Record<FileSyncState, vscode.ThemeIcon> = {
+    synced: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    pending: new vscode.ThemeIcon('sync'),
+    skipped: new vscode.ThemeIcon('debug-step-over', new vscode.ThemeColor('editorWarning.foreground')),
+    failed: new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground')),
+    conflicted: new vscode.ThemeIcon('git-merge', new vscode.ThemeColor('gitDecoration.conflictingResourceForeground')),
+    excluded: new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('disabledForeground'))
+};
+
+type StatusNode =
+    | { kind: 'pair'; pair: SyncPair }
+    | { kind: 'state'; pair: SyncPair; state: FileSyncState; count: number }
+    | { kind: 'file'; pair: SyncPair; status: FileStatus };
+
+export function describeFileStatus(status: FileStatus): string[] {
+    const lines = [`${FILE_STATE_LABELS[status.state]}${status.reason ? `: ${status.reason}` : ''}`];
+    lines.push(status.syncedAt ? `Last synced ${new Date(status.syncedAt).toLocaleString()}` : 'Never synced');
+    lines.push(`Target: ${status.targetPath}`);
+    return lines;
+}
+
+/**
+ * Source files of each pair grouped by sync state, most urgent first. Pairs appear once a
+ * scan has run, which happens when they start and on refresh.
+ */
+export class SyncStatusTreeProvider implements vscode.TreeDataProvider<StatusNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<StatusNode | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+    private refreshTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly store: FileStatusStore,
+        private readonly getPairs: () => SyncPair[]
+    ) {
+        store.onDidChange(() => this.scheduleRefresh());
+    }
+
+    // Busy syncs report many files per second; redraw at most a few times per second
+    public scheduleRefresh(): void {
+        if (this.refreshTimer) return;
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            this.changeEmitter.fire(undefined);
+        }, 250);
+    }
+
+    public getTreeItem(node: StatusNode): vscode.TreeItem {
+        if (node.kind === 'pair') {
+            const item = new vscode.TreeItem(node.pair.name, vscode.TreeItemCollapsibleState.Expanded);
+            const counts = this.store.countByState(node.pair.id);
+            const outstanding = counts.pending + counts.failed + counts.conflicted + counts.skipped;
+            item.description = outstanding > 0 ? `${outstanding} not in target` : `${counts.synced} synced`;
+            item.tooltip = `${node.pair.sourceDir} → ${node.pair.targetDir}`;
+            item.iconPath = new vscode.ThemeIcon('folder-library');
+            item.contextValue = 'godotSyncPair';
+            return item;
+        }
+        if (node.kind === 'state') {
+            // Synced and excluded files are usually the bulk of a project; keep them folded
+            const collapsed = node.state === 'synced' || node.state === 'excluded';
+            const item = new vscode.TreeItem(
+                FILE_STATE_LABELS[node.state],
+                collapsed ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded
+            );
+            item.id = `${node.pair.id}:${node.state}`;
+            item.description = String(node.count);
+            item.iconPath = STATE_ICONS[node.state];
+            return item;
+        }
+        const { status } = node;
+        const item = new vscode.TreeItem(vscode.Uri.file(status.sourcePath), vscode.TreeItemCollapsibleState.None);
+        item.id = `${node.pair.id}:file:${status.relativePath}`;
+        item.label = path.posix.basename(status.relativePath);
+        const folder = path.posix.dirname(status.relativePath);
+        item.description = [folder === '.' ? '' : folder, status.reason || ''].filter(Boolean).join(' · ');
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${status.relativePath}**\n\n`);
+        tooltip.appendText(describeFileStatus(status).join('\n'));
+        item.tooltip = tooltip;
+        item.iconPath = STATE_ICONS[status.state];
+        item.contextValue = 'godotSyncFile';
+        item.command = { command: 'vscode.open', title: 'Open Source File', arguments: [vscode.Uri.file(status.sourcePath)] };
+        return item;
+    }
+
+    public getChildren(node?: StatusNode): StatusNode[] {
+        if (!node) {
+            return this.getPairs()
+                .filter(pair => this.store.hasPair(pair.id))
+                .map(pair => ({ kind: 'pair', pair }));
+        }
+        if (node.kind === 'pair') {
+            const counts = this.store.countByState(node.pair.id);
+            return FILE_SYNC_STATES
+                .filter(state => counts[state] > 0)
+                .map(state => ({ kind: 'state', pair: node.pair, state, count: counts[state] }));
+        }
+        if (node.kind === 'state') {
+            return this.store.list(node.pair.id)
+                .filter(status => status.state === node.state)
+                .map(status => ({ kind: 'file', pair: node.pair, status }));
+        }
+        return [];
+    }
+
+    public dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.changeEmitter.dispose();
+    }
+}
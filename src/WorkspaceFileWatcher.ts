@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+
+export type WorkspaceFileEventType = 'add' | 'change' | 'unlink';
+
+/**
+ * Reports files saved, created, renamed or deleted through VS Code instead of watching the
+ * file system, so it needs no recursive watcher or polling and works the same in remote windows.
+ * Renames arrive as an unlink of the old path followed by an add of the new one; created and
+ * deleted folders are reported as a single path.
+ */
+export class WorkspaceFileWatcher {
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly onEvent: (filePath: string, eventType: WorkspaceFileEventType) => void) {}
+
+    public start(): void {
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(document => this.report(document.uri, 'change')),
+            vscode.workspace.onDidCreateFiles(event => {
+                for (const uri of event.files) this.report(uri, 'add');
+            }),
+            vscode.workspace.onDidRenameFiles(event => {
+                for (const file of event.files) {
+                    this.report(file.oldUri, 'unlink');
+                    this.report(file.newUri, 'add');
+                }
+            }),
+            vscode.workspace.onDidDeleteFiles(event => {
+                for (const uri of event.files) this.report(uri, 'unlink');
+            })
+        );
+    }
+
+    public dispose(): void {
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables = [];
+    }
+
+    // Untitled documents and virtual file systems have no path the sync could copy. In remote windows
+    // the extension runs next to the files, so their URIs use the file scheme too.
+    private report(uri: vscode.Uri, eventType: WorkspaceFileEventType): void {
+        if (uri.scheme !== 'file') return;
+        this.onEvent(uri.fsPath, eventType);
+    }
+}
@@ -1,9 +1,11 @@
 import * as vscode from 'vscode';
 import { GodotSyncViewProvider } from './GodotSyncViewProvider';
+import { GodotSyncApi } from './GodotSyncApi';
+import { RETRY_FILE_COMMAND } from './SyncDiagnostics';
 
 let viewProvider: GodotSyncViewProvider | undefined;
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): GodotSyncApi {
     viewProvider = new GodotSyncViewProvider(context.extensionUri, context);
 
     context.subscriptions.push(
@@ -25,15 +27,75 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.pause', () => {
+            viewProvider?.pauseSync();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.resume', () => {
+            viewProvider?.resumeSync();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.preview', () => {
+            viewProvider?.previewSync();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.syncNow', () => {
+            viewProvider?.syncNow(false);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.mirror', () => {
+            viewProvider?.syncNow(true);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.findOrphans', () => {
+            viewProvider?.findOrphans();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.syncResource', (uri?: vscode.Uri, selection?: vscode.Uri[]) => {
+            viewProvider?.syncResources(uri, selection);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.excludeResource', (uri?: vscode.Uri, selection?: vscode.Uri[]) => {
+            viewProvider?.excludeResources(uri, selection);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.openCounterpart', (uri?: vscode.Uri) => {
+            viewProvider?.openCounterpart(uri);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.compareWithTarget', (uri?: vscode.Uri) => {
+            viewProvider?.compareWithTarget(uri);
+        })
+    );
+
      context.subscriptions.push(
         vscode.commands.registerCommand('godotSync.selectSource', () => {
-             viewProvider?.selectFolder('godotSync.sourceDir', 'updateSourceDir');
+             viewProvider?.selectFolder('sourceDir');
         })
     );
 
      context.subscriptions.push(
         vscode.commands.registerCommand('godotSync.selectTarget', () => {
-            viewProvider?.selectFolder('godotSync.targetDir', 'updateTargetDir');
+            viewProvider?.selectFolder('targetDir');
         })
     );
 
@@ -43,7 +105,45 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.openWorkspaceConfig', () => {
+            viewProvider?.openWorkspaceConfig();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.restore', () => {
+            viewProvider?.restoreBackups();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.showStatusMenu', () => {
+            viewProvider?.showStatusMenu();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(RETRY_FILE_COMMAND, (uri?: vscode.Uri) => {
+            viewProvider?.retryFile(uri);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.refreshFileStatus', () => {
+            viewProvider?.refreshFileStatus();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('godotSync.showLog', () => {
+            viewProvider?.showLog();
+        })
+    );
+
     context.subscriptions.push(viewProvider);
+
+    return viewProvider.getApi();
 }
 
 export function deactivate() {
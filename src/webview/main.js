@@ -12,17 +12,30 @@ document.addEventListener('DOMContentLoaded', () => {
         const allowDeletionCheckbox = document.getElementById('allowDeletion');
         const includeHiddenCheckbox = document.getElementById('includeHidden');
         const statusDiv = document.getElementById('status');
-        const logArea = document.getElementById('logArea'); 
+        const logList = document.getElementById('logList');
+        const logLevelFilter = document.getElementById('logLevelFilter');
+        const logActionFilter = document.getElementById('logActionFilter');
+        const logSearch = document.getElementById('logSearch');
+        const exportLogButton = document.getElementById('exportLogButton');
         const usePollingCheckbox = document.getElementById('usePolling');
         const syncImportFilesCheckbox = document.getElementById('syncImportFiles');
+        const syncUidFilesCheckbox = document.getElementById('syncUidFiles');
+        const sidecarPolicySelect = document.getElementById('sidecarPolicySelect');
+        const triggerSelect = document.getElementById('triggerSelect');
+        const twoWayCheckbox = document.getElementById('twoWay');
+        const useExportFiltersCheckbox = document.getElementById('useExportFilters');
         const presetSelect = document.getElementById('presetSelect');
+        const rewriteReferencesSelect = document.getElementById('rewriteReferencesSelect');
         const deletionWarning = document.getElementById('deletionWarning');
         const pollingBanner = document.getElementById('pollingBanner');
         const enablePollingNowBtn = document.getElementById('enablePollingNow');
         const dismissPollingBannerBtn = document.getElementById('dismissPollingBanner');
         const clearLogButton = document.getElementById('clearLogButton');
+        const pairSelect = document.getElementById('pairSelect');
+        const includeInput = document.getElementById('includePatterns');
+        const excludeInput = document.getElementById('excludePatterns');
 
-        if (!sourceDirInput || !targetDirInput || !extensionsInput || !statusDiv || !logArea || !allowDeletionCheckbox || !includeHiddenCheckbox) {
+        if (!sourceDirInput || !targetDirInput || !extensionsInput || !statusDiv || !logList || !allowDeletionCheckbox || !includeHiddenCheckbox) {
             console.error("[Webview] Erro CRÍTICO inicial: Elementos essenciais da UI faltando no DOM após setTimeout. Verifique os IDs no HTML e no main.js.");
             if (statusDiv) statusDiv.textContent = 'Error: Critical UI elements missing!';
             return; 
@@ -36,7 +49,20 @@ document.addEventListener('DOMContentLoaded', () => {
         let includeHidden = false;
         let usePolling = false;
         let syncImportFiles = true;
+        let syncUidFiles = true;
+        let sidecarPolicy = 'always';
+        let trigger = 'watcher';
+        let mode = 'oneWay';
+        let useExportFilters = false;
+        let rewriteReferences = 'off';
         let currentPreset = 'none';
+        let currentInclude = '';
+        let currentExclude = '';
+        let pairs = [];
+        let selectedPairId = '';
+        let logEntries = [];
+        let logRetention = 1000;
+        const LOG_LEVELS = ['info', 'warn', 'error'];
 
         function updateUIState() {
             if (!sourceDirInput || !targetDirInput || !extensionsInput || !statusDiv || !allowDeletionCheckbox || !includeHiddenCheckbox) {
@@ -45,6 +71,7 @@ document.addEventListener('DOMContentLoaded', () => {
             }
             const startButtonForUI = document.getElementById('startButton');
             const stopButtonForUI = document.getElementById('stopButton');
+            const pauseButtonForUI = document.getElementById('pauseButton');
             const selectSourceButtonForUI = document.getElementById('selectSource');
             const selectTargetButtonForUI = document.getElementById('selectTarget');
 
@@ -55,27 +82,54 @@ document.addEventListener('DOMContentLoaded', () => {
             sourceDirInput.value = currentSourceDir || '';
             targetDirInput.value = currentTargetDir || '';
             extensionsInput.value = currentExtensions || '';
+            if (includeInput) includeInput.value = currentInclude || '';
+            if (excludeInput) excludeInput.value = currentExclude || '';
             allowDeletionCheckbox.checked = allowDeletion || false;
             includeHiddenCheckbox.checked = includeHidden || false;
             if (usePollingCheckbox) usePollingCheckbox.checked = usePolling || false;
             if (syncImportFilesCheckbox) syncImportFilesCheckbox.checked = syncImportFiles || false;
+            if (syncUidFilesCheckbox) syncUidFilesCheckbox.checked = syncUidFiles || false;
+            if (sidecarPolicySelect) sidecarPolicySelect.value = sidecarPolicy || 'always';
+            if (triggerSelect) triggerSelect.value = trigger || 'watcher';
+            if (twoWayCheckbox) twoWayCheckbox.checked = mode === 'twoWay';
+            if (useExportFiltersCheckbox) useExportFiltersCheckbox.checked = useExportFilters || false;
             if (presetSelect) presetSelect.value = currentPreset || 'none';
+            if (rewriteReferencesSelect) rewriteReferencesSelect.value = rewriteReferences || 'off';
+
+            const pauseReason = getSelectedPauseReason();
+            if (pauseButtonForUI) {
+                pauseButtonForUI.disabled = !isRunning;
+                pauseButtonForUI.textContent = pauseReason ? 'Resume' : 'Pause';
+                pauseButtonForUI.title = pauseReason === 'git'
+                    ? 'Paused while a git operation is in progress; syncing resumes when it finishes'
+                    : 'Keep watching but hold changes until resumed';
+            }
 
             if (isRunning) {
                 statusDiv.style.color = 'var(--vscode-editorWarning-foreground)';
-                statusDiv.textContent = 'Status: Syncing...';
+                statusDiv.textContent = pauseReason === 'git'
+                    ? 'Status: Paused during git operation'
+                    : pauseReason ? 'Status: Paused' : 'Status: Syncing...';
                 if (startButtonForUI) startButtonForUI.disabled = true;
                 if (stopButtonForUI) stopButtonForUI.disabled = false;
                 if (sourceDirInput) sourceDirInput.disabled = true;
                 if (targetDirInput) targetDirInput.disabled = true;
                 if (extensionsInput) extensionsInput.disabled = true;
+                if (includeInput) includeInput.disabled = true;
+                if (excludeInput) excludeInput.disabled = true;
                 if (selectSourceButtonForUI) selectSourceButtonForUI.disabled = true;
                 if (selectTargetButtonForUI) selectTargetButtonForUI.disabled = true;
                 if (allowDeletionCheckbox) allowDeletionCheckbox.disabled = true;
                 if (includeHiddenCheckbox) includeHiddenCheckbox.disabled = true;
                 if (usePollingCheckbox) usePollingCheckbox.disabled = true;
                 if (syncImportFilesCheckbox) syncImportFilesCheckbox.disabled = true;
+                if (syncUidFilesCheckbox) syncUidFilesCheckbox.disabled = true;
+                if (sidecarPolicySelect) sidecarPolicySelect.disabled = true;
+                if (triggerSelect) triggerSelect.disabled = true;
+                if (twoWayCheckbox) twoWayCheckbox.disabled = true;
+                if (useExportFiltersCheckbox) useExportFiltersCheckbox.disabled = true;
                 if (presetSelect) presetSelect.disabled = true;
+                if (rewriteReferencesSelect) rewriteReferencesSelect.disabled = true;
             } else {
                 statusDiv.style.color = 'var(--vscode-foreground)';
                 statusDiv.textContent = 'Status: Set Source & Target.';
@@ -84,29 +138,225 @@ document.addEventListener('DOMContentLoaded', () => {
                 if (sourceDirInput) sourceDirInput.disabled = false;
                 if (targetDirInput) targetDirInput.disabled = false;
                 if (extensionsInput) extensionsInput.disabled = false;
+                if (includeInput) includeInput.disabled = false;
+                if (excludeInput) excludeInput.disabled = false;
                 if (selectSourceButtonForUI) selectSourceButtonForUI.disabled = false;
                 if (selectTargetButtonForUI) selectTargetButtonForUI.disabled = false;
                 if (allowDeletionCheckbox) allowDeletionCheckbox.disabled = false;
                 if (includeHiddenCheckbox) includeHiddenCheckbox.disabled = false;
                 if (usePollingCheckbox) usePollingCheckbox.disabled = false;
                 if (syncImportFilesCheckbox) syncImportFilesCheckbox.disabled = false;
+                if (syncUidFilesCheckbox) syncUidFilesCheckbox.disabled = false;
+                if (sidecarPolicySelect) sidecarPolicySelect.disabled = false;
+                if (triggerSelect) triggerSelect.disabled = false;
+                if (twoWayCheckbox) twoWayCheckbox.disabled = false;
+                if (useExportFiltersCheckbox) useExportFiltersCheckbox.disabled = false;
                 if (presetSelect) presetSelect.disabled = false;
+                if (rewriteReferencesSelect) rewriteReferencesSelect.disabled = false;
             }
 
-            // Show deletion warning only when allowDeletion is ON
-            if (deletionWarning) {
-                deletionWarning.style.display = allowDeletion ? 'block' : 'none';
-            }
+            updateDeletionWarning();
+        }
+
+        function getSelectedPauseReason() {
+            const pair = pairs.find(p => p.id === selectedPairId);
+            return pair ? pair.pauseReason : null;
+        }
+
+        // Show deletion warning only when allowDeletion is ON
+        function updateDeletionWarning() {
+            if (!deletionWarning) return;
+            deletionWarning.style.display = allowDeletion ? 'block' : 'none';
+            deletionWarning.innerHTML = mode === 'twoWay'
+                ? '<em>Warning: Deletion enabled. Sync is two-way (Source ↔ Target). Deleting a file on either side deletes it on the other.</em>'
+                : '<em>Warning: Deletion enabled. Sync is one-way (Source → Target). Files in Target may be overwritten or deleted.</em>';
         }
         
-        function addLogMessage(message) {
-            if (!logArea) {
-                console.error("[Webview] addLogMessage: logArea é null!");
-                return;
+        function renderPairs() {
+            if (!pairSelect) return;
+            pairSelect.innerHTML = '';
+            for (const pair of pairs) {
+                const option = document.createElement('option');
+                option.value = pair.id;
+                option.textContent = (pair.isRunning ? '● ' : '') + pair.name;
+                pairSelect.appendChild(option);
+            }
+            pairSelect.value = selectedPairId;
+            const removePairBtn = document.getElementById('removePair');
+            if (removePairBtn) removePairBtn.disabled = isRunning;
+            const stopAllBtn = document.getElementById('stopAllButton');
+            if (stopAllBtn) stopAllBtn.disabled = !pairs.some(p => p.isRunning);
+            const startAllBtn = document.getElementById('startAllButton');
+            if (startAllBtn) startAllBtn.disabled = pairs.every(p => p.isRunning);
+        }
+
+        function renderConflicts(items) {
+            const section = document.getElementById('conflictsSection');
+            const list = document.getElementById('conflictList');
+            if (!section || !list) return;
+            list.innerHTML = '';
+            section.style.display = items.length > 0 ? 'block' : 'none';
+            const actions = [
+                ['keepSource', 'Source', 'Keep source (overwrite target)'],
+                ['keepTarget', 'Target', 'Keep target (ignore this source change)'],
+                ['openDiff', 'Diff', 'Open diff'],
+                ['saveBoth', 'Both', 'Save both (rename target copy)']
+            ];
+            for (const item of items) {
+                const li = document.createElement('li');
+                const label = document.createElement('span');
+                label.className = 'conflict-path';
+                label.textContent = (pairs.length > 1 ? '[' + item.pairName + '] ' : '') + item.relativePath;
+                label.title = item.relativePath;
+                li.appendChild(label);
+                for (const [action, text, title] of actions) {
+                    const btn = document.createElement('button');
+                    btn.className = 'button-secondary button-small';
+                    btn.textContent = text;
+                    btn.title = title;
+                    btn.addEventListener('click', () => {
+                        const data = { pairId: item.pairId, relativePath: item.relativePath, resolution: action };
+                        vscode.postMessage({ command: action === 'openDiff' ? 'openConflictDiff' : 'resolveConflict', data });
+                    });
+                    li.appendChild(btn);
+                }
+                list.appendChild(li);
+            }
+        }
+
+        function renderOrphans(items) {
+            const section = document.getElementById('orphansSection');
+            const list = document.getElementById('orphanList');
+            if (!section || !list) return;
+            list.innerHTML = '';
+            section.style.display = items.length > 0 ? 'block' : 'none';
+            const actions = [
+                ['delete', 'Delete', 'Delete from the target'],
+                ['backup', 'Back up', 'Move to the backups (restore with "Godot Sync: Restore…")'],
+                ['ignore', 'Ignore', 'Keep the file and stop reporting it']
+            ];
+            for (const item of items) {
+                const li = document.createElement('li');
+                const label = document.createElement('span');
+                label.className = 'conflict-path';
+                label.textContent = (pairs.length > 1 ? '[' + item.pairName + '] ' : '') + item.relativePath;
+                label.title = item.relativePath;
+                li.appendChild(label);
+                for (const [action, text, title] of actions) {
+                    const btn = document.createElement('button');
+                    btn.className = 'button-secondary button-small';
+                    btn.textContent = text;
+                    btn.title = title;
+                    btn.addEventListener('click', () => {
+                        vscode.postMessage({ command: 'orphanAction', data: { pairId: item.pairId, relativePath: item.relativePath, action } });
+                    });
+                    li.appendChild(btn);
+                }
+                list.appendChild(li);
             }
-            const escapedMessage = message.replace(/</g, "&lt;").replace(/>/g, "&gt;");
-            logArea.value += escapedMessage + '\n';
-            logArea.scrollTop = logArea.scrollHeight;
+        }
+
+        function renderConfigStorage(storage) {
+            const label = document.getElementById('configStorage');
+            const link = document.getElementById('openWorkspaceConfig');
+            if (!label || !link) return;
+            const labels = {
+                file: 'Pairs are saved in .godot-sync.json.',
+                settings: 'Pairs are saved in the workspace settings.',
+                workspaceState: 'Pairs are saved for this window only (no workspace folder).'
+            };
+            label.textContent = labels[storage] || '';
+            link.textContent = storage === 'file' ? 'Open file' : 'Move to .godot-sync.json';
+            link.style.display = storage === 'workspaceState' ? 'none' : '';
+        }
+
+        const openWorkspaceConfigLink = document.getElementById('openWorkspaceConfig');
+        if (openWorkspaceConfigLink) {
+            openWorkspaceConfigLink.addEventListener('click', (event) => {
+                event.preventDefault();
+                vscode.postMessage({ command: 'openWorkspaceConfig' });
+            });
+        }
+
+        function getLogFilter() {
+            return {
+                level: logLevelFilter ? logLevelFilter.value : '',
+                action: logActionFilter ? logActionFilter.value : '',
+                search: logSearch ? logSearch.value : ''
+            };
+        }
+
+        // Same rules as matchesLogFilter in SyncLog.ts, which applies them to exports
+        function matchesLogFilter(entry, filter) {
+            if (filter.level && LOG_LEVELS.indexOf(entry.level) < LOG_LEVELS.indexOf(filter.level)) return false;
+            if (filter.action && entry.action !== filter.action) return false;
+            if (filter.search) {
+                const haystack = ((entry.pairName || '') + ' ' + (entry.path || '') + ' ' + entry.message).toLowerCase();
+                if (!haystack.includes(filter.search.toLowerCase())) return false;
+            }
+            return true;
+        }
+
+        function createLogRow(entry) {
+            const row = document.createElement('div');
+            row.className = 'log-entry log-' + entry.level;
+            const time = document.createElement('span');
+            time.className = 'log-time';
+            time.textContent = entry.timestamp ? new Date(entry.timestamp).toLocaleTimeString() : '';
+            row.appendChild(time);
+            if (entry.pairName && pairs.length > 1) {
+                const pair = document.createElement('span');
+                pair.className = 'log-pair';
+                pair.textContent = '[' + entry.pairName + ']';
+                row.appendChild(pair);
+            }
+            const text = document.createElement('span');
+            text.textContent = entry.message;
+            row.appendChild(text);
+            if (entry.path && entry.pairId) {
+                const link = document.createElement('a');
+                link.className = 'log-path';
+                link.href = '#';
+                link.textContent = entry.path;
+                link.title = 'Open file';
+                link.addEventListener('click', (event) => {
+                    event.preventDefault();
+                    vscode.postMessage({ command: 'openLogPath', data: { pairId: entry.pairId, path: entry.path } });
+                });
+                row.appendChild(link);
+            }
+            return row;
+        }
+
+        function isScrolledToBottom() {
+            return logList.scrollHeight - logList.scrollTop - logList.clientHeight < 20;
+        }
+
+        function renderLog() {
+            const filter = getLogFilter();
+            logList.textContent = '';
+            const fragment = document.createDocumentFragment();
+            for (const entry of logEntries) {
+                if (matchesLogFilter(entry, filter)) fragment.appendChild(createLogRow(entry));
+            }
+            logList.appendChild(fragment);
+            logList.scrollTop = logList.scrollHeight;
+        }
+
+        function addLogEntry(entry) {
+            logEntries.push(entry);
+            if (logEntries.length > logRetention) {
+                logEntries.splice(0, logEntries.length - logRetention);
+                if (logList.firstChild) logList.removeChild(logList.firstChild);
+            }
+            if (!matchesLogFilter(entry, getLogFilter())) return;
+            const follow = isScrolledToBottom();
+            logList.appendChild(createLogRow(entry));
+            if (follow) logList.scrollTop = logList.scrollHeight;
+        }
+
+        function addLogMessage(message) {
+            addLogEntry({ timestamp: Date.now(), level: 'info', action: 'info', message });
         }
 
         function updateStatus(messageText, level = 'info') {
@@ -156,12 +406,29 @@ document.addEventListener('DOMContentLoaded', () => {
                     currentExtensions = newVal;
                     vscode.postMessage({ command: 'updateExtensions', data: currentExtensions });
                 }
+                flushPatternInputs();
                 vscode.postMessage({ command: 'startSync' });
             });
         } else {
             console.error('[Webview Setup] Botão startButton NÃO ENCONTRADO antes do listener!');
         }
 
+        const previewButton = document.getElementById('previewButton');
+        if (previewButton) {
+            previewButton.addEventListener('click', () => {
+                flushPatternInputs();
+                vscode.postMessage({ command: 'previewSync' });
+            });
+        }
+
+        const findOrphansButton = document.getElementById('findOrphansButton');
+        if (findOrphansButton) {
+            findOrphansButton.addEventListener('click', () => {
+                flushPatternInputs();
+                vscode.postMessage({ command: 'findOrphans' });
+            });
+        }
+
         const stopButton = document.getElementById('stopButton');
         if (stopButton) {
             stopButton.addEventListener('click', () => {
@@ -171,13 +438,91 @@ document.addEventListener('DOMContentLoaded', () => {
             console.error('[Webview Setup] Botão stopButton NÃO ENCONTRADO antes do listener!');
         }
 
+        const pauseButton = document.getElementById('pauseButton');
+        if (pauseButton) {
+            pauseButton.addEventListener('click', () => {
+                vscode.postMessage({ command: getSelectedPauseReason() ? 'resumeSync' : 'pauseSync' });
+            });
+        }
+
+        if (pairSelect) {
+            pairSelect.addEventListener('change', () => {
+                selectedPairId = pairSelect.value;
+                vscode.postMessage({ command: 'selectPair', data: selectedPairId });
+            });
+        }
+
+        const addPairButton = document.getElementById('addPair');
+        if (addPairButton) {
+            addPairButton.addEventListener('click', () => {
+                vscode.postMessage({ command: 'addPair' });
+            });
+        }
+
+        const renamePairButton = document.getElementById('renamePair');
+        if (renamePairButton) {
+            renamePairButton.addEventListener('click', () => {
+                vscode.postMessage({ command: 'renamePair' });
+            });
+        }
+
+        const removePairButton = document.getElementById('removePair');
+        if (removePairButton) {
+            removePairButton.addEventListener('click', () => {
+                vscode.postMessage({ command: 'removePair' });
+            });
+        }
+
+        const startAllButton = document.getElementById('startAllButton');
+        if (startAllButton) {
+            startAllButton.addEventListener('click', () => {
+                flushPatternInputs();
+                vscode.postMessage({ command: 'startAll' });
+            });
+        }
+
+        const stopAllButton = document.getElementById('stopAllButton');
+        if (stopAllButton) {
+            stopAllButton.addEventListener('click', () => {
+                vscode.postMessage({ command: 'stopAll' });
+            });
+        }
+
+        for (const [id, action] of [['backupAllOrphansButton', 'backup'], ['deleteAllOrphansButton', 'delete']]) {
+            const button = document.getElementById(id);
+            if (button) {
+                button.addEventListener('click', () => {
+                    vscode.postMessage({ command: 'orphanActionAll', data: { action } });
+                });
+            }
+        }
+
         if (clearLogButton) {
             clearLogButton.addEventListener('click', () => {
-                if (logArea) logArea.value = '';
+                logEntries = [];
+                renderLog();
                 vscode.postMessage({ command: 'clearLog' });
             });
         }
 
+        if (exportLogButton) {
+            exportLogButton.addEventListener('click', () => {
+                vscode.postMessage({ command: 'exportLog', data: getLogFilter() });
+            });
+        }
+
+        [logLevelFilter, logActionFilter].forEach(select => {
+            if (select) select.addEventListener('change', renderLog);
+        });
+
+        if (logSearch) {
+            let searchTimer = null;
+            logSearch.addEventListener('input', () => {
+                clearTimeout(searchTimer);
+                searchTimer = setTimeout(renderLog, 150);
+            });
+        }
+
         if (allowDeletionCheckbox) {
             allowDeletionCheckbox.addEventListener('change', () => {
                 allowDeletion = allowDeletionCheckbox.checked;
@@ -185,9 +530,7 @@ document.addEventListener('DOMContentLoaded', () => {
                     command: 'updateAllowDeletion',
                     data: allowDeletion
                 });
-                if (deletionWarning) {
-                    deletionWarning.style.display = allowDeletion ? 'block' : 'none';
-                }
+                updateDeletionWarning();
             });
         }
 
@@ -221,6 +564,51 @@ document.addEventListener('DOMContentLoaded', () => {
             });
         }
 
+        if (syncUidFilesCheckbox) {
+            syncUidFilesCheckbox.addEventListener('change', () => {
+                syncUidFiles = syncUidFilesCheckbox.checked;
+                vscode.postMessage({
+                    command: 'updateSyncUidFiles',
+                    data: syncUidFiles
+                });
+            });
+        }
+
+        if (sidecarPolicySelect) {
+            sidecarPolicySelect.addEventListener('change', () => {
+                sidecarPolicy = sidecarPolicySelect.value || 'always';
+                vscode.postMessage({ command: 'updateSidecarPolicy', data: sidecarPolicy });
+            });
+        }
+
+        if (triggerSelect) {
+            triggerSelect.addEventListener('change', () => {
+                trigger = triggerSelect.value || 'watcher';
+                vscode.postMessage({ command: 'updateTrigger', data: trigger });
+            });
+        }
+
+        if (twoWayCheckbox) {
+            twoWayCheckbox.addEventListener('change', () => {
+                mode = twoWayCheckbox.checked ? 'twoWay' : 'oneWay';
+                vscode.postMessage({
+                    command: 'updateMode',
+                    data: mode
+                });
+                updateDeletionWarning();
+            });
+        }
+
+        if (useExportFiltersCheckbox) {
+            useExportFiltersCheckbox.addEventListener('change', () => {
+                useExportFilters = useExportFiltersCheckbox.checked;
+                vscode.postMessage({
+                    command: 'updateUseExportFilters',
+                    data: useExportFilters
+                });
+            });
+        }
+
         if (enablePollingNowBtn) {
             enablePollingNowBtn.addEventListener('click', () => {
                 if (usePollingCheckbox) {
@@ -232,6 +620,16 @@ document.addEventListener('DOMContentLoaded', () => {
             });
         }
 
+        const useSyncOnSaveBtn = document.getElementById('useSyncOnSave');
+        if (useSyncOnSaveBtn) {
+            useSyncOnSaveBtn.addEventListener('click', () => {
+                trigger = 'onSave';
+                if (triggerSelect) triggerSelect.value = trigger;
+                vscode.postMessage({ command: 'updateTrigger', data: trigger });
+                if (pollingBanner) pollingBanner.style.display = 'none';
+            });
+        }
+
         if (dismissPollingBannerBtn) {
             dismissPollingBannerBtn.addEventListener('click', () => {
                 if (pollingBanner) pollingBanner.style.display = 'none';
@@ -258,6 +656,13 @@ document.addEventListener('DOMContentLoaded', () => {
             });
         }
 
+        if (rewriteReferencesSelect) {
+            rewriteReferencesSelect.addEventListener('change', () => {
+                rewriteReferences = rewriteReferencesSelect.value || 'off';
+                vscode.postMessage({ command: 'updateRewriteReferences', data: rewriteReferences });
+            });
+        }
+
         let debounceTimer;
         if (extensionsInput) {
             extensionsInput.addEventListener('input', () => {
@@ -274,25 +679,82 @@ document.addEventListener('DOMContentLoaded', () => {
             console.error("[Webview Setup] extensionsInput é null, não é possível adicionar listener de input!");
         }
 
+        function flushPatternInputs() {
+            const includeVal = includeInput ? (includeInput.value || '').trim() : currentInclude;
+            if (includeVal !== currentInclude) {
+                currentInclude = includeVal;
+                vscode.postMessage({ command: 'updateInclude', data: currentInclude });
+            }
+            const excludeVal = excludeInput ? (excludeInput.value || '').trim() : currentExclude;
+            if (excludeVal !== currentExclude) {
+                currentExclude = excludeVal;
+                vscode.postMessage({ command: 'updateExclude', data: currentExclude });
+            }
+        }
+
+        let patternDebounceTimer;
+        for (const input of [includeInput, excludeInput]) {
+            if (!input) continue;
+            input.addEventListener('input', () => {
+                clearTimeout(patternDebounceTimer);
+                patternDebounceTimer = setTimeout(flushPatternInputs, 500);
+            });
+        }
+
+        const syncProgress = document.getElementById('syncProgress');
+        const syncProgressBar = document.getElementById('syncProgressBar');
+        const syncProgressText = document.getElementById('syncProgressText');
+        const cancelInitialSyncButton = document.getElementById('cancelInitialSync');
+        let progressHideTimer;
+
+        function renderProgress(progress) {
+            if (!syncProgress || !syncProgressBar || !syncProgressText) return;
+            clearTimeout(progressHideTimer);
+            syncProgress.style.display = 'block';
+            syncProgressBar.style.width = `${Math.min(Math.max(progress.percent || 0, 0), 100)}%`;
+            syncProgressText.textContent = progress.text || '';
+            if (cancelInitialSyncButton) cancelInitialSyncButton.disabled = !!progress.finished;
+            if (progress.finished) {
+                // Leave the final state visible for a moment
+                progressHideTimer = setTimeout(() => { syncProgress.style.display = 'none'; }, 3000);
+            }
+        }
+
+        if (cancelInitialSyncButton) {
+            cancelInitialSyncButton.addEventListener('click', () => {
+                cancelInitialSyncButton.disabled = true;
+                vscode.postMessage({ command: 'cancelInitialSync' });
+            });
+        }
+
         window.addEventListener('message', event => {
             const message = event.data;
             switch (message.command) {
                 case 'updateConfig':
+                    renderConfigStorage(message.data.configStorage);
                     currentSourceDir = message.data.sourceDir || '';
                     currentTargetDir = message.data.targetDir || '';
                     currentExtensions = message.data.extensions || '';
+                    currentInclude = message.data.include || '';
+                    currentExclude = message.data.exclude || '';
                     allowDeletion = message.data.allowDeletion || false;
                     includeHidden = message.data.includeHidden || false;
                     usePolling = message.data.usePolling || false;
                     syncImportFiles = (typeof message.data.syncImportFiles === 'boolean') ? message.data.syncImportFiles : true;
+                    syncUidFiles = (typeof message.data.syncUidFiles === 'boolean') ? message.data.syncUidFiles : true;
+                    sidecarPolicy = message.data.sidecarPolicy || 'always';
+                    trigger = message.data.trigger || 'watcher';
                     currentPreset = message.data.preset || 'none';
+                    mode = message.data.mode || 'oneWay';
+                    useExportFilters = message.data.useExportFilters || false;
+                    rewriteReferences = message.data.rewriteReferences || 'off';
                     isRunning = message.data.isRunning || false;
-                    if (logArea) {
-                        logArea.value = message.data.logContent || '';
-                        if (logArea.value) logArea.scrollTop = logArea.scrollHeight;
-                    } else {
-                        console.error("[Webview updateConfig] logArea é null!");
-                    }
+                    pairs = message.data.pairs || [];
+                    selectedPairId = message.data.selectedPairId || '';
+                    renderPairs();
+                    logEntries = Array.isArray(message.data.logEntries) ? message.data.logEntries : [];
+                    logRetention = message.data.logRetention || logRetention;
+                    renderLog();
                     if (pollingBanner && !isRunning) {
                         const hint = message.data.envHint || {};
                         const remote = hint.remoteName || '';
@@ -320,6 +782,10 @@ document.addEventListener('DOMContentLoaded', () => {
                     if (typeof message.data.isRunning === 'boolean') {
                         isRunning = message.data.isRunning;
                     }
+                    if (Array.isArray(message.data.pairs)) {
+                        pairs = message.data.pairs;
+                        renderPairs();
+                    }
                     if(message.data.logMessage) {
                         addLogMessage(message.data.logMessage);
                     }
@@ -328,13 +794,42 @@ document.addEventListener('DOMContentLoaded', () => {
                     }
                     updateUIState();
                     break;
+                case 'updateTargetProject':
+                    if (message.data && message.data.pairId === selectedPairId) {
+                        const projectInfo = document.getElementById('targetProjectInfo');
+                        const targetWarning = document.getElementById('targetWarning');
+                        if (projectInfo) {
+                            projectInfo.textContent = message.data.project || '';
+                            projectInfo.style.display = message.data.project ? 'block' : 'none';
+                        }
+                        if (targetWarning) {
+                            targetWarning.textContent = message.data.warning || '';
+                            targetWarning.style.display = message.data.warning ? 'block' : 'none';
+                        }
+                    }
+                    break;
+                case 'syncProgress':
+                    if (message.data && message.data.pairId === selectedPairId) {
+                        renderProgress(message.data);
+                    }
+                    break;
+                case 'updateConflicts':
+                    renderConflicts(Array.isArray(message.data) ? message.data : []);
+                    break;
+                case 'updateOrphans':
+                    renderOrphans(Array.isArray(message.data) ? message.data : []);
+                    break;
                 case 'log':
                     if (message.data && typeof message.data === 'string') {
                         addLogMessage(message.data);
                     } else if (message.data && message.data.message) {
-                        addLogMessage(message.data.message);
+                        addLogEntry(message.data);
                     }
                     break;
+                case 'clearLog':
+                    logEntries = [];
+                    renderLog();
+                    break;
                 default:
                     break;
             }
@@ -0,0 +1,125 @@
+//@ts-nocheck
+
+// godot-sync-extension/src/webview/preview.js
+
+(function () {
+    const vscode = acquireVsCodeApi();
+
+    const titleEl = document.getElementById('planTitle');
+    const pathsEl = document.getElementById('planPaths');
+    const summaryEl = document.getElementById('planSummary');
+    const rowsEl = document.getElementById('planRows');
+    const applyButton = document.getElementById('applyPlan');
+    const selectAllButton = document.getElementById('selectAll');
+    const selectNoneButton = document.getElementById('selectNone');
+    const showSkippedCheckbox = document.getElementById('showSkipped');
+
+    let entries = [];
+    let selected = new Set();
+
+    function render() {
+        rowsEl.innerHTML = '';
+        const showSkipped = showSkippedCheckbox && showSkippedCheckbox.checked;
+        entries.forEach((entry, index) => {
+            if (entry.action === 'skip' && !showSkipped) return;
+            const row = document.createElement('tr');
+            row.className = 'action-' + entry.action;
+
+            const checkCell = document.createElement('td');
+            if (entry.action !== 'skip') {
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.checked = selected.has(index);
+                checkbox.addEventListener('change', () => {
+                    if (checkbox.checked) selected.add(index); else selected.delete(index);
+                    updateApplyButton();
+                });
+                checkCell.appendChild(checkbox);
+            }
+            row.appendChild(checkCell);
+
+            const actionCell = document.createElement('td');
+            actionCell.textContent = entry.action;
+            actionCell.className = 'plan-action';
+            row.appendChild(actionCell);
+
+            const pathCell = document.createElement('td');
+            pathCell.textContent = entry.relativePath;
+            row.appendChild(pathCell);
+
+            const reasonCell = document.createElement('td');
+            reasonCell.textContent = entry.reason || '';
+            reasonCell.className = 'plan-reason';
+            row.appendChild(reasonCell);
+
+            const linkCell = document.createElement('td');
+            const link = document.createElement('a');
+            link.href = '#';
+            link.textContent = entry.action === 'overwrite' || entry.action === 'skip' ? 'Diff' : 'Open';
+            link.addEventListener('click', (e) => {
+                e.preventDefault();
+                vscode.postMessage({ command: 'openDiff', data: index });
+            });
+            linkCell.appendChild(link);
+            row.appendChild(linkCell);
+
+            rowsEl.appendChild(row);
+        });
+        updateApplyButton();
+    }
+
+    function updateApplyButton() {
+        if (!applyButton) return;
+        applyButton.disabled = selected.size === 0;
+        applyButton.textContent = 'Apply selected (' + selected.size + ')';
+    }
+
+    function setAll(checked) {
+        selected = new Set();
+        if (checked) {
+            entries.forEach((entry, index) => {
+                if (entry.action !== 'skip') selected.add(index);
+            });
+        }
+        render();
+    }
+
+    if (applyButton) {
+        applyButton.addEventListener('click', () => {
+            vscode.postMessage({ command: 'apply', data: Array.from(selected) });
+        });
+    }
+    if (selectAllButton) selectAllButton.addEventListener('click', () => setAll(true));
+    if (selectNoneButton) selectNoneButton.addEventListener('click', () => setAll(false));
+    if (showSkippedCheckbox) showSkippedCheckbox.addEventListener('change', render);
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        switch (message.command) {
+            case 'plan': {
+                const data = message.data;
+                entries = data.entries || [];
+                titleEl.textContent = data.title;
+                pathsEl.textContent = data.sourceDir + ' → ' + data.targetDir;
+                const c = data.counts;
+                summaryEl.textContent = c.create + ' to create, ' + c.overwrite + ' to overwrite, ' + c.delete + ' to delete, ' + c.skip + ' skipped'
+                    + (data.allowDeletion ? '' : ' (deletion disabled)');
+                setAll(true);
+                break;
+            }
+            case 'applying':
+                if (applyButton) {
+                    applyButton.disabled = true;
+                    applyButton.textContent = 'Applying...';
+                }
+                break;
+            case 'applyFailed':
+                updateApplyButton();
+                break;
+            default:
+                break;
+        }
+    });
+
+    vscode.postMessage({ command: 'previewLoaded' });
+})();
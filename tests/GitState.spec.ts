@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+import { GitOperationWatcher, findGitDir, isGitOperationInProgress } from '../src/GitState';
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('GitState', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'godot-sync-git-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('finds the git directory of a parent folder', async () => {
+        await fs.mkdir(path.join(root, '.git'));
+        await fs.mkdir(path.join(root, 'game', 'scenes'), { recursive: true });
+
+        expect(await findGitDir(path.join(root, 'game', 'scenes'))).toBe(path.join(root, '.git'));
+    });
+
+    it('follows a gitdir file used by worktrees and submodules', async () => {
+        await fs.mkdir(path.join(root, 'main', '.git', 'worktrees', 'feature'), { recursive: true });
+        await fs.mkdir(path.join(root, 'feature'));
+        await fs.writeFile(path.join(root, 'feature', '.git'), 'gitdir: ../main/.git/worktrees/feature\n');
+
+        expect(await findGitDir(path.join(root, 'feature'))).toBe(path.join(root, 'main', '.git', 'worktrees', 'feature'));
+    });
+
+    it('detects an index lock or rebase state', async () => {
+        const gitDir = path.join(root, '.git');
+        await fs.mkdir(gitDir);
+        expect(await isGitOperationInProgress(gitDir)).toBe(false);
+
+        await fs.writeFile(path.join(gitDir, 'index.lock'), '');
+        expect(await isGitOperationInProgress(gitDir)).toBe(true);
+
+        await fs.rm(path.join(gitDir, 'index.lock'));
+        await fs.mkdir(path.join(gitDir, 'rebase-merge'));
+        expect(await isGitOperationInProgress(gitDir)).toBe(true);
+    });
+
+    it('reports an index lock only once it outlives a routine git status', async () => {
+        const gitDir = path.join(root, '.git');
+        await fs.mkdir(gitDir);
+        const changes: boolean[] = [];
+        const watcher = new GitOperationWatcher(gitDir, busy => changes.push(busy));
+        await watcher.start();
+        // Let the watcher finish its initial scan
+        await delay(300);
+        try {
+            await fs.writeFile(path.join(gitDir, 'index.lock'), '');
+            await delay(150);
+            await fs.rm(path.join(gitDir, 'index.lock'));
+            await delay(600);
+            expect(changes).toEqual([]);
+
+            await fs.writeFile(path.join(gitDir, 'index.lock'), '');
+            await delay(800);
+            expect(changes).toEqual([true]);
+            await fs.rm(path.join(gitDir, 'index.lock'));
+            await delay(500);
+            expect(changes).toEqual([true, false]);
+        } finally {
+            await watcher.dispose();
+        }
+    }, 10000);
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+import { checkTargetDir, findProjectRoot, parseProjectFile, toResPath } from '../src/GodotProject';
+
+describe('GodotProject', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+        projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'godot-sync-project-'));
+    });
+
+    afterEach(async () => {
+        try { await fs.rm(projectDir, { recursive: true, force: true }); } catch {/* ignore */}
+    });
+
+    it('reads the name and version of Godot 4 and Godot 3 projects', () => {
+        const godot4 = parseProjectFile([
+            '; Engine configuration file.',
+            'config_version=5',
+            '',
+            '[application]',
+            'config/name="Space Game"',
+            'config/features=PackedStringArray("4.2", "Forward Plus")'
+        ].join('\n'));
+        expect(godot4).toEqual({ name: 'Space Game', major: 4, version: '4.2' });
+
+        const godot3 = parseProjectFile('config_version=4\r\n\r\n[application]\r\nconfig/name="Old Game"\r\n');
+        expect(godot3).toEqual({ name: 'Old Game', major: 3, version: '3.x' });
+    });
+
+    it('finds the project root and validates targets', async () => {
+        await fs.writeFile(path.join(projectDir, 'project.godot'), 'config_version=5\n');
+        await fs.mkdir(path.join(projectDir, 'addons', 'tool'), { recursive: true });
+        await fs.mkdir(path.join(projectDir, '.godot', 'editor'), { recursive: true });
+
+        expect(await findProjectRoot(path.join(projectDir, 'addons', 'tool'))).toBe(path.resolve(projectDir));
+        expect(toResPath(projectDir, path.join(projectDir, 'addons', 'tool', 'a.gd'))).toBe('res://addons/tool/a.gd');
+
+        expect(await checkTargetDir(projectDir)).toBeNull();
+        expect(await checkTargetDir(path.join(projectDir, 'addons', 'tool'))).toMatch(/res:\/\/addons\/tool\//);
+        expect(await checkTargetDir(path.join(projectDir, '.godot', 'editor'))).toMatch(/\.godot/);
+        expect(await checkTargetDir(os.tmpdir())).toMatch(/not inside a Godot project/);
+    });
+});
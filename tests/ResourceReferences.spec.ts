@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+import { applyEditsToContent, findReferenceEdits } from '../src/ResourceReferences';
+
+describe('ResourceReferences', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+        projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'godot-sync-refs-'));
+        await fs.writeFile(path.join(projectDir, 'project.godot'), '[application]\n');
+    });
+
+    afterEach(async () => {
+        try { await fs.rm(projectDir, { recursive: true, force: true }); } catch {/* ignore */}
+    });
+
+    it('finds ext_resource, preload and load references relative to the project root', async () => {
+        const synced = path.join(projectDir, 'addons', 'tool');
+        await fs.mkdir(path.join(synced, 'scenes'), { recursive: true });
+        await fs.writeFile(path.join(projectDir, 'main.tscn'), [
+            '[gd_scene format=3]',
+            '[ext_resource type="Script" path="res://addons/tool/player.gd" id="1"]',
+            '[ext_resource type="Script" path="res://addons/tool/player.gd.bak" id="2"]'
+        ].join('\n'));
+        await fs.writeFile(path.join(synced, 'scenes', 'level.gd'), [
+            'const Player = preload("res://addons/tool/player.gd")',
+            "var p = load('res://addons/tool/player.gd')"
+        ].join('\r\n'));
+        await fs.mkdir(path.join(projectDir, '.godot'));
+        await fs.writeFile(path.join(projectDir, '.godot', 'cache.tres'), 'path="res://addons/tool/player.gd"');
+
+        const edits = await findReferenceEdits('target', synced, [{ oldRelativePath: 'player.gd', newRelativePath: path.join('scripts', 'player.gd') }]);
+
+        expect(edits.map(e => `${path.basename(e.filePath)}:${e.line}`).sort()).toEqual(['level.gd:1', 'level.gd:2', 'main.tscn:2']);
+        const tscnEdit = edits.find(e => e.filePath.endsWith('main.tscn'));
+        expect(tscnEdit?.after).toBe('[ext_resource type="Script" path="res://addons/tool/scripts/player.gd" id="1"]');
+        const loadEdit = edits.find(e => e.line === 2 && e.filePath.endsWith('level.gd'));
+        expect(loadEdit?.after).toBe("var p = load('res://addons/tool/scripts/player.gd')");
+    });
+
+    it('scans only the source folder for source references, even inside the target project', async () => {
+        const source = path.join(projectDir, 'lib_src');
+        const target = path.join(projectDir, 'addons', 'lib');
+        await fs.mkdir(source, { recursive: true });
+        await fs.mkdir(target, { recursive: true });
+        const scene = '[ext_resource type="Script" path="res://addons/lib/old.gd" id="1"]';
+        await fs.writeFile(path.join(source, 'main.tscn'), scene);
+        await fs.writeFile(path.join(target, 'main.tscn'), scene);
+
+        const edits = await findReferenceEdits('source', source, [{ oldRelativePath: 'old.gd', newRelativePath: 'new.gd' }], target);
+
+        expect(edits.map(e => e.filePath)).toEqual([path.join(source, 'main.tscn')]);
+        expect(edits[0].after).toBe('[ext_resource type="Script" path="res://addons/lib/new.gd" id="1"]');
+    });
+
+    it('applies only edits whose line is unchanged', () => {
+        const content = 'a = preload("res://old.gd")\r\nb = load("res://old.gd")\n';
+        const result = applyEditsToContent(content, [
+            { side: 'target', filePath: 'x.gd', line: 1, before: 'a = preload("res://old.gd")\r', after: 'a = preload("res://new.gd")\r' },
+            { side: 'target', filePath: 'x.gd', line: 2, before: 'b = load("res://other.gd")', after: 'b = load("res://new.gd")' }
+        ]);
+        expect(result.applied).toBe(1);
+        expect(result.content).toBe('a = preload("res://new.gd")\r\nb = load("res://old.gd")\n');
+    });
+});
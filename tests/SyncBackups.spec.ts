@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+import { BackupStore } from '../src/SyncBackups';
+
+describe('BackupStore', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'godot-sync-backups-'));
+        file = path.join(dir, 'player.gd');
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('stores copies, lists them newest first and survives a reload', async () => {
+        const store = new BackupStore(path.join(dir, 'store'));
+        await fs.writeFile(file, 'v1');
+        const first = await store.backup(file, 'target', 'scripts/player.gd', 'overwrite');
+        await fs.writeFile(file, 'v2');
+        const second = await store.backup(file, 'target', 'scripts/player.gd', 'delete');
+        expect(await store.backup(path.join(dir, 'missing.gd'), 'target', 'missing.gd', 'delete')).toBeNull();
+
+        const reloaded = new BackupStore(path.join(dir, 'store'));
+        const entries = await reloaded.list();
+        expect(entries.map(e => e.id)).toEqual([second!.id, first!.id]);
+        expect(entries[0]).toMatchObject({ side: 'target', relativePath: 'scripts/player.gd', reason: 'delete', size: 2 });
+        expect(await fs.readFile(reloaded.getBackupPath(entries[1]), 'utf8')).toBe('v1');
+        expect(path.extname(reloaded.getBackupPath(entries[1]))).toBe('.gd');
+    });
+
+    it('keeps at most maxVersions per file and drops backups past maxAgeDays', async () => {
+        const store = new BackupStore(path.join(dir, 'store'), { maxAgeDays: 1, maxVersions: 2 });
+        await fs.writeFile(file, 'x');
+        for (let i = 0; i < 3; i++) {
+            await store.backup(file, 'target', 'a.gd', 'overwrite');
+        }
+        await store.backup(file, 'source', 'a.gd', 'overwrite');
+        let entries = await store.list();
+        expect(entries.filter(e => e.side === 'target')).toHaveLength(2);
+        expect(entries.filter(e => e.side === 'source')).toHaveLength(1);
+
+        await store.prune(Date.now() + 2 * 24 * 60 * 60 * 1000);
+        entries = await store.list();
+        expect(entries).toEqual([]);
+        expect(await fs.readdir(path.join(dir, 'store', 'files'))).toEqual([]);
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+
+import { pairsFromConfig, pairsToConfig, parseConfigFile, resolveConfigPath, toConfigPath } from '../src/SyncConfigFile';
+import { DEFAULT_EXTENSIONS } from '../src/SyncPair';
+
+describe('SyncConfigFile', () => {
+    const workspace = path.resolve(os.tmpdir(), 'workspace');
+
+    it('resolves ${workspaceFolder}, ${userHome} and relative folders', () => {
+        expect(resolveConfigPath('${workspaceFolder}/art', workspace)).toBe(path.join(workspace, 'art'));
+        expect(resolveConfigPath('${workspaceFolder:game}/art', workspace)).toBe(path.join(workspace, 'art'));
+        expect(resolveConfigPath('../game', workspace)).toBe(path.resolve(workspace, '..', 'game'));
+        expect(resolveConfigPath('${userHome}/godot', workspace)).toBe(path.join(os.homedir(), 'godot'));
+        expect(resolveConfigPath('', workspace)).toBe('');
+    });
+
+    it('writes portable folders and keeps the previous spelling when it still matches', () => {
+        expect(toConfigPath(path.join(workspace, 'art', 'sprites'), workspace)).toBe('${workspaceFolder}/art/sprites');
+        expect(toConfigPath(workspace, workspace)).toBe('${workspaceFolder}');
+        expect(toConfigPath(path.resolve(workspace, '..', 'game'), workspace)).toBe('../game');
+        expect(toConfigPath(path.join(workspace, 'art'), workspace, 'art')).toBe('art');
+        expect(toConfigPath(path.join(workspace, 'other'), workspace, 'art')).toBe('${workspaceFolder}/other');
+    });
+
+    it('fills defaults and derives stable ids for hand-written pairs', () => {
+        const pairs = pairsFromConfig([
+            { name: 'Shared Addons', sourceDir: 'addons', targetDir: '../game/addons', extensions: ['.gd', '.tscn'], allowDeletion: true },
+            { name: 'Shared Addons' },
+            { id: 'custom', name: 'Art', mode: 'twoWay' }
+        ], workspace);
+
+        expect(pairs.map(p => p.id)).toEqual(['shared-addons', 'shared-addons-2', 'custom']);
+        expect(pairs[0]).toMatchObject({
+            sourceDir: path.join(workspace, 'addons'),
+            targetDir: path.resolve(workspace, '..', 'game', 'addons'),
+            extensions: '.gd, .tscn',
+            allowDeletion: true,
+            syncImportFiles: true,
+            mode: 'oneWay'
+        });
+        expect(pairs[1].extensions).toBe(DEFAULT_EXTENSIONS);
+        expect(pairs[2].mode).toBe('twoWay');
+    });
+
+    it('coerces hand-edited options to their types and falls back to the defaults', () => {
+        const [pair] = pairsFromConfig([JSON.parse(`{
+            "name": "Edited",
+            "sourceDir": 42,
+            "extensions": [".gd", 7],
+            "include": "addons/**",
+            "exclude": ["*.tmp", null],
+            "allowDeletion": "yes",
+            "usePolling": true,
+            "mode": "mirror",
+            "trigger": "onSave",
+            "sidecarPolicy": "sometimes",
+            "rewriteReferences": "target",
+            "preset": 3
+        }`)], workspace);
+
+        expect(pair).toMatchObject({
+            sourceDir: '',
+            extensions: '.gd',
+            include: ['addons/**'],
+            exclude: ['*.tmp'],
+            allowDeletion: false,
+            usePolling: true,
+            mode: 'oneWay',
+            trigger: 'onSave',
+            sidecarPolicy: 'always',
+            rewriteReferences: 'target',
+            preset: 'none'
+        });
+    });
+
+    it('round-trips pairs writing only non-default options', () => {
+        const previous = [{ id: 'a', name: 'Main', sourceDir: 'src', targetDir: '${workspaceFolder}/game' }];
+        const pairs = pairsFromConfig(previous, workspace);
+        pairs[0].exclude = ['*.tmp'];
+
+        expect(pairsToConfig(pairs, workspace, previous)).toEqual([
+            { id: 'a', name: 'Main', sourceDir: 'src', targetDir: '${workspaceFolder}/game', exclude: ['*.tmp'] }
+        ]);
+    });
+
+    it('rejects files without a pairs array', () => {
+        expect(parseConfigFile('{"$schema": "x"}')).toEqual({ $schema: 'x', pairs: [] });
+        expect(() => parseConfigFile('{"pairs": {}}')).toThrow(/must be an array/);
+        expect(() => parseConfigFile('{\n  // shared pairs\n  "pairs": []\n}')).toThrow(/comments and trailing commas are not allowed/);
+        expect(() => parseConfigFile('[]')).toThrow(/JSON object/);
+        expect(() => parseConfigFile('{')).toThrow();
+    });
+});
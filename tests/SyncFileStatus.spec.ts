@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+
+import { FileStatusStore, stateForSkip } from '../src/SyncFileStatus';
+import { SyncPlan, SyncPlanEntry } from '../src/SyncPlan';
+
+const sourceDir = path.resolve('/work/src');
+const targetDir = path.resolve('/work/game');
+
+function entry(action: SyncPlanEntry['action'], relativePath: string, reason?: string): SyncPlanEntry {
+    return {
+        action,
+        relativePath,
+        sourcePath: action === 'delete' ? undefined : path.join(sourceDir, relativePath),
+        targetPath: path.join(targetDir, relativePath),
+        reason
+    };
+}
+
+function plan(entries: SyncPlanEntry[]): SyncPlan {
+    return { sourceDir, targetDir, allowDeletion: false, entries, createdAt: 0 };
+}
+
+describe('FileStatusStore', () => {
+    it('maps skip reasons to states', () => {
+        expect(stateForSkip('unchanged')).toBe('synced');
+        expect(stateForSkip('conflict: source and target both changed')).toBe('conflicted');
+        expect(stateForSkip('excluded by rule: *.tmp')).toBe('excluded');
+        expect(stateForSkip('hidden file')).toBe('excluded');
+        expect(stateForSkip('target modified since last sync')).toBe('skipped');
+    });
+
+    it('seeds states from a plan and leaves out deletions', () => {
+        const store = new FileStatusStore();
+        store.setPlan('p', plan([
+            { ...entry('skip', 'a.gd', 'unchanged'), syncedAt: 5 },
+            entry('copy', 'scenes/b.tscn', 'new file'),
+            entry('skip', 'c.tmp', 'excluded by rule: *.tmp'),
+            entry('delete', 'gone.gd')
+        ]));
+
+        expect(store.list('p').map(s => [s.relativePath, s.state, s.reason])).toEqual([
+            ['a.gd', 'synced', undefined],
+            ['c.tmp', 'excluded', 'excluded by rule: *.tmp'],
+            ['scenes/b.tscn', 'pending', undefined]
+        ]);
+        expect(store.list('p')[0].syncedAt).toBe(5);
+        expect(store.countByState('p')).toMatchObject({ synced: 1, pending: 1, excluded: 1, failed: 0 });
+    });
+
+    it('follows queued, synced, failed, skipped and deleted files', () => {
+        const store = new FileStatusStore();
+        const changes: (string[] | null)[] = [];
+        store.onDidChange((_pairId, paths) => changes.push(paths));
+        store.setPlan('p', plan([entry('skip', 'a.gd', 'unchanged')]));
+
+        store.markPending('p', 'a.gd');
+        expect(store.list('p')[0].state).toBe('pending');
+        store.markFailed('p', 'a.gd', 'EBUSY');
+        expect(store.list('p')[0]).toMatchObject({ state: 'failed', reason: 'EBUSY' });
+        store.markSynced('p', 'a.gd', 42);
+        expect(store.list('p')[0]).toMatchObject({ state: 'synced', reason: undefined, syncedAt: 42 });
+        store.markSkipped('p', 'a.gd', 'target modified since last sync');
+        expect(store.list('p')[0]).toMatchObject({ state: 'skipped', reason: 'target modified since last sync' });
+
+        // Created after the plan
+        store.markPending('p', path.join('new', 'c.gd'));
+        expect(store.list('p')[1]).toMatchObject({
+            relativePath: 'new/c.gd', state: 'pending', targetPath: path.join(targetDir, 'new', 'c.gd')
+        });
+        // Other file types drop out once the sync skips them
+        store.markSkipped('p', 'new/c.gd', 'extension not selected');
+        store.markDeleted('p', 'a.gd');
+        expect(store.list('p')).toEqual([]);
+
+        expect(changes[0]).toBeNull();
+        expect(changes[1]).toEqual([path.join(sourceDir, 'a.gd')]);
+    });
+
+    it('keeps conflicted files conflicted until resolved', () => {
+        const store = new FileStatusStore();
+        store.setPlan('p', plan([entry('skip', 'a.gd', 'unchanged'), entry('skip', 'b.gd', 'unchanged')]));
+
+        store.setConflicts('p', ['a.gd']);
+        store.markSkipped('p', 'a.gd', 'target modified since last sync');
+        expect(store.list('p')[0].state).toBe('conflicted');
+
+        store.setConflicts('p', []);
+        expect(store.list('p')[0].state).toBe('pending');
+        store.markSynced('p', 'a.gd');
+        expect(store.list('p')[0].state).toBe('synced');
+    });
+
+    it('finds the most urgent state of a source file across pairs', () => {
+        const store = new FileStatusStore();
+        store.setPlan('p1', plan([entry('skip', 'a.gd', 'unchanged')]));
+        store.setPlan('p2', plan([entry('copy', 'a.gd')]));
+        store.markFailed('p2', 'a.gd', 'EACCES');
+
+        expect(store.findBySourcePath(path.join(sourceDir, 'a.gd'))).toMatchObject({ state: 'failed' });
+        expect(store.findBySourcePath(path.join(sourceDir, 'other.gd'))).toBeUndefined();
+        expect(store.findBySourcePath(path.join(targetDir, 'a.gd'))).toBeUndefined();
+
+        store.removePair('p2');
+        expect(store.findBySourcePath(path.join(sourceDir, 'a.gd'))).toMatchObject({ state: 'synced' });
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+
+import { LogBuffer, createLogEntry, exportLog, matchesLogFilter, normalizeLogEntries } from '../src/SyncLog';
+
+describe('SyncLog', () => {
+    it('derives the level from the action and normalizes paths', () => {
+        expect(createLogEntry('Error processing file', { action: 'error', path: 'scenes\\main.tscn' }, 1)).toEqual({
+            timestamp: 1, level: 'error', action: 'error', message: 'Error processing file', path: 'scenes/main.tscn'
+        });
+        expect(createLogEntry('Conflict', { action: 'conflict' }).level).toBe('warn');
+        expect(createLogEntry('Warning: x', { level: 'warn' }).action).toBe('info');
+    });
+
+    it('filters by minimum level, action and search text', () => {
+        const copied = { ...createLogEntry('Copied: res://a.gd', { action: 'copied', path: 'a.gd' }), pairName: 'Game' };
+        const failed = createLogEntry('Error processing file b.png: EBUSY', { action: 'error', path: 'b.png' });
+        const warning = createLogEntry('Warning: target is not a project root', { level: 'warn' });
+
+        const pick = (filter: Parameters<typeof matchesLogFilter>[1]) =>
+            [copied, failed, warning].filter(e => matchesLogFilter(e, filter)).map(e => e.message);
+
+        expect(pick({ level: 'warn' })).toEqual([failed.message, warning.message]);
+        expect(pick({ action: 'copied' })).toEqual([copied.message]);
+        expect(pick({ search: 'game' })).toEqual([copied.message]);
+        expect(pick({ level: 'error', search: 'ebusy' })).toEqual([failed.message]);
+    });
+
+    it('keeps only the most recent entries and reads legacy string logs', () => {
+        const buffer = new LogBuffer(normalizeLogEntries(['[10:00:00] old line', 'another']), 3);
+        buffer.push(createLogEntry('one'));
+        buffer.push(createLogEntry('two'));
+        expect(buffer.toArray().map(e => e.message)).toEqual(['another', 'one', 'two']);
+        buffer.setRetention(1);
+        expect(buffer.toArray().map(e => e.message)).toEqual(['two']);
+        expect(normalizeLogEntries('nope')).toEqual([]);
+    });
+
+    it('exports entries as JSON or text lines', () => {
+        const entries = [{ ...createLogEntry('Copied: a.gd', { action: 'copied', path: 'a.gd' }, Date.UTC(2024, 0, 31, 15, 45)), pairName: 'Game' }];
+        expect(JSON.parse(exportLog(entries, 'json'))).toEqual(entries);
+        expect(exportLog(entries, 'text')).toBe('2024-01-31T15:45:00.000Z INFO  copied   [Game] Copied: a.gd\n');
+        expect(exportLog([], 'text')).toBe('');
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+
+import { SyncQueue, QueuedOperation } from '../src/SyncQueue';
+
+type Op = QueuedOperation & { id: number };
+
+function deferred() {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => { resolve = r; });
+    return { promise, resolve };
+}
+
+describe('SyncQueue', () => {
+    it('coalesces waiting events for a path, last one wins and unlink+add becomes a change', async () => {
+        const gate = deferred();
+        const seen: string[] = [];
+        const queue = new SyncQueue<Op>(async (op) => {
+            if (op.key === 'block') await gate.promise;
+            seen.push(`${op.key}:${op.eventType}:${op.id}`);
+        }, 1);
+
+        queue.push({ key: 'block', eventType: 'add', id: 0 });
+        queue.push({ key: 'a', eventType: 'add', id: 1 });
+        queue.push({ key: 'a', eventType: 'change', id: 2 });
+        queue.push({ key: 'b', eventType: 'unlink', id: 3 });
+        queue.push({ key: 'b', eventType: 'add', id: 4 });
+        expect(queue.getStats()).toMatchObject({ pending: 2, active: 1, coalesced: 2 });
+
+        gate.resolve();
+        await queue.whenIdle();
+        expect(seen).toEqual(['block:add:0', 'a:change:2', 'b:change:4']);
+        expect(queue.getStats().processed).toBe(3);
+    });
+
+    it('runs different paths in parallel up to the limit and keeps per-path order', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const order: number[] = [];
+        const queue = new SyncQueue<Op>(async (op) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(r => setTimeout(r, 10));
+            if (op.key === 'same') order.push(op.id);
+            running--;
+        }, 3);
+
+        queue.push({ key: 'same', eventType: 'add', id: 100 });
+        for (let i = 0; i < 12; i++) {
+            queue.push({ key: `file_${i}`, eventType: 'add', id: i });
+        }
+        // Arrives while the first one is running: queued behind it, not merged into it
+        queue.push({ key: 'same', eventType: 'change', id: 101 });
+        await queue.whenIdle();
+
+        expect(maxRunning).toBe(3);
+        expect(order).toEqual([100, 101]);
+    });
+
+    it('resolves each push with the result of the operation that ran for it', async () => {
+        const gate = deferred();
+        const queue = new SyncQueue<Op, number>(async (op) => {
+            if (op.key === 'a' && op.id === 1) await gate.promise;
+            if (op.key === 'bad') throw new Error('boom');
+            return op.id;
+        }, 2);
+
+        const first = queue.push({ key: 'a', eventType: 'add', id: 1 });
+        // Queued behind the running one, then merged with the next event
+        const second = queue.push({ key: 'a', eventType: 'change', id: 2 });
+        const third = queue.push({ key: 'a', eventType: 'change', id: 3 });
+        const failed = queue.push({ key: 'bad', eventType: 'add', id: 4 });
+        const settled = queue.whenSettled(['a', 'missing']);
+
+        gate.resolve();
+        expect(await Promise.all([first, second, third, failed])).toEqual([1, 3, 3, undefined]);
+        await settled;
+        expect(queue.size).toBe(0);
+    });
+
+    it('resolves waiting pushes with undefined when cleared', async () => {
+        const queue = new SyncQueue<Op, number>(async (op) => op.id);
+        queue.pause();
+        const dropped = queue.push({ key: 'a', eventType: 'add', id: 1 });
+        queue.clear();
+        expect(await dropped).toBeUndefined();
+    });
+
+    it('buffers and merges events while paused and applies them on resume', async () => {
+        const seen: string[] = [];
+        const queue = new SyncQueue<Op>(async (op) => {
+            seen.push(`${op.key}:${op.eventType}:${op.id}`);
+        });
+
+        queue.pause();
+        queue.push({ key: 'a', eventType: 'add', id: 1 });
+        queue.push({ key: 'a', eventType: 'change', id: 2 });
+        queue.push({ key: 'b', eventType: 'unlink', id: 3 });
+        await new Promise(r => setTimeout(r, 20));
+        expect(seen).toEqual([]);
+        expect(queue.getStats()).toMatchObject({ pending: 2, active: 0, coalesced: 1, paused: true });
+
+        queue.resume();
+        await queue.whenIdle();
+        expect(seen).toEqual(['a:change:2', 'b:unlink:3']);
+        expect(queue.isPaused()).toBe(false);
+    });
+});
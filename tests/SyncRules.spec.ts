@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+
+import { SyncRules, getSidecarSuffix, parseIgnoreFile, toExcludePattern } from '../src/SyncRules';
+
+function rules(overrides: Partial<ConstructorParameters<typeof SyncRules>[0]> = {}): SyncRules {
+    return new SyncRules({
+        extensions: ['.gd', '.tscn', '.import'],
+        includeHidden: false,
+        syncImportFiles: true,
+        ...overrides
+    });
+}
+
+describe('SyncRules', () => {
+    it('applies extensions, hidden files and Godot internal directories', () => {
+        const r = rules();
+        expect(r.shouldSyncFile('player.gd')).toBe(true);
+        expect(r.shouldSyncFile('notes.txt')).toBe(false);
+        expect(r.shouldSyncFile('.hidden.gd')).toBe(false);
+        expect(r.shouldSyncFile('.godot/editor/x.gd')).toBe(false);
+        expect(r.isIgnoredPath('.import')).toBe(true);
+        expect(rules({ includeHidden: true }).isIgnoredPath('.godot')).toBe(true);
+        expect(rules({ syncImportFiles: false }).shouldSyncFile('icon.png.import')).toBe(false);
+    });
+
+    it('syncs sidecars with their main file regardless of the extension list', () => {
+        const r = rules({ extensions: ['.gd', '.png'], exclude: ['secret.png'] });
+        expect(getSidecarSuffix('icon.png.import')).toBe('.import');
+        expect(getSidecarSuffix('player.gd.uid')).toBe('.uid');
+        expect(getSidecarSuffix('settings.import')).toBeNull();
+        expect(r.shouldSyncFile('icon.png.import')).toBe(true);
+        expect(r.shouldSyncFile('player.gd.uid')).toBe(true);
+        expect(r.getSkipReason('notes.txt.import')).toBe('extension not selected');
+        expect(r.shouldSyncFile('secret.png.import')).toBe(false);
+        expect(rules({ syncUidFiles: false }).getSkipReason('player.gd.uid')).toBe('*.uid sync disabled');
+    });
+
+    it('builds exclude patterns matching exactly one file or folder', () => {
+        expect(toExcludePattern('scenes/level[1].tscn', false)).toBe('/scenes/level[[]1].tscn');
+        expect(toExcludePattern('addons/tmp', true)).toBe('/addons/tmp/');
+        const r = rules({ extensions: ['.gd', '.tscn'], exclude: [toExcludePattern('scenes/level[1].tscn', false), toExcludePattern('addons/tmp', true)] });
+        expect(r.shouldSyncFile('scenes/level[1].tscn')).toBe(false);
+        expect(r.shouldSyncFile('scenes/level1.tscn')).toBe(true);
+        expect(r.shouldSyncFile('other/scenes/level[1].tscn')).toBe(true);
+        expect(r.shouldSyncFile('addons/tmp/a.gd')).toBe(false);
+        expect(r.shouldSyncFile('addons/tmp.gd')).toBe(true);
+    });
+
+    it('matches gitignore-style exclude patterns with negation', () => {
+        const r = rules({ exclude: ['scratch/', '**/test_*.gd', '!keep/test_ok.gd', '/root_only.gd'] });
+        expect(r.shouldSyncFile('scratch/a.gd')).toBe(false);
+        expect(r.shouldSyncFile('deep/scratch/a.gd')).toBe(false);
+        expect(r.shouldSyncFile('tests/test_player.gd')).toBe(false);
+        expect(r.shouldSyncFile('keep/test_ok.gd')).toBe(true);
+        expect(r.shouldSyncFile('root_only.gd')).toBe(false);
+        expect(r.shouldSyncFile('sub/root_only.gd')).toBe(true);
+        expect(r.getSkipReason('scratch/a.gd')).toMatch(/scratch\//);
+    });
+
+    it('requires a match when include patterns are set', () => {
+        const r = rules({ include: ['addons/**/*.gd', '!**/test_*.gd', 'scenes/'] });
+        expect(r.shouldSyncFile('addons/tool/plugin.gd')).toBe(true);
+        expect(r.shouldSyncFile('addons/plugin.gd')).toBe(true);
+        expect(r.shouldSyncFile('addons/tool/test_plugin.gd')).toBe(false);
+        expect(r.shouldSyncFile('scenes/level/main.tscn')).toBe(true);
+        expect(r.shouldSyncFile('player.gd')).toBe(false);
+    });
+
+    it('prunes excluded directories only when no negation can re-include files', () => {
+        expect(rules({ exclude: ['raw/'] }).isIgnoredPath('raw')).toBe(true);
+        expect(rules({ exclude: ['raw/', '!raw/keep.gd'] }).isIgnoredPath('raw')).toBe(false);
+        expect(rules({ include: ['addons/'] }).isIgnoredPath('scripts')).toBe(false);
+    });
+
+    it('skips folders with a .gdignore and files matched by export filters', () => {
+        const r = rules({ gdignoreDirs: ['raw'], projectPath: 'addons/tool/', exportExclude: ['*.tscn', 'res://addons/tool/debug/*'] });
+        expect(r.isIgnoredPath('raw')).toBe(false);
+        expect(r.isIgnoredPath('raw/sub')).toBe(true);
+        expect(r.getSkipReason('raw/a.gd')).toBe('.gdignore in res://addons/tool/raw/');
+        expect(r.getSkipReason('level.tscn')).toBe('export filter "*.tscn"');
+        expect(r.getSkipReason('debug/overlay.gd')).toBe('export filter "res://addons/tool/debug/*"');
+        expect(r.shouldSyncFile('player.gd')).toBe(true);
+        expect(rules({ gdignoreDirs: ['raw'] }).getSkipReason('raw/a.gd')).toBe('.gdignore in raw/');
+    });
+
+    it('parses .godotsyncignore content', () => {
+        const patterns = parseIgnoreFile('# comment\n\nscratch/\r\n!keep.gd  \n');
+        expect(patterns).toEqual(['scratch/', '!keep.gd']);
+    });
+});
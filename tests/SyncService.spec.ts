@@ -3,9 +3,13 @@ import * as os from 'os';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 
-import { SyncService } from '../src/SyncService';
+import { FileSyncResult, SyncProgress, SyncService, toCounterpartPath } from '../src/SyncService';
 import * as fsPromises from 'fs/promises';
 import * as vscode from 'vscode';
+import { workspace } from './mocks/vscode';
+import { LogEntry } from '../src/SyncLog';
+import { BackupStore } from '../src/SyncBackups';
+import { ReferenceEdit } from '../src/ResourceReferences';
 
 async function makeTempDir(prefix: string): Promise<string> {
     const base = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
@@ -90,7 +94,7 @@ describe('SyncService', () => {
         await waitFor(async () => !(await exists(path.join(dstDir, 'y.gd'))));
     }, 25000);
 
-    it('skips when destination file is newer', async () => {
+    it('copies a changed source even when destination mtime is newer', async () => {
         const started = service.start(srcDir, dstDir, ['.gd'], false);
         expect(started).toBe(true);
         await waitFor(() => isRunningState === true);
@@ -100,18 +104,48 @@ describe('SyncService', () => {
         await fs.writeFile(s, 'print("n1")');
         await waitFor(async () => await exists(d));
 
-        // Make destination newer
+        // Touch destination (e.g. Godot editor saving without changes)
         const now = new Date();
         await fs.utimes(d, now, new Date(now.getTime() + 5 * 60 * 1000));
 
-        // Source update but with same/older mtime
         await delay(100);
         await fs.writeFile(s, 'print("n2")');
 
-        // Since mtime on dest is newer, service should log skip and keep old content
+        // Content differs from the manifest, so the newer mtime no longer blocks the update
+        await waitFor(async () => (await fs.readFile(d, 'utf8')).includes('n2'));
+    }, 15000);
+
+    it('copies a source restored with an old mtime', async () => {
+        const s = path.join(srcDir, 'old.gd');
+        const d = path.join(dstDir, 'old.gd');
+        await fs.writeFile(s, 'print("restored")');
+        await fs.writeFile(d, 'print("current")');
+        const past = new Date(Date.now() - 24 * 60 * 60 * 1000);
+        await fs.utimes(s, past, past);
+
+        const started = service.start(srcDir, dstDir, ['.gd'], false);
+        expect(started).toBe(true);
+        await waitFor(async () => (await fs.readFile(d, 'utf8')).includes('restored'));
+    }, 15000);
+
+    it('persists the manifest and skips unchanged files on restart', async () => {
+        const manifestPath = path.join(dstDir, '..', `${path.basename(dstDir)}-manifest.json`);
+        await fs.writeFile(path.join(srcDir, 'm.gd'), 'print("m")');
+
+        expect(service.start(srcDir, dstDir, ['.gd'], false, false, false, true, { manifestPath })).toBe(true);
+        await waitFor(async () => await exists(path.join(dstDir, 'm.gd')));
+        service.stop();
+        await waitFor(() => isRunningState === false);
+        expect(await exists(manifestPath)).toBe(true);
+
+        const copySpy = vi.spyOn<any, any>(service as any, 'copyFileAtomicWithRetry');
+        expect(service.start(srcDir, dstDir, ['.gd'], false, false, false, true, { manifestPath })).toBe(true);
+        await waitFor(() => isRunningState === true);
         await delay(400);
-        const content = await fs.readFile(d, 'utf8');
-        expect(content).toContain('n1');
+        expect(copySpy).not.toHaveBeenCalled();
+        expect(logs.join('\n')).toMatch(/Loaded sync manifest \(1 files\)/);
+        copySpy.mockRestore();
+        await fs.rm(manifestPath, { force: true });
     }, 15000);
 
     it('ignores dotfiles created after start', async () => {
@@ -163,11 +197,126 @@ describe('SyncService', () => {
         expect(await exists(path.join(dstDir, 'afterstop.gd'))).toBe(false);
     }, 12000);
 
+    it('buffers changes while paused and applies the net result on resume', async () => {
+        await fs.writeFile(path.join(srcDir, 'kept.gd'), 'print("v1")');
+        const started = service.start(srcDir, dstDir, ['.gd'], true);
+        expect(started).toBe(true);
+        await waitFor(() => isRunningState === true);
+        await waitFor(async () => await exists(path.join(dstDir, 'kept.gd')));
+
+        service.pause();
+        expect(service.getPauseReason()).toBe('user');
+        // One-off syncs would wait for the resume; they are refused instead
+        const plan = await service.createPlan();
+        await expect(service.applyPlan(plan.entries)).rejects.toThrow('Sync is paused');
+        await expect(service.retryFile(path.join(srcDir, 'kept.gd'))).rejects.toThrow('Sync is paused');
+        await fs.writeFile(path.join(srcDir, 'kept.gd'), 'print("v2")');
+        await fs.writeFile(path.join(srcDir, 'new.gd'), 'print("new")');
+        await fs.writeFile(path.join(srcDir, 'temp.gd'), 'print("temp")');
+        await delay(300);
+        await fs.rm(path.join(srcDir, 'temp.gd'));
+        await delay(500);
+        expect(await exists(path.join(dstDir, 'new.gd'))).toBe(false);
+        expect(await fs.readFile(path.join(dstDir, 'kept.gd'), 'utf8')).toContain('v1');
+
+        service.resume();
+        expect(service.getPauseReason()).toBeNull();
+        await waitFor(async () => await exists(path.join(dstDir, 'new.gd')));
+        await waitFor(async () => (await fs.readFile(path.join(dstDir, 'kept.gd'), 'utf8')).includes('v2'));
+        expect(await exists(path.join(dstDir, 'temp.gd'))).toBe(false);
+        expect(logs.join('\n')).toMatch(/Resumed: applying \d+ buffered change/);
+    }, 20000);
+
+    it('pauses while a git operation holds the index lock', async () => {
+        const gitDir = path.join(srcDir, '.git');
+        await fs.mkdir(gitDir);
+        const reasons: (string | null)[] = [];
+        service = new SyncService(
+            (m) => logs.push(m),
+            (running) => { isRunningState = running; },
+            { onPauseChanged: reason => reasons.push(reason) }
+        );
+        const started = service.startWithConfig({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: false, pauseDuringGitOperations: true });
+        expect(started).toBe(true);
+        await waitFor(() => isRunningState === true);
+
+        await fs.writeFile(path.join(gitDir, 'index.lock'), '');
+        await waitFor(() => service.getPauseReason() === 'git');
+        await fs.writeFile(path.join(srcDir, 'checkout.gd'), 'print("checked out")');
+        await delay(500);
+        expect(await exists(path.join(dstDir, 'checkout.gd'))).toBe(false);
+
+        // A user resume does not end a pause held by git
+        service.resume();
+        expect(service.getPauseReason()).toBe('git');
+
+        await fs.rm(path.join(gitDir, 'index.lock'));
+        await waitFor(async () => await exists(path.join(dstDir, 'checkout.gd')));
+        expect(reasons).toEqual(['git', null]);
+    }, 20000);
+
+    it('keeps following git operations after a checkout changes .godotsyncignore', async () => {
+        const gitDir = path.join(srcDir, '.git');
+        await fs.mkdir(gitDir);
+        const started = service.startWithConfig({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: false, pauseDuringGitOperations: true });
+        expect(started).toBe(true);
+        await waitFor(() => isRunningState === true);
+
+        await fs.writeFile(path.join(gitDir, 'index.lock'), '');
+        await waitFor(() => service.getPauseReason() === 'git');
+        await fs.writeFile(path.join(srcDir, '.godotsyncignore'), 'scratch/\n');
+        await waitFor(() => logs.some(l => l.includes('.godotsyncignore changed, rescanning.')));
+        await fs.rm(path.join(gitDir, 'index.lock'));
+        await waitFor(() => service.getPauseReason() === null);
+
+        // The next git operation still pauses the pair
+        await fs.writeFile(path.join(gitDir, 'index.lock'), '');
+        await waitFor(() => service.getPauseReason() === 'git');
+        await fs.rm(path.join(gitDir, 'index.lock'));
+        await waitFor(() => service.getPauseReason() === null);
+    }, 20000);
+
+    it('syncs on save from VS Code file events without watching the folders', async () => {
+        const started = service.startWithConfig({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: true, trigger: 'onSave' });
+        expect(started).toBe(true);
+        await waitFor(() => isRunningState === true);
+
+        // Written by another program: not picked up until VS Code reports it
+        const script = path.join(srcDir, 'player.gd');
+        await fs.writeFile(script, 'print("player")');
+        await delay(500);
+        expect(await exists(path.join(dstDir, 'player.gd'))).toBe(false);
+
+        workspace.onDidSaveTextDocument.fire({ uri: vscode.Uri.file(script) });
+        await waitFor(async () => await exists(path.join(dstDir, 'player.gd')));
+
+        await fs.mkdir(path.join(srcDir, 'enemies'));
+        await fs.writeFile(path.join(srcDir, 'enemies', 'slime.gd'), 'print("slime")');
+        await fs.writeFile(path.join(srcDir, 'enemies', 'notes.txt'), 'not synced');
+        workspace.onDidCreateFiles.fire({ files: [vscode.Uri.file(path.join(srcDir, 'enemies'))] });
+        await waitFor(async () => await exists(path.join(dstDir, 'enemies', 'slime.gd')));
+        expect(await exists(path.join(dstDir, 'enemies', 'notes.txt'))).toBe(false);
+
+        await fs.rename(path.join(srcDir, 'enemies'), path.join(srcDir, 'monsters'));
+        workspace.onDidRenameFiles.fire({ files: [{ oldUri: vscode.Uri.file(path.join(srcDir, 'enemies')), newUri: vscode.Uri.file(path.join(srcDir, 'monsters')) }] });
+        await waitFor(async () => await exists(path.join(dstDir, 'monsters', 'slime.gd')));
+        await waitFor(async () => !(await exists(path.join(dstDir, 'enemies', 'slime.gd'))));
+
+        await fs.rm(script);
+        workspace.onDidDeleteFiles.fire({ files: [vscode.Uri.file(script)] });
+        await waitFor(async () => !(await exists(path.join(dstDir, 'player.gd'))));
+
+        // Files outside the pair are ignored
+        workspace.onDidSaveTextDocument.fire({ uri: vscode.Uri.file(path.join(os.tmpdir(), 'elsewhere.gd')) });
+    }, 20000);
+
     it('processes many files (load test)', async () => {
         const started = service.start(srcDir, dstDir, ['.gd'], false);
         expect(started).toBe(true);
         await waitFor(() => isRunningState === true);
 
+        const copySpy = vi.spyOn(service as any, 'copyFileAtomicWithRetry');
+        const startedAt = Date.now();
         const total = 60;
         for (let i = 0; i < total; i++) {
             await fs.writeFile(path.join(srcDir, `bulk_${i}.gd`), `print(${i})`);
@@ -175,8 +324,78 @@ describe('SyncService', () => {
 
         await waitFor(async () => await exists(path.join(dstDir, 'bulk_0.gd')));
         await waitFor(async () => await exists(path.join(dstDir, `bulk_${total - 1}.gd`)), 20000, 50);
+        await (service as any).queue.whenIdle();
+        expect(Date.now() - startedAt).toBeLessThan(15000);
+        // Every file copied exactly once
+        expect(copySpy).toHaveBeenCalledTimes(total);
+
+        // A burst of events for one path collapses into a single operation
+        const burst = path.join(srcDir, 'bulk_0.gd');
+        const before = service.getQueueStats();
+        for (let i = 0; i < 10; i++) {
+            (service as any).addToQueue(burst, 'change');
+        }
+        await (service as any).queue.whenIdle();
+        const after = service.getQueueStats();
+        // The first event starts right away, the other nine merge into one waiting operation
+        expect(after.coalesced - before.coalesced).toBe(8);
+        expect(after.processed - before.processed).toBe(2);
+        expect(copySpy).toHaveBeenCalledTimes(total);
+        copySpy.mockRestore();
     }, 30000);
 
+    it('reports initial sync progress and cancels cleanly', async () => {
+        const progress: SyncProgress[] = [];
+        service = new SyncService(
+            (m) => logs.push(m),
+            (running) => { isRunningState = running; },
+            { concurrency: 1, onProgress: (p) => progress.push(p) }
+        );
+        const total = 40;
+        for (let i = 0; i < total; i++) {
+            await fs.writeFile(path.join(srcDir, `p_${i}.gd`), `print(${i})`);
+        }
+        // Left behind by an interrupted copy
+        await fs.writeFile(path.join(dstDir, 'p_0.gd.__godotsync_tmp_1_stale'), 'partial');
+        const original = (service as any).copyFileAtomicWithRetry.bind(service);
+        vi.spyOn(service as any, 'copyFileAtomicWithRetry').mockImplementation(async (...args: unknown[]) => {
+            await delay(30);
+            return original(...args);
+        });
+
+        expect(service.start(srcDir, dstDir, ['.gd'], false)).toBe(true);
+        await waitFor(() => progress.some(p => p.phase === 'syncing' && p.doneFiles >= 2));
+        const syncing = progress.find(p => p.phase === 'syncing')!;
+        expect(syncing.totalFiles).toBe(total);
+        expect(syncing.totalBytes).toBeGreaterThan(0);
+
+        service.cancelInitialSync();
+        await waitFor(() => progress.some(p => p.phase === 'cancelled'));
+        const cancelled = progress[progress.length - 1];
+        expect(cancelled.doneFiles).toBeLessThan(total);
+        expect(service.isInitialSyncRunning()).toBe(false);
+        expect(service.getIsRunning()).toBe(true);
+        const leftovers = (await fs.readdir(dstDir)).filter(f => f.includes('__godotsync_tmp_'));
+        expect(leftovers).toEqual([]);
+        expect(logs.some(l => /Initial sync cancelled: \d+ of 40 files synced/.test(l))).toBe(true);
+    }, 20000);
+
+    it('stops walking the tree as soon as a scan is cancelled', async () => {
+        for (let i = 0; i < 4; i++) {
+            await fs.mkdir(path.join(srcDir, `dir_${i}`));
+            for (let j = 0; j < 5; j++) {
+                await fs.writeFile(path.join(srcDir, `dir_${i}`, `f_${j}.gd`), '');
+            }
+        }
+        const visited: string[] = [];
+
+        await (service as any).walkTree(srcDir, (_filePath: string, relativePath: string) => {
+            visited.push(relativePath);
+        }, srcDir, () => visited.length >= 3);
+
+        expect(visited).toHaveLength(3);
+    });
+
     it('rejects overlapping or identical source/target', async () => {
         const s1 = service.start(srcDir, srcDir, ['.gd'], false, false);
         expect(s1).toBe(false);
@@ -192,6 +411,21 @@ describe('SyncService', () => {
         expect(s3).toBe(false);
     }, 10000);
 
+    it('rejects a target that overlaps another sync pair target', async () => {
+        const reserved = path.join(dstDir, 'game');
+        await fs.mkdir(path.join(reserved, 'addons'), { recursive: true });
+        const other = new SyncService(
+            (m) => logs.push(m),
+            () => { /* not started */ },
+            { getReservedTargets: () => [reserved] }
+        );
+
+        expect(other.start(srcDir, reserved, ['.gd'], false)).toBe(false);
+        expect(other.start(srcDir, path.join(reserved, 'addons'), ['.gd'], false)).toBe(false);
+        expect(other.start(srcDir, dstDir, ['.gd'], false)).toBe(false);
+        expect(logs.join('\n')).toMatch(/another running sync pair/);
+    }, 10000);
+
     it('blocks writes that would escape targetDir (path traversal)', async () => {
         (service as any).sourceDir = srcDir;
         (service as any).targetDir = dstDir;
@@ -235,6 +469,147 @@ describe('SyncService', () => {
         showErrorSpy.mockRestore();
     }, 12000);
 
+    it('reports the outcome of each file with the error message on failure or the reason for a skip', async () => {
+        const results: FileSyncResult[] = [];
+        service = new SyncService(() => undefined, () => undefined, { onFileResult: (r) => results.push(r) });
+        (service as any).sourceDir = srcDir;
+        (service as any).targetDir = dstDir;
+        (service as any).extensions = ['.gd'];
+        await fs.writeFile(path.join(srcDir, 'ok.gd'), 'print("ok")');
+        await fs.writeFile(path.join(srcDir, 'bad.gd'), 'print("bad")');
+
+        await (service as any).handleFileSync(path.join(srcDir, 'ok.gd'), 'add');
+        await (service as any).handleFileSync(path.join(srcDir, 'ok.gd'), 'change');
+        const copySpy = vi.spyOn<any, any>(service as any, 'copyFileAtomicWithRetry').mockRejectedValueOnce(new Error('disk full'));
+        await (service as any).handleFileSync(path.join(srcDir, 'bad.gd'), 'add');
+        copySpy.mockRestore();
+
+        expect(results).toEqual([
+            { relativePath: 'ok.gd', direction: 'push', outcome: 'copied', error: undefined },
+            { relativePath: 'ok.gd', direction: 'push', outcome: 'skipped', reason: 'unchanged' },
+            { relativePath: 'bad.gd', direction: 'push', outcome: 'failed', error: 'disk full' }
+        ]);
+    }, 12000);
+
+    it('keeps the error code of a failure after retries and syncs the file again on retry', async () => {
+        const results: FileSyncResult[] = [];
+        service = new SyncService(() => undefined, () => undefined, { onFileResult: (r) => results.push(r) });
+        (service as any).sourceDir = srcDir;
+        (service as any).targetDir = dstDir;
+        (service as any).extensions = ['.gd'];
+        const f = path.join(srcDir, 'locked.gd');
+        await fs.writeFile(f, 'print("locked")');
+        const busy = Object.assign(new Error('resource busy or locked'), { code: 'EBUSY' });
+        const originalWithRetry = (service as any).withRetry.bind(service);
+        (service as any).withRetry = (opName: string, fn: () => Promise<unknown>, ...rest: unknown[]) =>
+            originalWithRetry(opName, opName === 'copyFile(tmp)' ? () => Promise.reject(busy) : fn, ...rest);
+
+        await (service as any).handleFileSync(f, 'add');
+        (service as any).withRetry = originalWithRetry;
+        await service.retryFile(f);
+
+        expect(results.map(r => [r.outcome, r.errorCode])).toEqual([['failed', 'EBUSY'], ['copied', undefined]]);
+        expect(results[0].error).toContain('failed after retries: resource busy or locked');
+        expect(await fs.readFile(path.join(dstDir, 'locked.gd'), 'utf8')).toBe('print("locked")');
+    }, 12000);
+
+    it('emits file events to subscribers and survives a failing listener', async () => {
+        const seen: string[] = [];
+        service.on('fileSynced', e => { seen.push(`synced:${e.relativePath}:${e.direction}`); throw new Error('listener bug'); });
+        service.on('fileDeleted', e => seen.push(`deleted:${e.relativePath}:${path.relative(dstDir, e.targetPath)}`));
+        const unsubscribe = service.on('fileFailed', e => seen.push(`failed:${e.relativePath}:${e.error}`));
+        (service as any).sourceDir = srcDir;
+        (service as any).targetDir = dstDir;
+        (service as any).extensions = ['.gd'];
+        (service as any).allowDeletion = true;
+        const f = path.join(srcDir, 'a.gd');
+        await fs.writeFile(f, 'print("a")');
+
+        await (service as any).handleFileSync(f, 'add');
+        const copySpy = vi.spyOn<any, any>(service as any, 'copyFileAtomicWithRetry').mockRejectedValue(new Error('locked'));
+        await fs.writeFile(f, 'print("b")');
+        await (service as any).handleFileSync(f, 'change');
+        unsubscribe();
+        await (service as any).handleFileSync(f, 'change');
+        copySpy.mockRestore();
+        await fs.rm(f);
+        await (service as any).handleFileSync(f, 'unlink');
+
+        expect(seen).toEqual(['synced:a.gd:push', 'failed:a.gd:locked', 'deleted:a.gd:a.gd']);
+        expect(logs.join('\n')).toMatch(/fileSynced listener failed: listener bug/);
+    }, 12000);
+
+    it('passes structured entries with action and path to the log callback', async () => {
+        const entries: LogEntry[] = [];
+        service = new SyncService((_m, entry) => entries.push(entry), () => undefined);
+        (service as any).sourceDir = srcDir;
+        (service as any).targetDir = dstDir;
+        (service as any).extensions = ['.gd'];
+        await fs.mkdir(path.join(srcDir, 'sub'));
+        await fs.writeFile(path.join(srcDir, 'sub', 'a.gd'), 'print("a")');
+
+        await (service as any).handleFileSync(path.join(srcDir, 'sub', 'a.gd'), 'add');
+        await fs.rm(path.join(srcDir, 'sub', 'a.gd'));
+        await (service as any).handleFileSync(path.join(srcDir, 'sub', 'a.gd'), 'unlink');
+
+        expect(entries.map(e => [e.level, e.action, e.path])).toEqual([
+            ['info', 'copied', 'sub/a.gd'],
+            ['info', 'skipped', 'sub/a.gd']
+        ]);
+    }, 12000);
+
+    it('backs up overwritten and deleted target files and restores them', async () => {
+        const backupDir = await makeTempDir('godot-sync-backups-');
+        const backups = new BackupStore(backupDir);
+        const a = path.join(srcDir, 'a.gd');
+        const b = path.join(srcDir, 'b.gd');
+        await fs.writeFile(a, 'v1');
+        await fs.writeFile(b, 'b');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: true, backups });
+
+        await (service as any).handleFileSync(a, 'add');
+        await (service as any).handleFileSync(b, 'add');
+        expect(await backups.list()).toEqual([]);
+
+        await fs.writeFile(a, 'v2');
+        await (service as any).handleFileSync(a, 'change');
+        await fs.rm(b);
+        await (service as any).handleFileSync(b, 'unlink');
+        expect(await fs.readFile(path.join(dstDir, 'a.gd'), 'utf8')).toBe('v2');
+        expect(await exists(path.join(dstDir, 'b.gd'))).toBe(false);
+
+        const saved = await backups.list();
+        expect(saved.map(e => [e.side, e.relativePath, e.reason]).sort()).toEqual([['target', 'a.gd', 'overwrite'], ['target', 'b.gd', 'delete']]);
+
+        await service.restoreBackup(saved.find(e => e.relativePath === 'a.gd')!, backups);
+        expect(await fs.readFile(path.join(dstDir, 'a.gd'), 'utf8')).toBe('v1');
+        // The version replaced by the restore is kept too
+        expect((await backups.list()).filter(e => e.relativePath === 'a.gd')).toHaveLength(2);
+        await fs.rm(backupDir, { recursive: true, force: true });
+    }, 12000);
+
+    it('keeps a restored target version in two-way mode instead of syncing it back', async () => {
+        const backups = new BackupStore(await makeTempDir('godot-sync-backups-'));
+        const s = path.join(srcDir, 'r.gd');
+        const d = path.join(dstDir, 'r.gd');
+        await fs.writeFile(s, 'v1');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: false, mode: 'twoWay', backups });
+        expect(await (service as any).handleFileSync(s, 'add')).toBe('copied');
+        await fs.writeFile(s, 'v2');
+        expect(await (service as any).handleFileSync(s, 'change')).toBe('copied');
+
+        const [saved] = await backups.list();
+        await service.restoreBackup(saved, backups);
+        expect(await fs.readFile(d, 'utf8')).toBe('v1');
+        expect(await (service as any).isOwnWriteEcho(d, 'change')).toBe(true);
+        expect(await (service as any).handleFileSync(d, 'change', 'pull')).toBe('skipped');
+        expect(await (service as any).handleFileSync(s, 'change')).toBe('skipped');
+        expect(service.getConflicts()).toEqual([]);
+        expect(await fs.readFile(s, 'utf8')).toBe('v2');
+        expect(await fs.readFile(d, 'utf8')).toBe('v1');
+        await service.release();
+    }, 10000);
+
     it('ignores .godot/** and .import/ directory even with includeHidden=true; allows *.import files via extensions', async () => {
         const started = service.start(srcDir, dstDir, ['.tscn', '.import'], false, true);
         expect(started).toBe(true);
@@ -245,6 +620,7 @@ describe('SyncService', () => {
         await fs.writeFile(path.join(srcDir, '.godot', 'state'), 'x');
         await fs.mkdir(path.join(srcDir, '.import'), { recursive: true });
         await fs.writeFile(path.join(srcDir, '.import', 'cachefile'), 'cache');
+        await fs.writeFile(path.join(srcDir, 'scene.tscn'), '[gd_scene]');
         await fs.writeFile(path.join(srcDir, 'scene.tscn.import'), 'meta');
 
         await delay(500);
@@ -253,6 +629,409 @@ describe('SyncService', () => {
         expect(await exists(path.join(dstDir, 'scene.tscn.import'))).toBe(true);
     }, 12000);
 
+    it('limits a plan to one file or folder and maps it to the same target path', async () => {
+        await fs.mkdir(path.join(srcDir, 'enemies'));
+        await fs.mkdir(path.join(dstDir, 'enemies'));
+        await fs.writeFile(path.join(srcDir, 'player.gd'), 'print("player")');
+        await fs.writeFile(path.join(srcDir, 'notes.txt'), 'not synced');
+        await fs.writeFile(path.join(srcDir, 'enemies', 'slime.gd'), 'print("slime")');
+        await fs.writeFile(path.join(dstDir, 'enemies', 'old.gd'), 'print("old")');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: true });
+
+        const folderPlan = await service.createPlan({ scope: 'enemies' });
+        expect(folderPlan.entries.map(e => [e.action, e.relativePath])).toEqual([
+            ['delete', path.join('enemies', 'old.gd')],
+            ['create', path.join('enemies', 'slime.gd')]
+        ]);
+        expect((await service.createPlan({ scope: 'player.gd' })).entries.map(e => e.relativePath)).toEqual(['player.gd']);
+        // A single file of another type is listed with the reason instead of being left out
+        expect((await service.createPlan({ scope: 'notes.txt' })).entries).toMatchObject([{ action: 'skip', reason: 'extension not selected' }]);
+
+        expect(toCounterpartPath(srcDir, dstDir, path.join(srcDir, 'enemies', 'slime.gd'))).toBe(path.join(dstDir, 'enemies', 'slime.gd'));
+        expect(toCounterpartPath(srcDir, dstDir, path.join(srcDir, '..', 'escape.gd'))).toBeNull();
+        await service.release();
+    }, 10000);
+
+    it('syncs sidecars with their main file and reports sidecars without one', async () => {
+        const entries: LogEntry[] = [];
+        service = new SyncService((_m, entry) => entries.push(entry), () => undefined);
+        await fs.writeFile(path.join(srcDir, 'player.gd'), 'print("player")');
+        await fs.writeFile(path.join(srcDir, 'player.gd.uid'), 'uid://player');
+        await fs.writeFile(path.join(srcDir, 'lonely.gd.uid'), 'uid://lonely');
+        // Only .gd is selected: sidecars follow their main file instead of the extension list
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: true });
+
+        const plan = await service.createPlan();
+        const byPath = Object.fromEntries(plan.entries.map(e => [e.relativePath, e]));
+        expect(byPath['player.gd.uid'].action).toBe('create');
+        expect(byPath['lonely.gd.uid']).toMatchObject({ action: 'skip', reason: 'sidecar without its main file' });
+
+        expect(await service.applyPlan(plan.entries)).toEqual({ copied: 2, skipped: 0, deleted: 0, failed: 0 });
+        expect(await fs.readFile(path.join(dstDir, 'player.gd.uid'), 'utf8')).toBe('uid://player');
+
+        // A watcher event for the lonely sidecar is reported, not copied
+        expect(await (service as any).handleFileSync(path.join(srcDir, 'lonely.gd.uid'), 'add')).toBe('skipped');
+        expect(await exists(path.join(dstDir, 'lonely.gd.uid'))).toBe(false);
+        expect(entries.find(e => e.path === 'lonely.gd.uid')).toMatchObject({ level: 'warn', action: 'skipped' });
+
+        // Deleting the main file takes its sidecar along
+        await fs.rm(path.join(srcDir, 'player.gd'));
+        await service.applyPlan([{ action: 'delete', relativePath: 'player.gd', targetPath: path.join(dstDir, 'player.gd') }]);
+        expect(await exists(path.join(dstDir, 'player.gd'))).toBe(false);
+        expect(await exists(path.join(dstDir, 'player.gd.uid'))).toBe(false);
+        await service.release();
+    }, 10000);
+
+    it('leaves sidecars alone or updates only existing ones depending on the policy', async () => {
+        await fs.writeFile(path.join(srcDir, 'icon.png'), 'png');
+        await fs.writeFile(path.join(srcDir, 'icon.png.import'), 'import v2');
+        await fs.writeFile(path.join(srcDir, 'enemy.gd'), 'print("enemy")');
+        await fs.writeFile(path.join(srcDir, 'enemy.gd.uid'), 'uid://enemy');
+        await fs.writeFile(path.join(dstDir, 'icon.png.import'), 'import v1');
+
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd', '.png'], allowDeletion: false, sidecarPolicy: 'onlyIfPresent' });
+        await service.applyPlan((await service.createPlan()).entries);
+        expect(await fs.readFile(path.join(dstDir, 'icon.png.import'), 'utf8')).toBe('import v2');
+        expect(await exists(path.join(dstDir, 'enemy.gd.uid'))).toBe(false);
+        await service.release();
+
+        await fs.writeFile(path.join(srcDir, 'icon.png.import'), 'import v3');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd', '.png'], allowDeletion: false, sidecarPolicy: 'never' });
+        const plan = await service.createPlan({ includeDeletions: true });
+        expect(plan.entries.find(e => e.relativePath === 'icon.png.import')).toMatchObject({ action: 'skip', reason: 'sidecar sync disabled' });
+        await service.applyPlan(plan.entries);
+        expect(await fs.readFile(path.join(dstDir, 'icon.png.import'), 'utf8')).toBe('import v2');
+        await service.release();
+    }, 10000);
+
+    it('reports why a sidecar deletion is skipped when sidecar sync is disabled', async () => {
+        const results: FileSyncResult[] = [];
+        service = new SyncService(() => undefined, () => undefined, { onFileResult: (r) => results.push(r) });
+        await fs.writeFile(path.join(dstDir, 'icon.png.import'), 'import v1');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.png'], allowDeletion: true, sidecarPolicy: 'never' });
+
+        await (service as any).handleFileSync(path.join(srcDir, 'icon.png.import'), 'unlink');
+
+        expect(results).toEqual([{ relativePath: 'icon.png.import', direction: 'push', outcome: 'skipped', reason: 'sidecar sync disabled' }]);
+        expect(await exists(path.join(dstDir, 'icon.png.import'))).toBe(true);
+        await service.release();
+    }, 10000);
+
+    it('applies include/exclude rules and hot-reloads .godotsyncignore', async () => {
+        await fs.mkdir(path.join(srcDir, 'scratch'), { recursive: true });
+        await fs.writeFile(path.join(srcDir, 'scratch', 'tmp.gd'), 'print("tmp")');
+        await fs.writeFile(path.join(srcDir, 'keep.gd'), 'print("keep")');
+        await fs.writeFile(path.join(srcDir, 'test_keep.gd'), 'print("test")');
+        await fs.writeFile(path.join(srcDir, '.godotsyncignore'), 'scratch/\n');
+
+        const started = service.start(srcDir, dstDir, ['.gd'], false, false, false, true, { exclude: ['**/test_*.gd'] });
+        expect(started).toBe(true);
+        await waitFor(() => isRunningState === true);
+
+        await waitFor(async () => await exists(path.join(dstDir, 'keep.gd')));
+        await delay(300);
+        expect(await exists(path.join(dstDir, 'scratch', 'tmp.gd'))).toBe(false);
+        expect(await exists(path.join(dstDir, 'test_keep.gd'))).toBe(false);
+
+        // Removing the rule re-includes the directory without restarting
+        await fs.writeFile(path.join(srcDir, '.godotsyncignore'), '# nothing ignored\n');
+        await waitFor(async () => await exists(path.join(dstDir, 'scratch', 'tmp.gd')));
+        expect(await exists(path.join(dstDir, '.godotsyncignore'))).toBe(false);
+    }, 20000);
+
+    it('previews a plan without writing and applies only selected entries', async () => {
+        await fs.writeFile(path.join(srcDir, 'new.gd'), 'print("new")');
+        await fs.writeFile(path.join(srcDir, 'changed.gd'), 'print("v2")');
+        await fs.writeFile(path.join(srcDir, 'same.gd'), 'print("same")');
+        await fs.writeFile(path.join(dstDir, 'changed.gd'), 'print("v1")');
+        await fs.writeFile(path.join(dstDir, 'same.gd'), 'print("same")');
+        await fs.writeFile(path.join(dstDir, 'orphan.gd'), 'print("orphan")');
+
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: true });
+        const plan = await service.createPlan();
+        const byPath = Object.fromEntries(plan.entries.map(e => [e.relativePath, e]));
+        expect(byPath['new.gd'].action).toBe('create');
+        expect(byPath['changed.gd'].action).toBe('overwrite');
+        expect(byPath['same.gd'].action).toBe('skip');
+        expect(byPath['same.gd'].reason).toBe('unchanged');
+        expect(byPath['orphan.gd'].action).toBe('delete');
+
+        // Nothing written by the preview itself
+        expect(await exists(path.join(dstDir, 'new.gd'))).toBe(false);
+
+        const result = await service.applyPlan([byPath['new.gd'], byPath['orphan.gd']]);
+        expect(result).toEqual({ copied: 1, skipped: 0, deleted: 1, failed: 0 });
+        expect(await exists(path.join(dstDir, 'new.gd'))).toBe(true);
+        expect(await exists(path.join(dstDir, 'orphan.gd'))).toBe(false);
+        expect(await fs.readFile(path.join(dstDir, 'changed.gd'), 'utf8')).toContain('v1');
+        await service.release();
+    }, 10000);
+
+    it('mirrors the source once, deleting extra target files even with deletion disabled', async () => {
+        await fs.writeFile(path.join(srcDir, 'kept.gd'), 'print("kept")');
+        await fs.writeFile(path.join(dstDir, 'extra.gd'), 'print("extra")');
+        await fs.writeFile(path.join(dstDir, 'notes.txt'), 'not matched by the rules');
+
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: false });
+        expect((await service.createPlan()).entries.some(e => e.action === 'delete')).toBe(false);
+
+        const plan = await service.createPlan({ includeDeletions: true });
+        expect(plan.entries.filter(e => e.action === 'delete').map(e => e.relativePath)).toEqual(['extra.gd']);
+
+        const result = await service.applyPlan(plan.entries, { allowDeletion: true });
+        expect(result).toEqual({ copied: 1, skipped: 0, deleted: 1, failed: 0 });
+        expect(await exists(path.join(dstDir, 'kept.gd'))).toBe(true);
+        expect(await exists(path.join(dstDir, 'extra.gd'))).toBe(false);
+        expect(await exists(path.join(dstDir, 'notes.txt'))).toBe(true);
+        expect(service.getIsRunning()).toBe(false);
+        await service.release();
+    }, 10000);
+
+    it('leaves target files that were never synced out of a two-way mirror', async () => {
+        await fs.writeFile(path.join(srcDir, 'gone.gd'), 'print("gone")');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: false, mode: 'twoWay' });
+        expect(await (service as any).handleFileSync(path.join(srcDir, 'gone.gd'), 'add')).toBe('copied');
+        await fs.rm(path.join(srcDir, 'gone.gd'));
+        await fs.writeFile(path.join(dstDir, 'new_in_target.gd'), 'print("new")');
+
+        const plan = await service.createPlan({ includeDeletions: true });
+        expect(plan.entries.filter(e => e.action === 'delete').map(e => e.relativePath)).toEqual(['gone.gd']);
+        await service.release();
+    }, 10000);
+
+    it('does not report sidecars as orphans when sidecar sync is disabled', async () => {
+        await fs.writeFile(path.join(dstDir, 'removed.png'), 'png');
+        await fs.writeFile(path.join(dstDir, 'removed.png.import'), 'import v1');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.png'], allowDeletion: false, sidecarPolicy: 'never' });
+
+        expect(await service.findOrphans()).toEqual(['removed.png']);
+        expect((await service.createPlan({ includeDeletions: true })).entries.map(e => e.relativePath)).toEqual(['removed.png']);
+        await service.release();
+    }, 10000);
+
+    it('finds orphaned target files and removes them with a backup', async () => {
+        await fs.writeFile(path.join(srcDir, 'kept.gd'), 'print("kept")');
+        await fs.writeFile(path.join(dstDir, 'kept.gd'), 'print("kept")');
+        await fs.mkdir(path.join(dstDir, 'old'), { recursive: true });
+        await fs.writeFile(path.join(dstDir, 'old', 'stale.gd'), 'print("stale")');
+        await fs.writeFile(path.join(dstDir, 'readme.txt'), 'not matched by the rules');
+        const backupDir = await makeTempDir('godot-sync-backups-');
+        const store = new BackupStore(backupDir);
+
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: false });
+        expect(await service.findOrphans()).toEqual([path.join('old', 'stale.gd')]);
+
+        await service.removeOrphan(path.join('old', 'stale.gd'), store);
+        expect(await exists(path.join(dstDir, 'old', 'stale.gd'))).toBe(false);
+        expect((await store.list()).map(e => [e.side, e.relativePath, e.reason])).toEqual([['target', 'old/stale.gd', 'delete']]);
+        await expect(service.removeOrphan('kept.gd')).rejects.toThrow('source file exists');
+        expect(await service.findOrphans()).toEqual([]);
+        await service.release();
+        await fs.rm(backupDir, { recursive: true, force: true });
+    }, 10000);
+
+    it('detects conflicts when source and target both changed and records resolutions', async () => {
+        const reported: string[][] = [];
+        service = new SyncService(
+            (m) => logs.push(m),
+            (running) => { isRunningState = running; },
+            { onConflictsChanged: (conflicts) => reported.push(conflicts.map(c => c.relativePath)) }
+        );
+        const s = path.join(srcDir, 'c.gd');
+        const d = path.join(dstDir, 'c.gd');
+        await fs.writeFile(s, 'print("base")');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: false });
+        expect(await (service as any).handleFileSync(s, 'add')).toBe('copied');
+
+        await fs.writeFile(s, 'print("source edit")');
+        await fs.writeFile(d, 'print("target edit")');
+        expect(await (service as any).handleFileSync(s, 'change')).toBe('skipped');
+        expect(service.getConflicts().map(c => c.relativePath)).toEqual(['c.gd']);
+        expect(reported[reported.length - 1]).toEqual(['c.gd']);
+        expect(await fs.readFile(d, 'utf8')).toContain('target edit');
+
+        await service.resolveConflict('c.gd', 'keepTarget');
+        expect(service.getConflicts()).toEqual([]);
+        // The same versions are not reported again
+        expect(await (service as any).handleFileSync(s, 'change')).toBe('skipped');
+        expect(service.getConflicts()).toEqual([]);
+        expect(await fs.readFile(d, 'utf8')).toContain('target edit');
+
+        // A later source edit conflicts again only if the target changes too; here it just syncs
+        await fs.writeFile(s, 'print("source edit 2")');
+        expect(await (service as any).handleFileSync(s, 'change')).toBe('copied');
+
+        await fs.writeFile(s, 'print("source edit 3")');
+        await fs.writeFile(d, 'print("target edit 3")');
+        await (service as any).handleFileSync(s, 'change');
+        await service.resolveConflict('c.gd', 'saveBoth');
+        expect(await fs.readFile(d, 'utf8')).toContain('source edit 3');
+        const copies = (await fs.readdir(dstDir)).filter(f => f.startsWith('c.gd.conflict-'));
+        expect(copies).toHaveLength(1);
+        expect(await fs.readFile(path.join(dstDir, copies[0]), 'utf8')).toContain('target edit 3');
+        await service.release();
+    }, 10000);
+
+    it('backs up the target before saving both versions and does not pull the copy into the source in two-way mode', async () => {
+        const backups = new BackupStore(await makeTempDir('godot-sync-backups-'));
+        const s = path.join(srcDir, 'c.gd');
+        const d = path.join(dstDir, 'c.gd');
+        await fs.writeFile(s, 'print("base")');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: false, mode: 'twoWay', backups });
+        expect(await (service as any).handleFileSync(s, 'add')).toBe('copied');
+
+        await fs.writeFile(s, 'print("source edit")');
+        await fs.writeFile(d, 'print("target edit")');
+        await (service as any).handleFileSync(s, 'change');
+        await service.resolveConflict('c.gd', 'saveBoth');
+
+        const saved = await backups.list();
+        expect(saved.map(e => [e.side, e.relativePath, e.reason])).toEqual([['target', 'c.gd', 'overwrite']]);
+        expect(await fs.readFile(backups.getBackupPath(saved[0]), 'utf8')).toBe('print("target edit")');
+        const copy = (await fs.readdir(dstDir)).find(f => f.startsWith('c.gd.conflict-'))!;
+        expect(copy).toMatch(/^c\.gd\.conflict-\d{8}-\d{6}$/);
+
+        await (service as any).initialSync();
+        expect((await fs.readdir(srcDir)).sort()).toEqual(['c.gd']);
+        await service.release();
+    }, 10000);
+
+    it('syncs target changes back in two-way mode without echoing its own writes', async () => {
+        const started = service.startWithConfig({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: true, mode: 'twoWay' });
+        expect(started).toBe(true);
+        await waitFor(() => isRunningState === true);
+
+        await fs.writeFile(path.join(srcDir, 'p.gd'), 'print("from source")');
+        await waitFor(async () => await exists(path.join(dstDir, 'p.gd')));
+
+        await fs.writeFile(path.join(dstDir, 'p.gd'), 'print("from target")');
+        await waitFor(async () => (await fs.readFile(path.join(srcDir, 'p.gd'), 'utf8')).includes('from target'));
+        await delay(600);
+        expect(logs.filter(l => l.includes('Copied: p.gd'))).toHaveLength(1);
+        expect(logs.filter(l => l.includes('Copied to source: p.gd'))).toHaveLength(1);
+
+        await fs.rm(path.join(dstDir, 'p.gd'));
+        await waitFor(async () => !(await exists(path.join(srcDir, 'p.gd'))));
+        expect(logs.some(l => l.includes('Deleted in source: p.gd'))).toBe(true);
+    }, 20000);
+
+    it('keeps files deleted on the other side while stopped unless deletion is allowed', async () => {
+        const s = path.join(srcDir, 'k.gd');
+        await fs.writeFile(s, 'print("k")');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: false, mode: 'twoWay' });
+        expect(await (service as any).handleFileSync(s, 'add')).toBe('copied');
+
+        await fs.rm(path.join(dstDir, 'k.gd'));
+        expect(await (service as any).handleFileSync(s, 'add')).toBe('skipped');
+        expect(await exists(s)).toBe(true);
+        expect(logs.some(l => l.includes('deleted in target since last sync'))).toBe(true);
+
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: true, mode: 'twoWay' });
+        await fs.writeFile(path.join(dstDir, 'k.gd'), 'print("k")');
+        expect(await (service as any).handleFileSync(s, 'add')).toBe('skipped');
+        await fs.rm(path.join(dstDir, 'k.gd'));
+        expect(await (service as any).handleFileSync(s, 'add')).toBe('deleted');
+        expect(await exists(s)).toBe(false);
+        await service.release();
+    }, 10000);
+
+    it('renames the target and its sidecars when a source file is moved', async () => {
+        await fs.writeFile(path.join(srcDir, 'old.gd'), 'print("moving")');
+        const started = service.start(srcDir, dstDir, ['.gd'], true);
+        expect(started).toBe(true);
+        await waitFor(() => isRunningState === true);
+        await waitFor(async () => await exists(path.join(dstDir, 'old.gd')));
+        // Generated by Godot in the target project
+        await fs.writeFile(path.join(dstDir, 'old.gd.uid'), 'uid://abc');
+
+        const copySpy = vi.spyOn(service as any, 'copyFileAtomicWithRetry');
+        await fs.mkdir(path.join(srcDir, 'scripts'));
+        await fs.rename(path.join(srcDir, 'old.gd'), path.join(srcDir, 'scripts', 'new.gd'));
+
+        await waitFor(() => logs.some(l => l.includes(`Moved: old.gd -> ${path.join('scripts', 'new.gd')}`)));
+        expect(await fs.readFile(path.join(dstDir, 'scripts', 'new.gd'), 'utf8')).toContain('moving');
+        expect(await fs.readFile(path.join(dstDir, 'scripts', 'new.gd.uid'), 'utf8')).toBe('uid://abc');
+        expect(await exists(path.join(dstDir, 'old.gd'))).toBe(false);
+        expect(await exists(path.join(dstDir, 'old.gd.uid'))).toBe(false);
+        expect(copySpy).not.toHaveBeenCalled();
+
+        // The deferred unlink was consumed by the move
+        await delay(1800);
+        expect(logs.some(l => l.includes('Deleted: old.gd'))).toBe(false);
+        copySpy.mockRestore();
+    }, 20000);
+
+    it('rewrites references to a moved file on both sides against the target project and records them as synced', async () => {
+        await fs.writeFile(path.join(dstDir, 'project.godot'), 'config_version=5\n');
+        const targetDir = path.join(dstDir, 'addons', 'lib');
+        await fs.mkdir(targetDir, { recursive: true });
+        await fs.writeFile(path.join(srcDir, 'old.gd'), 'print("moving")');
+        await fs.writeFile(path.join(srcDir, 'main.tscn'), '[ext_resource type="Script" path="res://addons/lib/old.gd" id="1"]\n');
+        const proposed: ReferenceEdit[] = [];
+        const results: FileSyncResult[] = [];
+        service = new SyncService((m) => logs.push(m), (running) => { isRunningState = running; }, {
+            onReferenceEdits: (edits) => proposed.push(...edits),
+            onFileResult: (r) => results.push(r)
+        });
+        expect(service.startWithConfig({
+            sourceDir: srcDir, targetDir, extensions: ['.gd', '.tscn'], allowDeletion: true, rewriteReferences: 'sourceAndTarget'
+        })).toBe(true);
+        await waitFor(() => isRunningState === true);
+        await waitFor(async () => await exists(path.join(targetDir, 'main.tscn')));
+
+        await fs.mkdir(path.join(srcDir, 'scripts'));
+        await fs.rename(path.join(srcDir, 'old.gd'), path.join(srcDir, 'scripts', 'new.gd'));
+        await waitFor(() => proposed.length === 2);
+        expect(proposed.map(e => e.side).sort()).toEqual(['source', 'target']);
+
+        expect(await service.applyReferenceEdits(proposed)).toBe(2);
+        const rewritten = '[ext_resource type="Script" path="res://addons/lib/scripts/new.gd" id="1"]\n';
+        expect(await fs.readFile(path.join(srcDir, 'main.tscn'), 'utf8')).toBe(rewritten);
+        expect(await fs.readFile(path.join(targetDir, 'main.tscn'), 'utf8')).toBe(rewritten);
+
+        // The manifest knows both rewritten files, so this is not taken for a target edit
+        results.length = 0;
+        expect(await (service as any).handleFileSync(path.join(srcDir, 'main.tscn'), 'change')).toBe('skipped');
+        expect(results.find(r => r.relativePath === 'main.tscn')?.reason).toBe('unchanged');
+    }, 20000);
+
+    it('logs synced paths as res:// paths when the target is in a Godot project', async () => {
+        await fs.writeFile(path.join(dstDir, 'project.godot'), 'config_version=5\n');
+        await fs.mkdir(path.join(srcDir, 'scripts'));
+        const s = path.join(srcDir, 'scripts', 'r.gd');
+        await fs.writeFile(s, 'print("r")');
+        await service.prepare({ sourceDir: srcDir, targetDir: dstDir, extensions: ['.gd'], allowDeletion: false });
+        expect(await (service as any).handleFileSync(s, 'add')).toBe('copied');
+        expect(logs.some(l => l.endsWith('Copied: res://scripts/r.gd'))).toBe(true);
+        await service.release();
+    }, 10000);
+
+    it('honors .gdignore folders in the source and the target', async () => {
+        await fs.writeFile(path.join(dstDir, 'project.godot'), 'config_version=5\n');
+        await fs.mkdir(path.join(srcDir, 'raw'));
+        await fs.writeFile(path.join(srcDir, 'raw', '.gdignore'), '');
+        await fs.writeFile(path.join(srcDir, 'raw', 'r.gd'), 'print("raw")');
+        await fs.mkdir(path.join(srcDir, 'drafts'));
+        await fs.writeFile(path.join(srcDir, 'drafts', 'd.gd'), 'print("draft")');
+        await fs.mkdir(path.join(dstDir, 'drafts'));
+        await fs.writeFile(path.join(dstDir, 'drafts', '.gdignore'), '');
+        await fs.writeFile(path.join(srcDir, 'main.gd'), 'print("main")');
+
+        const started = service.start(srcDir, dstDir, ['.gd'], false);
+        expect(started).toBe(true);
+        await waitFor(() => isRunningState === true);
+        await waitFor(async () => await exists(path.join(dstDir, 'main.gd')));
+        await delay(300);
+        expect(await exists(path.join(dstDir, 'raw', 'r.gd'))).toBe(false);
+        expect(await exists(path.join(dstDir, 'drafts', 'd.gd'))).toBe(false);
+        expect(logs.some(l => l.endsWith('Skipped: .gdignore in res://raw/'))).toBe(true);
+        expect(logs.some(l => l.endsWith('Skipped: .gdignore in res://drafts/'))).toBe(true);
+
+        // Removing the .gdignore brings the folder back
+        await fs.rm(path.join(srcDir, 'raw', '.gdignore'));
+        await waitFor(async () => await exists(path.join(dstDir, 'raw', 'r.gd')));
+    }, 20000);
+
     it('atomic copy with retry succeeds after transient EBUSY', async () => {
         (service as any).sourceDir = srcDir;
         (service as any).targetDir = dstDir;
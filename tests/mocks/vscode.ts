@@ -2,6 +2,30 @@ export const window = {
     showErrorMessage: (_msg: string) => { /* noop in tests */ }
 };
 
+// Minimal vscode.Event: tests raise events with fire()
+function createEvent<T>() {
+    const listeners = new Set<(event: T) => void>();
+    const event = (listener: (event: T) => void) => {
+        listeners.add(listener);
+        return { dispose: () => { listeners.delete(listener); } };
+    };
+    event.fire = (payload: T) => listeners.forEach(listener => listener(payload));
+    return event;
+}
+
+type MockUri = { scheme: string; fsPath: string };
+
+export const Uri = {
+    file: (fsPath: string): MockUri => ({ scheme: 'file', fsPath })
+};
+
+export const workspace = {
+    onDidSaveTextDocument: createEvent<{ uri: MockUri }>(),
+    onDidCreateFiles: createEvent<{ files: MockUri[] }>(),
+    onDidRenameFiles: createEvent<{ files: { oldUri: MockUri; newUri: MockUri }[] }>(),
+    onDidDeleteFiles: createEvent<{ files: MockUri[] }>()
+};
+
 
 
 